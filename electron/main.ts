@@ -1,6 +1,7 @@
 import { app, BrowserWindow, ipcMain, nativeImage, Menu, MenuItemConstructorOptions, dialog } from 'electron'
 import path from 'node:path'
 import fs from 'node:fs'
+import { registerNodeProcessHandlers, killAllNodeProcesses } from './node-process'
 
 process.env.DIST = path.join(__dirname, '../dist')
 process.env.PUBLIC = app.isPackaged ? process.env.DIST : path.join(process.env.DIST, '../public')
@@ -24,6 +25,7 @@ function createWindow () {
   // Handlers básicos de ventana
   ipcMain.on('close-me', () => {
     // Forzar el cierre de la aplicación
+    killAllNodeProcesses()
     app.exit(0)
   })
   ipcMain.on('maximize', () => {
@@ -194,6 +196,50 @@ function createWindow () {
     }
   })
 
+  // Handler para elegir un paquete npm (.tgz) e instalarlo sin registro
+  ipcMain.handle('open-package-tarball-dialog', async () => {
+    if (!win) return null
+
+    const result = await dialog.showOpenDialog(win, {
+      title: 'Instalar paquete desde archivo',
+      filters: [
+        { name: 'Paquetes npm', extensions: ['tgz'] },
+        { name: 'Todos los archivos', extensions: ['*'] }
+      ],
+      properties: ['openFile']
+    })
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return null
+    }
+
+    try {
+      const filePath = result.filePaths[0]
+      return { fileName: path.basename(filePath), data: fs.readFileSync(filePath) }
+    } catch (error) {
+      console.error('Error reading package tarball:', error)
+      return null
+    }
+  })
+
+  // Handler para leer los tarballs de un registro en carpeta local
+  ipcMain.handle('read-package-folder', async (_event, folderPath: string) => {
+    try {
+      return fs.readdirSync(folderPath)
+        .filter((fileName) => fileName.endsWith('.tgz'))
+        .map((fileName) => ({
+          fileName,
+          data: fs.readFileSync(path.join(folderPath, fileName))
+        }))
+    } catch (error) {
+      console.error('Error reading package folder:', error)
+      return null
+    }
+  })
+
+  // Scripts en un proceso Node real
+  registerNodeProcessHandlers()
+
   // Handler para mostrar información "Acerca de"
   ipcMain.on('show-about-dialog', () => {
     if (!win) return
@@ -221,6 +267,7 @@ function createWindow () {
 }
 
 app.on('window-all-closed', () => {
+  killAllNodeProcesses()
   win = null
 })
 app
@@ -0,0 +1,72 @@
+/**
+ * Punto de entrada del proceso Node que ejecuta un script del usuario.
+ *
+ * Lo lanza el proceso principal con utilityProcess.fork: recibe la ruta del
+ * código ya transformado y la del archivo de entrada dentro de la copia
+ * temporal del workspace. Las llamadas a console llegan como debug(línea,
+ * método, ...args) y se envían por parentPort; lo que el script escribe en
+ * stdout/stderr lo reenvía el proceso principal.
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { createRequire } from 'node:module'
+import { inspect } from 'node:util'
+
+// AsyncFunction no es global: se toma del prototipo de una función async
+async function asyncFunctionPrototype () {
+  // Solo interesa su constructor
+}
+const AsyncFunction = Object.getPrototypeOf(asyncFunctionPrototype).constructor
+
+const [codePath, entryPath] = process.argv.slice(2)
+
+const send = (message: Record<string, unknown>) => {
+  process.parentPort.postMessage(message)
+}
+
+// Solo viajan valores clonables: funciones, símbolos y demás se envían como texto
+const toCloneable = (value: unknown): unknown => {
+  try {
+    return structuredClone(value)
+  } catch {
+    return inspect(value, { depth: 4 })
+  }
+}
+
+const sendError = (error: unknown) => {
+  const value = error instanceof Error ? error : new Error(`Uncaught ${inspect(error)}`)
+  // loc: posición en el código original (errores de la protección contra bucles)
+  send({ type: 'error', name: value.name, message: value.message, stack: value.stack, loc: (value as Error & { loc?: unknown }).loc })
+}
+
+const debug = (line: number, method: string = 'log', ...args: unknown[]) => {
+  send({ type: 'console', line, method, args: args.map(toCloneable) })
+}
+
+// Los módulos del workspace se cargan con el require de Node y también
+// envían sus llamadas a console por debug
+Object.assign(globalThis, { debug })
+
+process.on('uncaughtException', sendError)
+process.on('unhandledRejection', sendError)
+
+const run = async () => {
+  const code = fs.readFileSync(codePath, 'utf-8')
+  const moduleObject = { exports: {} as Record<string, unknown> }
+  const userFunction = AsyncFunction(
+    'debug', 'require', 'module', 'exports', '__filename', '__dirname',
+    code
+  )
+  await userFunction(
+    debug,
+    createRequire(entryPath),
+    moduleObject,
+    moduleObject.exports,
+    entryPath,
+    path.dirname(entryPath)
+  )
+}
+
+// El proceso termina solo cuando el script no deja trabajo pendiente, como en Node
+run().catch(sendError)
@@ -0,0 +1,137 @@
+import { ipcMain, utilityProcess, type UtilityProcess, type WebContents } from 'electron'
+import path from 'node:path'
+import fs from 'node:fs'
+import os from 'node:os'
+
+/**
+ * Scripts del usuario ejecutados en un proceso Node real.
+ *
+ * Cada ejecución copia los archivos del workspace (los módulos importados ya
+ * transformados por el renderer) a un directorio temporal,
+ * lanza node-process-child.js con utilityProcess y reenvía al renderer las
+ * llamadas a console, la salida de stdout/stderr y el final del proceso por
+ * el canal 'node-process-event'. El renderer puede terminarlo en cualquier momento.
+ */
+
+// Límite de memoria del heap de V8 de cada proceso (el de tiempo lo envía el renderer)
+const NODE_PROCESS_LIMITS = {
+  MAX_OLD_SPACE_MB: 512
+}
+
+export interface NodeProcessRequest {
+  runId: string
+  /** Código ya transformado por el renderer */
+  code: string
+  /** Nombre del archivo que se ejecuta */
+  entryPath: string
+  /** Archivos del workspace, por nombre (los módulos importados ya transformados) */
+  files: Record<string, string>
+  /** Variables de entorno del workspace */
+  env: Record<string, string>
+  /** Tiempo máximo de vida del proceso (ms) */
+  timeLimit: number
+}
+
+interface RunningProcess {
+  child: UtilityProcess
+  runDir: string
+  timeoutId: ReturnType<typeof setTimeout>
+  killed: boolean
+}
+
+const runningProcesses = new Map<string, RunningProcess>()
+
+/**
+ * Escribe los archivos del workspace en el directorio temporal. Los nombres
+ * que saldrían del directorio (absolutos o con "..") se ignoran
+ */
+const writeWorkspaceFiles = (workspaceDir: string, files: Record<string, string>) => {
+  for (const [name, content] of Object.entries(files)) {
+    const filePath = path.resolve(workspaceDir, name)
+    if (!filePath.startsWith(workspaceDir + path.sep)) continue
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    fs.writeFileSync(filePath, content, 'utf-8')
+  }
+}
+
+const killProcess = (runId: string) => {
+  const running = runningProcesses.get(runId)
+  if (!running || running.killed) return
+  running.killed = true
+  running.child.kill()
+}
+
+const startProcess = (sender: WebContents, request: NodeProcessRequest) => {
+  const { runId } = request
+  const sendEvent = (event: Record<string, unknown>) => {
+    if (!sender.isDestroyed()) sender.send('node-process-event', { runId, ...event })
+  }
+
+  const runDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jsrunner-'))
+  const workspaceDir = path.join(runDir, 'workspace')
+  fs.mkdirSync(workspaceDir)
+  writeWorkspaceFiles(workspaceDir, request.files)
+  const codePath = path.join(runDir, 'entry.js')
+  fs.writeFileSync(codePath, request.code, 'utf-8')
+  const entryPath = path.resolve(workspaceDir, request.entryPath)
+
+  const child = utilityProcess.fork(path.join(__dirname, 'node-process-child.js'), [codePath, entryPath], {
+    cwd: workspaceDir,
+    // El script no hereda el entorno de la aplicación (tokens, rutas del
+    // usuario): recibe solo PATH, NODE_ENV y las variables del workspace
+    env: { PATH: process.env.PATH ?? '', NODE_ENV: 'development', ...request.env },
+    execArgv: [`--max-old-space-size=${NODE_PROCESS_LIMITS.MAX_OLD_SPACE_MB}`],
+    stdio: 'pipe',
+    serviceName: 'JSRunner Node Script'
+  })
+
+  const running: RunningProcess = {
+    child,
+    runDir,
+    killed: false,
+    timeoutId: setTimeout(() => {
+      sendEvent({ type: 'limit', reason: 'time', limit: request.timeLimit })
+      killProcess(runId)
+    }, request.timeLimit)
+  }
+  runningProcesses.set(runId, running)
+
+  child.stdout?.on('data', (chunk: Buffer) => sendEvent({ type: 'output', stream: 'stdout', text: chunk.toString() }))
+  child.stderr?.on('data', (chunk: Buffer) => sendEvent({ type: 'output', stream: 'stderr', text: chunk.toString() }))
+  child.on('message', (message) => sendEvent(message))
+
+  child.on('exit', (code) => {
+    clearTimeout(running.timeoutId)
+    runningProcesses.delete(runId)
+    fs.rmSync(runDir, { recursive: true, force: true })
+    sendEvent({ type: 'exit', code, killed: running.killed })
+  })
+}
+
+/**
+ * Registra los handlers IPC de los procesos Node
+ */
+export function registerNodeProcessHandlers () {
+  ipcMain.handle('node-process-run', (event, request: NodeProcessRequest) => {
+    try {
+      startProcess(event.sender, request)
+      return true
+    } catch (error) {
+      console.error('Error starting node process:', error)
+      return false
+    }
+  })
+
+  ipcMain.on('node-process-kill', (_event, runId: string) => {
+    killProcess(runId)
+  })
+}
+
+/**
+ * Termina todos los procesos en curso (al cerrar la ventana)
+ */
+export function killAllNodeProcesses () {
+  for (const runId of runningProcesses.keys()) {
+    killProcess(runId)
+  }
+}
@@ -1,4 +1,5 @@
-import { contextBridge, ipcRenderer } from 'electron'
+import { contextBridge, ipcRenderer, type IpcRendererEvent } from 'electron'
+import type { NodeProcessRequest } from './node-process'
 import { domReady, useLoading } from './utils'
 
 // eslint-disable-next-line react-hooks/rules-of-hooks
@@ -28,6 +29,18 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Diálogos específicos
   exportWorkspace: (workspaceData: string) => ipcRenderer.invoke('export-workspace-dialog', workspaceData),
   importWorkspace: () => ipcRenderer.invoke('import-workspace-dialog'),
+  openPackageTarball: () => ipcRenderer.invoke('open-package-tarball-dialog'),
+
+  // Scripts en un proceso Node real
+  runNodeProcess: (request: NodeProcessRequest) => ipcRenderer.invoke('node-process-run', request),
+  killNodeProcess: (runId: string) => ipcRenderer.send('node-process-kill', runId),
+  onNodeProcessEvent: (listener: (event: Record<string, unknown>) => void) => {
+    const handler = (_event: IpcRendererEvent, data: Record<string, unknown>) => listener(data)
+    ipcRenderer.on('node-process-event', handler)
+    return () => {
+      ipcRenderer.removeListener('node-process-event', handler)
+    }
+  },
   showAbout: () => ipcRenderer.send('show-about-dialog')
 })
 
@@ -16,6 +16,9 @@ import {
   type ResultElement,
 } from "./context/CodeContext";
 import Result from "./components/Result";
+import ReactPreview from "./components/ReactPreview";
+import HtmlPreview from "./components/HtmlPreview";
+import { isHtmlPreviewLanguage } from "./lib/code/html-preview";
 import Toolbar from "./components/Toolbar";
 import ToolbarSettings from "./components/ToolbarSettings";
 import FileManager from "./components/FileManager";
@@ -85,13 +88,14 @@ function ContextErrorFallback() {
 }
 
 function AppContent() {
-  const { result, setResult } = useContext(CodeResultContext);
+  const { result, setResult, appendResult, setIsRunning } = useContext(CodeResultContext);
   const { state, actions } = useWorkspace();
   const { direction, sizes, gutterSize, handleDragEnd } = useSplitLayout();
   const [showPackageManager, setShowPackageManager] = useState(false);
   const [showEnvVars, setShowEnvVars] = useState(false);
   const [showSnippetManager, setShowSnippetManager] = useState(false);
   const [executionStatus, setExecutionStatus] = useState<any>(null);
+  const [htmlPreviewReload, setHtmlPreviewReload] = useState(0);
 
   const editorRef = useRef<any>(null);
 
@@ -99,9 +103,11 @@ function AppContent() {
   const activeFile = state.files.find(f => f.id === state.activeFileId);
 
   // Hook para ejecución de código integrado con workspace
-  const { isRunning, isTransforming, error, clearError, runCode } =
+  const { isRunning, isTransforming, error, clearError, runCode, cancelExecution } =
     useCodeEditor({
       onResult: setResult,
+      onResultAppend: appendResult,
+      onRunningChange: setIsRunning,
       onCodeChange: (code: string) => {
         if (activeFile) {
           actions.updateFileContent(activeFile.id, code);
@@ -111,7 +117,8 @@ function AppContent() {
 
   // Variables derivadas para compatibilidad con Toolbar
   const isExecuting = isRunning || isTransforming;
-  const canCancel = false; // El hook actual no soporta cancelación
+  // La ejecución automática corre en el hook del Editor; su estado llega por executionStatus
+  const canCancel = isExecuting || executionStatus?.type === "executing";
   const executionStats = {
     resultsCount: Array.isArray(result) ? result.length : 0,
     lastExecution: Date.now(),
@@ -160,13 +167,18 @@ function AppContent() {
     };
   }, [globalShowNativeContextMenu]);
 
-  // Función para cancelar ejecución (placeholder ya que no está soportado)
+  // Función para cancelar la ejecución en curso (termina el worker o desmonta sus timers)
   const handleCancelExecution = useCallback(() => {
-    console.log("Cancelación no soportada en la versión actual");
-  }, []);
+    cancelExecution();
+  }, [cancelExecution]);
 
   // Función para ejecutar código usando el hook
   const handleRunCode = useCallback(() => {
+    // HTML y CSS se muestran en la vista previa: ejecutar la recarga
+    if (activeFile && isHtmlPreviewLanguage(activeFile.language)) {
+      setHtmlPreviewReload((count) => count + 1);
+      return;
+    }
     if (activeFile && activeFile.content) {
       runCode(activeFile.content);
     }
@@ -233,8 +245,13 @@ function AppContent() {
           )}
         </div>
 
-        <div className="relative overflow-hidden">
-          <Result />
+        <div className="relative overflow-hidden flex flex-col">
+          {/* Vista previa de los componentes React del archivo en ejecución */}
+          <ReactPreview />
+          <HtmlPreview reloadToken={htmlPreviewReload} />
+          <div className="flex-1 min-h-0">
+            <Result />
+          </div>
 
           {/* Información de resultados en la parte inferior */}
           {executionStats.resultsCount > 0 && (
@@ -330,11 +347,18 @@ function SafeAppContent() {
 function App() {
   const [code, setCode] = useState<string>("");
   const [result, setResult] = useState<ResultElement[] | string>("");
+  const [isRunning, setIsRunning] = useState(false);
+
+  const appendResult = useCallback((newResult: ResultElement) => {
+    setResult((prev) => (Array.isArray(prev) ? [...prev, newResult] : [newResult]));
+  }, []);
 
   return (
     <>
       <CodeContext.Provider value={{ code, setCode }}>
-        <CodeResultContext.Provider value={{ result, setResult }}>
+        <CodeResultContext.Provider
+          value={{ result, setResult, appendResult, isRunning, setIsRunning }}
+        >
           <ConfigProvider>
             <WorkspaceProvider>
               <ToolbarProvider>
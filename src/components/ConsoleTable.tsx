@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Copy, Check } from "lucide-react";
+import type { ConsoleTableData } from "../lib/code/types";
+import {
+  TABLE_INDEX_COLUMN,
+  tableToCSV,
+  tableToMarkdown,
+} from "../lib/code/console-table";
+
+interface ConsoleTableProps {
+  table: ConsoleTableData;
+}
+
+type CopyFormat = "csv" | "markdown";
+
+/**
+ * Tabla de console.table dentro del panel de resultados
+ */
+function ConsoleTable({ table }: ConsoleTableProps) {
+  const [copied, setCopied] = useState<CopyFormat | null>(null);
+
+  const handleCopy = async (format: CopyFormat) => {
+    const text = format === "csv" ? tableToCSV(table) : tableToMarkdown(table);
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(format);
+      setTimeout(() => setCopied(null), 1500);
+    } catch (error) {
+      console.error("No se pudo copiar la tabla:", error);
+    }
+  };
+
+  const renderCopyButton = (format: CopyFormat, label: string) => (
+    <button
+      onClick={() => handleCopy(format)}
+      className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-gray-800 hover:bg-gray-700 text-gray-400 hover:text-gray-200"
+      title={`Copiar como ${label}`}
+    >
+      {copied === format ? <Check size={10} /> : <Copy size={10} />}
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="my-1 inline-block max-w-full">
+      <div className="overflow-auto max-h-80 border border-gray-700 rounded">
+        <table className="text-xs border-collapse">
+          <thead className="sticky top-0 bg-gray-800">
+            <tr>
+              {[TABLE_INDEX_COLUMN, ...table.columns].map((column) => (
+                <th
+                  key={column}
+                  className="px-2 py-1 text-left font-medium text-gray-300 border-b border-r border-gray-700 whitespace-nowrap"
+                >
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map((row) => (
+              <tr key={row.index} className="odd:bg-gray-900/40 hover:bg-gray-700/40">
+                <td className="px-2 py-0.5 text-gray-400 border-r border-gray-700 whitespace-nowrap">
+                  {row.index}
+                </td>
+                {table.columns.map((column) => (
+                  <td
+                    key={column}
+                    className="px-2 py-0.5 text-gray-200 border-r border-gray-700 whitespace-pre"
+                  >
+                    {row.cells[column] ?? ""}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center gap-2 mt-1 text-[10px]">
+        {renderCopyButton("csv", "CSV")}
+        {renderCopyButton("markdown", "Markdown")}
+        {table.truncated && (
+          <span className="text-gray-500">Se muestran solo las primeras {table.rows.length} filas</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ConsoleTable;
@@ -1,4 +1,4 @@
-import { useContext, useEffect, useRef, useCallback, useState } from "react";
+import { useContext, useEffect, useRef, useCallback, useState, useMemo } from "react";
 import Editor from "@monaco-editor/react";
 import { CodeResultContext } from "../context/CodeContext";
 import { useWorkspace } from "../context/WorkspaceContext";
@@ -8,6 +8,7 @@ import { useCodeEditor } from "../hooks/useCodeEditor";
 import { useDebouncedCodeRunner } from "../hooks/useDebouncedCodeRunner";
 import { useAutoSave } from "../hooks/useAutoSave";
 import { useMonacoWorkspaceSync } from "../hooks/useMonacoWorkspaceSync";
+import { useInlineValues } from "../hooks/useInlineValues";
 import {
   SESSION_CONFIG,
   MONACO_EDITOR_CONFIG,
@@ -23,6 +24,7 @@ import {
   setupSnippets,
 } from "../lib/monaco/monacoSetup";
 import { themeManager } from "../lib/themes/theme-manager";
+import { isHtmlPreviewLanguage } from "../lib/code/html-preview";
 import ExecutionStatusIndicator from "./ExecutionStatusIndicator";
 import ExecutionDashboard from "./ExecutionDashboard";
 
@@ -42,8 +44,8 @@ const debugLog = (message: string, data?: any) => {
 let significantPatternsCache: readonly RegExp[] | null = null;
 
 function EDITOR({ editorRef, onStatusChange }: EditorProps = {}) {
-  const { setResult } = useContext(CodeResultContext);
-  const { actions, utils } = useWorkspace();
+  const { result, setResult, appendResult, setIsRunning } = useContext(CodeResultContext);
+  const { state: workspaceState, actions, utils } = useWorkspace();
   const { installedPackages } = usePackageManager();
   const { state: snippetsState } = useSnippets();
   const [isDashboardVisible, setIsDashboardVisible] = useState(false);
@@ -64,6 +66,40 @@ function EDITOR({ editorRef, onStatusChange }: EditorProps = {}) {
   const isExecutingRef = useRef<boolean>(false); // ✅ NUEVO: Track si se está ejecutando código
 
   const activeFile = utils.getActiveFile();
+  const activeFileId = activeFile?.id;
+  const activeFileName = activeFile?.name;
+  const activeRuntime = activeFile?.runtime;
+
+  // Otros archivos JS/TS del workspace, para los imports relativos entre pestañas
+  const workspaceSource = useMemo(() => {
+    if (activeFileName === undefined) return undefined;
+    const files: Record<string, string> = {};
+    for (const file of workspaceState.files) {
+      if (file.id !== activeFileId && (file.language === "javascript" || file.language === "typescript")) {
+        files[file.name] = file.content;
+      }
+    }
+    return { entryPath: activeFileName, files };
+  }, [workspaceState.files, activeFileId, activeFileName]);
+
+  // Modo Node: el fs (en memoria o la copia del proceso Node) parte de todos los archivos del workspace
+  const nodeEnvironment = useMemo(() => {
+    if (activeFileName === undefined || (activeRuntime !== "node" && activeRuntime !== "node-process")) {
+      return undefined;
+    }
+    const files: Record<string, string> = {};
+    for (const file of workspaceState.files) {
+      files[file.name] = file.content;
+    }
+    return { entryPath: activeFileName, files, childProcess: activeRuntime === "node-process" };
+  }, [workspaceState.files, activeFileName, activeRuntime]);
+
+  // Valores que se muestran sin console.log, según la configuración del workspace
+  const { scratchpad, showDeclarationValues } = workspaceState.settings;
+  const transformOptions = useMemo(
+    () => ({ scratchpad: !!scratchpad, declarationValues: !!showDeclarationValues }),
+    [scratchpad, showDeclarationValues]
+  );
 
   const {
     isRunning,
@@ -71,8 +107,14 @@ function EDITOR({ editorRef, onStatusChange }: EditorProps = {}) {
     runCode,
     monacoRef,
     executionMetrics,
+    cancelExecution,
   } = useCodeEditor({
     onResult: setResult,
+    onResultAppend: appendResult,
+    onRunningChange: setIsRunning,
+    workspace: workspaceSource,
+    node: nodeEnvironment,
+    transform: transformOptions,
   });
 
   // Hook de sincronización Monaco-Workspace
@@ -85,9 +127,20 @@ function EDITOR({ editorRef, onStatusChange }: EditorProps = {}) {
     }
   });
 
+  // Valores en línea: último resultado de cada línea al final del código
+  useInlineValues({
+    editorInstance: editorInstanceRef.current,
+    monacoInstance: monacoInstanceRef.current,
+    result,
+    enabled: !!workspaceState.settings.showInlineValues,
+    fileId: activeFile?.id,
+  });
+
   const { handler, status, cancelPending, forceExecute, executeImmediately, isAutoExecutionEnabled } =
     useDebouncedCodeRunner({
-      runCode: (code: string) => runCode(code),
+      // HTML y CSS no se ejecutan: la vista previa se recarga sola al editarlos
+      runCode: async (code: string) =>
+        isHtmlPreviewLanguage(activeFile?.language) ? undefined : runCode(code),
       onStatusChange: (status) => {
         debugLog("🔄 Estado de ejecución:", status);
         if (onStatusChange) {
@@ -493,7 +546,7 @@ function EDITOR({ editorRef, onStatusChange }: EditorProps = {}) {
 
       <ExecutionStatusIndicator
         status={status}
-        onCancel={cancelPending}
+        onCancel={status.type === "executing" ? () => cancelExecution() : cancelPending}
         onForceExecute={forceExecute}
       />
 
@@ -9,7 +9,8 @@ interface ExecutionStatus {
     | "executing"
     | "error"
     | "cleared"
-    | "paste-priority";
+    | "paste-priority"
+    | "cancelled";
   message?: string;
   timeRemaining?: number;
   lastChangeSize?: number;
@@ -139,6 +140,16 @@ export default function ExecutionStatusIndicator({
             persistent: false,
           };
 
+        case "cancelled":
+          return {
+            ...baseConfig,
+            type: "warning" as const,
+            title: "⏹️ Detenido",
+            message: status.message,
+            duration: 2000, // Auto-dismiss rápido
+            persistent: false,
+          };
+
         case "paste-priority":
           return {
             ...baseConfig,
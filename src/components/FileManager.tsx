@@ -6,6 +6,7 @@ import { useContextMenu } from "../hooks/useContextMenu";
 import EnvironmentVariables from "./EnvironmentVariables";
 import { PackageManager } from "./PackageManager";
 import { ContextMenu } from "./ContextMenu";
+import { isNodeProcessSupported } from "../lib/code/node-process";
 import {
   Plus,
   X,
@@ -20,6 +21,8 @@ import {
   Settings,
   Package,
   RotateCcw,
+  Server,
+  Terminal,
 } from "lucide-react";
 import NewFileDialog from "./NewFileDialog";
 import SettingsDialog from "./SettingsDialog";
@@ -154,6 +157,24 @@ function FileTab({
           </span>
         )}
 
+        {/* Indicador de modo Node */}
+        {file.runtime === "node" && (
+          <span
+            className="px-1 rounded text-[10px] font-mono leading-4 border border-green-500/40 text-green-500"
+            title="Se ejecuta en modo Node (fs, path, events, util y Buffer en memoria)"
+          >
+            node
+          </span>
+        )}
+        {file.runtime === "node-process" && (
+          <span
+            className="px-1 rounded text-[10px] font-mono leading-4 border border-emerald-500/60 bg-emerald-500/10 text-emerald-500"
+            title="Se ejecuta en un proceso Node real"
+          >
+            process
+          </span>
+        )}
+
         {/* Indicador de archivo sin guardar */}
         {file.isUnsaved && (
           <div
@@ -231,6 +252,10 @@ function FileManager() {
 
   const handleTabContextMenu = (e: React.MouseEvent, fileId: string) => {
     e.preventDefault();
+    const file = state.files.find((f) => f.id === fileId);
+    const isScript = file?.language === "javascript" || file?.language === "typescript";
+    const isNodeMode = file?.runtime === "node";
+    const isNodeProcess = file?.runtime === "node-process";
     showContextMenu(e, [
       {
         label: "Cerrar",
@@ -273,6 +298,18 @@ function FileManager() {
           }
         },
       },
+      {
+        label: isNodeMode ? "Desactivar modo Node" : "Activar modo Node",
+        icon: <Server size={14} />,
+        onClick: () => actions.updateFileRuntime(fileId, isNodeMode ? "browser" : "node"),
+        disabled: !isScript,
+      },
+      {
+        label: isNodeProcess ? "Ejecutar en el navegador" : "Ejecutar en proceso Node",
+        icon: <Terminal size={14} />,
+        onClick: () => actions.updateFileRuntime(fileId, isNodeProcess ? "browser" : "node-process"),
+        disabled: !isScript || (!isNodeProcess && !isNodeProcessSupported()),
+      },
       { type: "separator" },
       {
         label: "Guardar",
@@ -0,0 +1,105 @@
+import { useContext, useEffect, useMemo, useRef, useState } from "react";
+import { CodeResultContext } from "../context/CodeContext";
+import { useWorkspace } from "../context/WorkspaceContext";
+import {
+  buildHtmlPreviewDocument,
+  createHtmlPreviewResult,
+  findHtmlPreviewPage,
+  isHtmlPreviewLanguage,
+  isHtmlPreviewMessage,
+} from "../lib/code/html-preview";
+import { stopReactPreview } from "../lib/code/run";
+
+// Espera tras la última edición antes de recargar la página
+const RELOAD_DELAY = 300;
+
+interface HtmlPreviewProps {
+  /** Cambia para forzar una recarga (botón Ejecutar) */
+  reloadToken?: number;
+}
+
+/**
+ * Vista previa de la página HTML del archivo activo (o de la que enlaza el
+ * CSS activo). Se recarga al editar la página o los archivos que enlaza y la
+ * consola del iframe aparece en los resultados
+ */
+export default function HtmlPreview({ reloadToken = 0 }: HtmlPreviewProps) {
+  const { state } = useWorkspace();
+  const { setResult, appendResult } = useContext(CodeResultContext);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+
+  const activeFile = state.files.find((file) => file.id === state.activeFileId);
+  const page = useMemo(
+    () => (activeFile ? findHtmlPreviewPage(state.files, activeFile) : undefined),
+    [state.files, activeFile]
+  );
+
+  const previewDocument = useMemo(
+    () => (page ? buildHtmlPreviewDocument(page, state.files) : null),
+    [page, state.files]
+  );
+
+  // Con cada edición el documento cambia; solo se recarga al dejar de escribir
+  const [loadedDocument, setLoadedDocument] = useState<string | null>(null);
+  useEffect(() => {
+    if (previewDocument === null) {
+      setLoadedDocument(null);
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      setLoadedDocument(previewDocument);
+    }, RELOAD_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [previewDocument]);
+
+  // Cada carga empieza con los resultados limpios
+  useEffect(() => {
+    if (loadedDocument === null) return;
+    stopReactPreview();
+    setResult("");
+  }, [loadedDocument, reloadToken, setResult]);
+
+  // Consola y errores del iframe → panel de resultados
+  useEffect(() => {
+    if (loadedDocument === null) return;
+
+    let processing = Promise.resolve();
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      if (!isHtmlPreviewMessage(event.data)) return;
+      const message = event.data;
+      // En orden de llegada, aunque el formateo sea asíncrono
+      processing = processing.then(async () => {
+        appendResult(await createHtmlPreviewResult(message));
+      });
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [loadedDocument, appendResult]);
+
+  if (!isHtmlPreviewLanguage(activeFile?.language)) return null;
+
+  return (
+    <div className="h-1/2 flex flex-col border-b border-gray-700 bg-gray-800">
+      <div className="px-3 py-1 text-xs text-gray-300 border-b border-gray-700">
+        🌐 Vista previa{page ? ` • ${page.name}` : ""}
+      </div>
+
+      {loadedDocument !== null ? (
+        <iframe
+          key={reloadToken}
+          ref={iframeRef}
+          title="Vista previa HTML"
+          srcDoc={loadedDocument}
+          sandbox="allow-scripts allow-forms allow-modals"
+          className="flex-1 w-full bg-white"
+        />
+      ) : (
+        <div className="flex-1 flex items-center justify-center p-4 text-center text-sm text-gray-400">
+          {page ? "Cargando vista previa..." : "Crea un archivo HTML que enlace este CSS para verlo aquí"}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { inspectObject } from "../lib/code/run";
+import type { InspectorNode, InspectorProperty } from "../lib/code/types";
+
+interface ObjectInspectorProps {
+  node: InspectorNode;
+  // Prefijo único del árbol, usado para enlazar referencias circulares
+  treeId: string;
+  // Ids de los objetos que contienen a este nodo
+  ancestors?: number[];
+  // Dentro de un objeto los strings se muestran entre comillas
+  nested?: boolean;
+}
+
+interface ExpansionState {
+  loading: boolean;
+  properties?: InspectorProperty[];
+  truncated?: number;
+  error?: string;
+}
+
+const PRIMITIVE_COLORS: Record<string, string> = {
+  string: "text-green-300",
+  number: "text-sky-300",
+  bigint: "text-sky-300",
+  boolean: "text-purple-300",
+  undefined: "text-gray-500",
+  null: "text-gray-500",
+  symbol: "text-yellow-300",
+};
+
+/**
+ * Resalta brevemente el objeto al que apunta una referencia circular
+ */
+const revealNode = (elementId: string) => {
+  const element = document.getElementById(elementId);
+  if (!element) return;
+  element.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  element.classList.add("bg-blue-500/20");
+  setTimeout(() => element.classList.remove("bg-blue-500/20"), 1200);
+};
+
+/**
+ * Valor de un getter que se evalúa al hacer clic
+ */
+function GetterValue({
+  objectId,
+  propertyKey,
+  treeId,
+  ancestors,
+}: {
+  objectId: number;
+  propertyKey: string;
+  treeId: string;
+  ancestors: number[];
+}) {
+  const [value, setValue] = useState<InspectorNode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const evaluate = async () => {
+    const response = await inspectObject({ objectId, action: "getter", key: propertyKey });
+    if ("value" in response) {
+      setValue(response.value);
+    } else if ("error" in response) {
+      setError(response.error);
+    }
+  };
+
+  if (value) {
+    return <ObjectInspector node={value} treeId={treeId} ancestors={ancestors} nested />;
+  }
+  if (error) {
+    return <span className="text-red-400">[Exception: {error}]</span>;
+  }
+  return (
+    <button
+      onClick={evaluate}
+      className="text-gray-400 hover:text-white underline decoration-dotted"
+      title="Evaluar getter"
+    >
+      (...)
+    </button>
+  );
+}
+
+/**
+ * Vista expandible de un valor producido por console
+ */
+function ObjectInspector({ node, treeId, ancestors = [], nested = false }: ObjectInspectorProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [expansion, setExpansion] = useState<ExpansionState | null>(null);
+
+  if (node.kind === "primitive") {
+    const text = nested && node.type === "string" ? JSON.stringify(node.value) : node.value;
+    return <span className={nested ? PRIMITIVE_COLORS[node.type] : undefined}>{text}</span>;
+  }
+
+  if (node.kind === "function") {
+    return <span className="italic text-yellow-200">ƒ {node.name}()</span>;
+  }
+
+  const elementId = `${treeId}-${node.id}`;
+
+  if (ancestors.includes(node.id)) {
+    return (
+      <button
+        onClick={() => revealNode(elementId)}
+        className="text-blue-300 hover:underline"
+        title="Ir al objeto referenciado"
+      >
+        [Circular ↑ {node.className}]
+      </button>
+    );
+  }
+
+  const toggle = async () => {
+    const willExpand = !expanded;
+    setExpanded(willExpand);
+
+    // Las propiedades se piden una sola vez, al expandir por primera vez
+    if (willExpand && !expansion) {
+      setExpansion({ loading: true });
+      const response = await inspectObject({ objectId: node.id, action: "properties" });
+      if ("properties" in response) {
+        setExpansion({ loading: false, properties: response.properties, truncated: response.truncated });
+      } else if ("error" in response) {
+        setExpansion({ loading: false, error: response.error });
+      }
+    }
+  };
+
+  const showClassName = node.subtype !== "object" || node.className !== "Object";
+  const childAncestors = [...ancestors, node.id];
+
+  return (
+    <span id={elementId} className="inline-block align-top rounded transition-colors">
+      <button
+        onClick={node.expandable ? toggle : undefined}
+        className={`text-left ${node.expandable ? "hover:text-white" : "cursor-default"}`}
+      >
+        {node.expandable && (
+          <span className="select-none text-gray-500 mr-1">{expanded ? "▼" : "▶"}</span>
+        )}
+        {showClassName && <span className="text-cyan-300 mr-1">{node.className}</span>}
+        <span className="text-gray-300">{node.preview}</span>
+      </button>
+
+      {expanded && expansion && (
+        <div className="pl-4 border-l border-gray-700 ml-1">
+          {expansion.loading && <div className="text-gray-500">Cargando…</div>}
+          {expansion.error && <div className="text-red-400">{expansion.error}</div>}
+          {expansion.properties?.map((property, index) => (
+            <div key={`${index}-${property.key}`}>
+              <span className="text-purple-300">{property.key}</span>
+              <span className="text-gray-500">: </span>
+              {property.getter ? (
+                <GetterValue
+                  objectId={node.id}
+                  propertyKey={property.key}
+                  treeId={treeId}
+                  ancestors={childAncestors}
+                />
+              ) : property.value ? (
+                <ObjectInspector
+                  node={property.value}
+                  treeId={treeId}
+                  ancestors={childAncestors}
+                  nested
+                />
+              ) : null}
+            </div>
+          ))}
+          {!!expansion.truncated && (
+            <div className="text-gray-500">… {expansion.truncated} propiedades más</div>
+          )}
+        </div>
+      )}
+    </span>
+  );
+}
+
+export default ObjectInspector;
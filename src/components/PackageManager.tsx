@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, type ChangeEvent } from 'react';
 import { 
   Search, 
   Package, 
@@ -11,9 +11,15 @@ import {
   HardDrive,
   Clock,
   ArrowUpCircle,
-  Download
+  Download,
+  Upload,
+  Server,
+  GitBranch,
+  AlertTriangle,
+  Lock
 } from 'lucide-react';
 import { usePackageManager, type Package as PackageType } from '../context/PackageManagerContext';
+import type { DependencyNode } from '../lib/packages/dependency-tree';
 
 interface PackageManagerProps {
   isOpen: boolean;
@@ -25,11 +31,18 @@ export function PackageManager({ isOpen, onClose }: PackageManagerProps) {
     packages,
     installedPackages,
     isLoading,
+    registryUrl,
+    dependencyTree,
+    dependencyConflicts,
+    lockfileMismatches,
     installPackage,
+    installPackageFromFile,
     uninstallPackage,
     searchPackages,
     refreshPackages,
     updatePackage,
+    setRegistryUrl,
+    restoreFromLockfile,
     totalInstalled,
     totalSize,
     updatesAvailable
@@ -40,9 +53,12 @@ export function PackageManager({ isOpen, onClose }: PackageManagerProps) {
   const [isSearching, setIsSearching] = useState(false);
   const [newPackageName, setNewPackageName] = useState('');
   const [showAddPackage, setShowAddPackage] = useState(false);
-  const [selectedTab, setSelectedTab] = useState<'installed' | 'available' | 'search' | 'updates'>('installed');
+  const [showRegistrySettings, setShowRegistrySettings] = useState(false);
+  const [registryInput, setRegistryInput] = useState(registryUrl);
+  const [selectedTab, setSelectedTab] = useState<'installed' | 'available' | 'search' | 'updates' | 'dependencies'>('installed');
   const modalRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Manejar click fuera del modal
   useEffect(() => {
@@ -125,6 +141,54 @@ export function PackageManager({ isOpen, onClose }: PackageManagerProps) {
     }
   };
 
+  // Instalar desde un .tgz elegido por el usuario
+  const handleInstallFromFile = async () => {
+    // En el navegador se usa un input de archivo
+    if (!window.electronAPI?.openPackageTarball) {
+      fileInputRef.current?.click();
+      return;
+    }
+
+    const selected = await window.electronAPI.openPackageTarball();
+    if (selected) {
+      await installTarball(selected.data, selected.fileName);
+    }
+  };
+
+  const handleFileInputChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      await installTarball(await file.arrayBuffer(), file.name);
+    }
+  };
+
+  const installTarball = async (data: ArrayBuffer | Uint8Array, fileName: string) => {
+    try {
+      await installPackageFromFile(data);
+      setSelectedTab('installed');
+    } catch (error) {
+      console.error('Error instalando paquete desde archivo:', error);
+      alert(`Error instalando ${fileName}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Instalar las versiones del lockfile del workspace
+  const handleRestoreLockfile = async () => {
+    try {
+      await restoreFromLockfile();
+    } catch (error) {
+      console.error('Error restaurando el lockfile:', error);
+      alert('Error restaurando los paquetes del lockfile. Inténtalo de nuevo.');
+    }
+  };
+
+  // Guardar el registro configurado
+  const handleSaveRegistry = () => {
+    setRegistryUrl(registryInput);
+    setShowRegistrySettings(false);
+  };
+
   if (!isOpen) return null;
 
   const installedPackagesList = Object.values(installedPackages);
@@ -203,6 +267,23 @@ export function PackageManager({ isOpen, onClose }: PackageManagerProps) {
               <Plus className="w-4 h-4" />
               Agregar
             </button>
+            <button
+              onClick={handleInstallFromFile}
+              disabled={isLoading}
+              className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 
+                        disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              title="Instalar un paquete desde un archivo .tgz"
+            >
+              <Upload className="w-4 h-4" />
+              Desde archivo
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".tgz"
+              onChange={handleFileInputChange}
+              className="hidden"
+            />
           </div>
 
           {/* Add Custom Package */}
@@ -211,7 +292,7 @@ export function PackageManager({ isOpen, onClose }: PackageManagerProps) {
               <div className="flex gap-3">
                 <input
                   type="text"
-                  placeholder="Nombre del paquete (ej: express)"
+                  placeholder="Nombre del paquete (ej: express o lodash@^4)"
                   value={newPackageName}
                   onChange={(e) => setNewPackageName(e.target.value)}
                   onKeyDown={(e) => e.key === 'Enter' && handleAddCustomPackage()}
@@ -235,12 +316,48 @@ export function PackageManager({ isOpen, onClose }: PackageManagerProps) {
                 </button>
               </div>
               <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-                Introduce el nombre de cualquier paquete de npm
+                Introduce el nombre de cualquier paquete de npm, opcionalmente con una versión o rango
               </p>
             </div>
           )}
         </div>
 
+        {/* Registry Settings */}
+        {showRegistrySettings && (
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700">
+            <div className="flex gap-3">
+              <input
+                type="text"
+                placeholder="https://registry.npmjs.org"
+                value={registryInput}
+                onChange={(e) => setRegistryInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveRegistry()}
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg 
+                          bg-white dark:bg-gray-800 text-gray-900 dark:text-white 
+                          focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                onClick={handleSaveRegistry}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                Guardar
+              </button>
+              <button
+                onClick={() => {
+                  setRegistryInput(registryUrl);
+                  setShowRegistrySettings(false);
+                }}
+                className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700"
+              >
+                Cancelar
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              URL de un registro compatible con npm (ej: Verdaccio) o ruta de una carpeta con archivos .tgz (solo en la aplicación de escritorio)
+            </p>
+          </div>
+        )}
+
         {/* Tabs */}
         <div className="flex border-b border-gray-200 dark:border-gray-700">
           <button
@@ -275,6 +392,19 @@ export function PackageManager({ isOpen, onClose }: PackageManagerProps) {
           >
             Disponibles ({availablePackages.length})
           </button>
+          <button
+            onClick={() => setSelectedTab('dependencies')}
+            className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+              selectedTab === 'dependencies'
+                ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400'
+            }`}
+          >
+            Dependencias
+            {dependencyConflicts.length > 0 && (
+              <span className="ml-1 text-orange-500">({dependencyConflicts.length} conflictos)</span>
+            )}
+          </button>
           {searchResults.length > 0 && (
             <button
               onClick={() => setSelectedTab('search')}
@@ -319,6 +449,58 @@ export function PackageManager({ isOpen, onClose }: PackageManagerProps) {
             />
           )}
           
+          {selectedTab === 'dependencies' && (
+            <div className="space-y-4">
+              {lockfileMismatches.length > 0 && (
+                <div className="flex items-center justify-between p-3 rounded-lg bg-blue-50 dark:bg-blue-900/30 text-sm">
+                  <div className="flex items-center gap-2 text-blue-700 dark:text-blue-300">
+                    <Lock className="w-4 h-4" />
+                    <span>
+                      El lockfile del workspace pide versiones que no están instaladas: {lockfileMismatches.join(', ')}
+                    </span>
+                  </div>
+                  <button
+                    onClick={handleRestoreLockfile}
+                    disabled={isLoading}
+                    className="ml-4 px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 
+                              disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                  >
+                    Restaurar
+                  </button>
+                </div>
+              )}
+
+              {dependencyConflicts.length > 0 && (
+                <div className="p-3 rounded-lg bg-orange-50 dark:bg-orange-900/30 text-sm text-orange-700 dark:text-orange-300 space-y-1">
+                  {dependencyConflicts.map((conflict) => (
+                    <div key={`${conflict.requiredBy}:${conflict.name}`} className="flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                      <span>
+                        {conflict.requiredBy} requiere {conflict.name}@{conflict.range}
+                        {conflict.installedVersion
+                          ? `, pero está instalado ${conflict.installedVersion}`
+                          : ', pero no está instalado'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {dependencyTree.length === 0 ? (
+                <div className="text-center py-12">
+                  <GitBranch className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                  <p className="text-gray-500 dark:text-gray-400">No hay paquetes instalados desde el registro</p>
+                </div>
+              ) : (
+                <div className="font-mono text-sm">
+                  {dependencyTree.map((node) => (
+                    <DependencyTreeItem key={node.name} node={node} depth={0} />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {selectedTab === 'search' && (
             <PackageList 
               packages={searchResults}
@@ -350,18 +532,31 @@ export function PackageManager({ isOpen, onClose }: PackageManagerProps) {
                 </div>
               )}
             </div>
-            <button
-              onClick={handleRefreshPackages}
-              disabled={isLoading}
-              className="flex items-center gap-1 px-3 py-1 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
-            >
-              {isLoading ? (
-                <RefreshCw className="w-4 h-4 animate-spin" />
-              ) : (
-                <RefreshCw className="w-4 h-4" />
-              )}
-              Verificar actualizaciones
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => {
+                  setRegistryInput(registryUrl);
+                  setShowRegistrySettings(!showRegistrySettings);
+                }}
+                className="flex items-center gap-1 px-3 py-1 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 max-w-xs"
+                title={`Registro: ${registryUrl}`}
+              >
+                <Server className="w-4 h-4 flex-shrink-0" />
+                <span className="truncate">{registryUrl}</span>
+              </button>
+              <button
+                onClick={handleRefreshPackages}
+                disabled={isLoading}
+                className="flex items-center gap-1 px-3 py-1 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                {isLoading ? (
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="w-4 h-4" />
+                )}
+                Verificar actualizaciones
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -369,6 +564,31 @@ export function PackageManager({ isOpen, onClose }: PackageManagerProps) {
   );
 }
 
+// Componente para un nodo del árbol de dependencias
+function DependencyTreeItem({ node, depth }: { node: DependencyNode; depth: number }) {
+  return (
+    <div>
+      <div
+        className="flex items-center gap-2 py-1 text-gray-800 dark:text-gray-200"
+        style={{ paddingLeft: `${depth * 1.25}rem` }}
+      >
+        {node.status === 'ok' ? (
+          <CheckCircle className="w-3 h-3 text-green-500 flex-shrink-0" />
+        ) : (
+          <AlertTriangle className="w-3 h-3 text-orange-500 flex-shrink-0" />
+        )}
+        <span>{node.name}</span>
+        <span className="text-gray-500">{node.version ?? 'no instalado'}</span>
+        {node.range && <span className="text-xs text-gray-400">({node.range})</span>}
+        {node.deduped && <span className="text-xs text-gray-400">deduplicado</span>}
+      </div>
+      {node.dependencies.map((dependency) => (
+        <DependencyTreeItem key={dependency.name} node={dependency} depth={depth + 1} />
+      ))}
+    </div>
+  );
+}
+
 // Componente para lista de paquetes
 interface PackageListProps {
   packages: PackageType[];
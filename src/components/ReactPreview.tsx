@@ -0,0 +1,133 @@
+import {
+  Component,
+  createElement,
+  isValidElement,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type ComponentType,
+  type ErrorInfo,
+  type ReactNode,
+} from "react";
+import { createRoot } from "react-dom/client";
+import { RotateCcw } from "lucide-react";
+import { getReactPreview, subscribeReactPreview } from "../lib/code/react-preview";
+
+// Documento del iframe: los estilos de la aplicación no afectan a los componentes
+const PREVIEW_DOCUMENT = `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <style>body { margin: 0; padding: 12px; font-family: system-ui, sans-serif; }</style>
+  </head>
+  <body><div id="root"></div></body>
+</html>`;
+
+// Captura los errores de render de los componentes del usuario
+class PreviewErrorBoundary extends Component<
+  { onError: (error: unknown) => void; children: ReactNode },
+  { error: Error | null }
+> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, _errorInfo: ErrorInfo) {
+    this.props.onError(error);
+  }
+
+  render() {
+    if (this.state.error) {
+      return (
+        <pre style={{ color: "#dc2626", whiteSpace: "pre-wrap", margin: 0 }}>
+          {this.state.error.name}: {this.state.error.message}
+        </pre>
+      );
+    }
+    return this.props.children;
+  }
+}
+
+/**
+ * Elemento a montar: el exportado tal cual o el componente sin props
+ */
+const toElement = (content: unknown): ReactNode | null => {
+  if (isValidElement(content)) return content;
+  if (typeof content === "function") return createElement(content as ComponentType);
+  return null;
+};
+
+/**
+ * Panel con la vista previa del componente exportado por el archivo en
+ * ejecución. Se monta con su propia raíz de react-dom dentro de un iframe
+ */
+export default function ReactPreview() {
+  const target = useSyncExternalStore(subscribeReactPreview, getReactPreview);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [isFrameReady, setIsFrameReady] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const element = useMemo(() => (target ? toElement(target.content) : null), [target]);
+
+  // El iframe se crea de nuevo con cada vista previa y al recargar
+  useEffect(() => {
+    setIsFrameReady(false);
+  }, [target?.id, reloadCount]);
+
+  useEffect(() => {
+    const container = iframeRef.current?.contentDocument?.getElementById("root");
+    if (!target || !element || !isFrameReady || !container) return;
+
+    const root = createRoot(container);
+    root.render(
+      <PreviewErrorBoundary onError={target.reportError}>{element}</PreviewErrorBoundary>
+    );
+
+    return () => {
+      // Desmontar fuera del render en curso evita avisos de React
+      setTimeout(() => root.unmount(), 0);
+    };
+  }, [target, element, isFrameReady]);
+
+  const handleReload = useCallback(() => {
+    setReloadCount((count) => count + 1);
+  }, []);
+
+  if (!target) return null;
+
+  return (
+    <div className="h-1/2 flex flex-col border-b border-gray-700 bg-gray-800">
+      <div className="flex items-center justify-between px-3 py-1 text-xs text-gray-300 border-b border-gray-700">
+        <span>⚛️ Vista previa</span>
+        <button
+          onClick={handleReload}
+          disabled={!element}
+          className="p-1 rounded hover:bg-gray-700 disabled:opacity-50"
+          title="Volver a montar el componente"
+        >
+          <RotateCcw size={12} />
+        </button>
+      </div>
+
+      {element ? (
+        <iframe
+          key={`${target.id}-${reloadCount}`}
+          ref={iframeRef}
+          title="Vista previa de React"
+          srcDoc={PREVIEW_DOCUMENT}
+          onLoad={() => setIsFrameReady(true)}
+          className="flex-1 w-full bg-white"
+        />
+      ) : (
+        <div className="flex-1 flex items-center justify-center p-4 text-center text-sm text-gray-400">
+          Exporta un componente o un elemento por defecto (export default App) para verlo aquí
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { useContext, useMemo, useRef, useEffect, useCallback } from "react";
+import { useContext, useMemo, useRef, useEffect, useCallback, useState } from "react";
+import { createPortal } from "react-dom";
 import { CodeResultContext, ResultElement } from "../context/CodeContext";
 import { useWorkspace } from "../context/WorkspaceContext";
 import { useToolbar } from "../context/ToolbarContext";
@@ -7,6 +8,8 @@ import { useCodeEditor } from "../hooks/useCodeEditor";
 import Editor from "@monaco-editor/react";
 import { EDITOR_CONFIG } from "../constants/config";
 import { themeManager } from "../lib/themes/theme-manager";
+import ConsoleTable from "./ConsoleTable";
+import ObjectInspector from "./ObjectInspector";
 import {
   ConsoleMethod,
   Colors,
@@ -41,12 +44,75 @@ const CONSOLE_METHOD_PREFIXES: {
   [ConsoleMethod.CREATE_TASK]: { prefix: "⚙️ ", color: Colors.GREEN },
 };
 
+const MAX_SUMMARY_LENGTH = 80;
+
+// Resultado con una clave estable para su fila: el orden de llegada no cambia
+// al ordenar por línea ni al plegar grupos
+type ResultRow = ResultElement & { key: string };
+
+// Resultado que se dibuja debajo de su línea (tabla o inspector de objetos)
+interface ResultWidget {
+  row: ResultRow;
+  node: HTMLDivElement;
+}
+
+const RESULT_FONT_FAMILY = "'Fira Code', 'Cascadia Code', 'JetBrains Mono', monospace";
+
+/**
+ * Texto de una sola línea para la fila de una tabla o de un objeto
+ */
+const toSummaryText = (text: string): string => {
+  const line = text.replace(/\s*\n\s*/g, " ").trim();
+  return line.length > MAX_SUMMARY_LENGTH ? `${line.slice(0, MAX_SUMMARY_LENGTH)}…` : line;
+};
+
+/**
+ * Resume una línea cuya expresión suelta se evaluó varias veces (modo
+ * scratchpad dentro de un bucle o de una función llamada varias veces): los
+ * valores quedan dentro de una cabecera plegable con la cantidad de
+ * evaluaciones y el último valor, en el lugar de la primera evaluación
+ * @param lineNumber - Línea del código
+ * @param results - Resultados de la línea, en orden
+ * @param childrenByGroup - Contenido de cada grupo; recibe los valores resumidos
+ * @returns Resultados de la línea con los valores reemplazados por la cabecera
+ */
+const summarizeExpressionValues = (
+  lineNumber: number,
+  results: ResultRow[],
+  childrenByGroup: Map<string, ResultRow[]>
+): ResultRow[] => {
+  const values = results.filter((data) => data.expression);
+  if (values.length < 2) return results;
+
+  const id = `expression-line-${lineNumber}`;
+  childrenByGroup.set(id, values.map((data) => ({ ...data, groupId: id, groupDepth: 1 })));
+
+  const last = values[values.length - 1];
+  const lastText = toSummaryText(String(last.element.content));
+  const header: ResultRow = {
+    key: id,
+    lineNumber,
+    element: {
+      content: `×${values.length}  último: ${lastText}`,
+      color: last.element.color,
+    },
+    type: "execution",
+    method: "log",
+    group: { id, collapsed: true },
+  };
+
+  return results.flatMap((data) => (data === values[0] ? [header] : data.expression ? [] : [data]));
+};
+
 function Result() {
-  const { result } = useContext(CodeResultContext);
+  // isRunning viene del contexto: la ejecución la inicia otra instancia del hook
+  const { result, isRunning } = useContext(CodeResultContext);
   const { utils } = useWorkspace();
   const { config } = useToolbar();
   const autoExecutionConfig = useAutoExecutionConfig();
   const editorRef = useRef<any>(null); // Referencia al editor de Monaco
+  // El editor se vuelve a crear cada vez que el panel pasa de vacío a tener resultados
+  const [editorInstance, setEditorInstance] = useState<any>(null);
 
   // Obtener elementos de useCodeEditor para mostrar errores y control de ejecución
   const { 
@@ -54,7 +120,6 @@ function Result() {
     errorInfo, 
     clearError, 
     cancelExecution,
-    isRunning,
     isTransforming
   } = useCodeEditor({
     onResult: () => {}, // No necesitamos manejar resultados aquí, ya que lo hace CodeResultContext
@@ -64,8 +129,8 @@ function Result() {
   const activeFile = utils.getActiveFile();
 
   // Asegurar que elements sea un array de ResultElement
-  let elements: ResultElement[] = useMemo(
-    () => (Array.isArray(result) ? result : []),
+  let elements: ResultRow[] = useMemo(
+    () => (Array.isArray(result) ? result.map((data, index) => ({ ...data, key: `row-${index}` })) : []),
     [result]
   );
 
@@ -89,6 +154,7 @@ function Result() {
 
   function handleEditorDidMount(editor: any) {
     editorRef.current = editor;
+    setEditorInstance(editor);
   }
 
   // Función para obtener el prefijo y color según el tipo de resultado
@@ -140,43 +206,122 @@ function Result() {
     [getResultPrefix, config.hideUndefined]
   );
 
-  // Procesar resultados y agrupar por línea - MANTENER TODOS LOS LOGS
-  const resultText = useMemo(() => {
-    const resultsByLine = new Map<number, string[]>();
-    const errorsWithoutLine: string[] = [];
+  // Grupos abiertos/cerrados por el usuario (sobrescriben groupCollapsed)
+  const [groupToggles, setGroupToggles] = useState<Record<string, boolean>>({});
+
+  // Los ids de grupo se repiten entre ejecuciones: cada ejecución limpia los
+  // resultados al empezar y con ellos los grupos vuelven a su estado inicial
+  useEffect(() => {
+    if (!Array.isArray(result) || result.length === 0) setGroupToggles({});
+  }, [result]);
+
+  const isGroupCollapsed = useCallback(
+    (data: ResultElement) =>
+      data.group ? groupToggles[data.group.id] ?? data.group.collapsed : false,
+    [groupToggles]
+  );
+
+  const toggleGroup = useCallback(
+    (data: ResultElement) => {
+      if (!data.group) return;
+      const { id } = data.group;
+      setGroupToggles((prev) => ({ ...prev, [id]: !isGroupCollapsed(data) }));
+    },
+    [isGroupCollapsed]
+  );
+
+  // Procesar resultados y agrupar por línea - MANTENER TODOS LOS LOGS.
+  // Solo se ordena el nivel superior: el contenido de un console.group se
+  // mantiene debajo de su cabecera en el orden en que se produjo. Los valores
+  // repetidos de una expresión suelta se resumen por línea
+  const orderedElements = useMemo(() => {
+    const resultsByLine = new Map<number, ResultRow[]>();
+    const errorsWithoutLine: ResultRow[] = [];
+    const childrenByGroup = new Map<string, ResultRow[]>();
 
     elements.forEach((data) => {
       const { lineNumber } = data;
-      const formattedResult = formatResult(data);
+
+      if (data.groupId) {
+        if (!childrenByGroup.has(data.groupId)) {
+          childrenByGroup.set(data.groupId, []);
+        }
+        childrenByGroup.get(data.groupId)!.push(data);
+        return;
+      }
 
       if (lineNumber && lineNumber > 0) {
         if (!resultsByLine.has(lineNumber)) {
           resultsByLine.set(lineNumber, []);
         }
-        resultsByLine.get(lineNumber)!.push(formattedResult);
+        resultsByLine.get(lineNumber)!.push(data);
       } else {
-        errorsWithoutLine.push(formattedResult);
+        errorsWithoutLine.push(data);
       }
     });
 
-    const lines: string[] = [];
-
-    // Errores sin línea primero
-    errorsWithoutLine.forEach((error) => lines.push(error));
-
-    // Resultados por línea, ordenados
+    // Errores sin línea primero, luego resultados por línea ordenados
     const sortedLineNumbers = Array.from(resultsByLine.keys()).sort(
       (a, b) => a - b
     );
-    sortedLineNumbers.forEach((lineNumber) => {
-      const results = resultsByLine.get(lineNumber);
-      if (results) {
-        results.forEach((res) => lines.push(res));
+    const withChildren = (data: ResultRow): ResultRow[] => [
+      data,
+      ...(data.group ? (childrenByGroup.get(data.group.id) || []).flatMap(withChildren) : []),
+    ];
+
+    return [
+      ...errorsWithoutLine,
+      ...sortedLineNumbers.flatMap((lineNumber) =>
+        summarizeExpressionValues(lineNumber, resultsByLine.get(lineNumber) || [], childrenByGroup)
+      ),
+    ].flatMap(withChildren);
+  }, [elements]);
+
+  // Filas visibles: se ocultan las que están dentro de un grupo cerrado
+  const visibleElements = useMemo(() => {
+    const hiddenGroups = new Set<string>();
+    return orderedElements.filter((data) => {
+      const hidden = !!data.groupId && hiddenGroups.has(data.groupId);
+      if (data.group && (hidden || isGroupCollapsed(data))) {
+        hiddenGroups.add(data.group.id);
+      }
+      return !hidden;
+    });
+  }, [orderedElements, isGroupCollapsed]);
+
+  // Texto plano de los resultados (para copiar al portapapeles)
+  const resultText = useMemo(
+    () =>
+      orderedElements
+        .map((data) => "  ".repeat(data.groupDepth || 0) + formatResult(data))
+        .join("\n"),
+    [orderedElements, formatResult]
+  );
+
+  // Texto del editor: las filas visibles con la indentación de su grupo. Las
+  // tablas y los objetos ocupan una línea de resumen y se dibujan debajo
+  const resultView = useMemo(() => {
+    const lines: string[] = [];
+    const groupLines = new Map<number, ResultRow>();
+    const widgets: { row: ResultRow; afterLine: number }[] = [];
+
+    visibleElements.forEach((data) => {
+      const indent = "  ".repeat(data.groupDepth || 0);
+      if (data.group) {
+        groupLines.set(lines.length + 1, data);
+        lines.push(`${indent}${isGroupCollapsed(data) ? "▶" : "▼"} ${String(data.element.content)}`);
+      } else if (data.table || data.inspect) {
+        lines.push(indent + toSummaryText(formatResult(data)));
+        widgets.push({ row: data, afterLine: lines.length });
+      } else {
+        formatResult(data)
+          .split("\n")
+          .forEach((line) => lines.push(indent + line));
       }
     });
 
-    return lines.join("\n");
-  }, [elements, formatResult]); // Dependencias para recalcular
+    return { text: lines.join("\n"), groupLines, widgets };
+  }, [visibleElements, isGroupCollapsed, formatResult]);
 
   // Scroll automático al final del editor cuando cambian los resultados
   useEffect(() => {
@@ -187,7 +332,59 @@ function Result() {
         editorRef.current.revealLineInCenterIfOutsideViewport(lineCount);
       }
     }
-  }, [resultText]);
+  }, [resultView]);
+
+  // Clic en la línea de un grupo: lo abre o lo cierra
+  useEffect(() => {
+    if (!editorInstance || !editorInstance.getModel()) return;
+    const listener = editorInstance.onMouseDown((event: any) => {
+      const lineNumber = event.target.position?.lineNumber;
+      const data = lineNumber ? resultView.groupLines.get(lineNumber) : undefined;
+      if (data) toggleGroup(data);
+    });
+    return () => listener.dispose();
+  }, [editorInstance, resultView, toggleGroup]);
+
+  // Zonas del editor debajo de cada tabla u objeto: su altura sigue a la del
+  // contenido, que cambia al expandir el inspector
+  const [widgets, setWidgets] = useState<ResultWidget[]>([]);
+
+  useEffect(() => {
+    if (!editorInstance || !editorInstance.getModel()) return;
+
+    const zoneIds: string[] = [];
+    const observers: ResizeObserver[] = [];
+    const created: ResultWidget[] = [];
+
+    editorInstance.changeViewZones((accessor: any) => {
+      resultView.widgets.forEach(({ row, afterLine }) => {
+        const domNode = document.createElement("div");
+        const node = document.createElement("div");
+        domNode.appendChild(node);
+
+        const zone = { afterLineNumber: afterLine, heightInPx: 0, domNode };
+        const zoneId = accessor.addZone(zone);
+        zoneIds.push(zoneId);
+
+        const observer = new ResizeObserver(() => {
+          zone.heightInPx = node.offsetHeight;
+          editorInstance.changeViewZones((zoneAccessor: any) => zoneAccessor.layoutZone(zoneId));
+        });
+        observer.observe(node);
+        observers.push(observer);
+        created.push({ row, node });
+      });
+    });
+    setWidgets(created);
+
+    return () => {
+      observers.forEach((observer) => observer.disconnect());
+      if (!editorInstance.getModel()) return;
+      editorInstance.changeViewZones((accessor: any) =>
+        zoneIds.forEach((zoneId) => accessor.removeZone(zoneId))
+      );
+    };
+  }, [editorInstance, resultView]);
 
   // Función para formatear un error específico
   const formatErrorMessage = (errorMessage: string, info?: any): string => {
@@ -302,8 +499,7 @@ function Result() {
             horizontal: "auto",
           },
           fontSize: EDITOR_CONFIG.FONT_SIZE - 2,
-          fontFamily:
-            "'Fira Code', 'Cascadia Code', 'JetBrains Mono', monospace",
+          fontFamily: RESULT_FONT_FAMILY,
           wordWrap: "on",
           readOnly: true,
           lineNumbers: "on" as const, // Muestra los números de línea
@@ -326,11 +522,46 @@ function Result() {
           occurrencesHighlight: "off",
         }}
         defaultLanguage="javascript" // Ajusta si se necesita otro lenguaje por defecto
-        value={resultText}
+        value={resultView.text}
         beforeMount={handleEditorWillMount}
         onMount={handleEditorDidMount} // Obtener la referencia al editor
       />
 
+      {/* Tablas y objetos, dentro de las zonas del editor */}
+      {widgets.map(({ row, node }) =>
+        createPortal(
+          <div
+            className="text-gray-200 pr-4"
+            style={{
+              paddingLeft: `${((row.groupDepth || 0) + 1) * 2}ch`,
+              fontSize: EDITOR_CONFIG.FONT_SIZE - 2,
+              fontFamily: RESULT_FONT_FAMILY,
+            }}
+          >
+            {row.table ? (
+              <ConsoleTable table={row.table} />
+            ) : (
+              row.inspect?.map((inspectNode, argIndex) => (
+                <span key={argIndex}>
+                  {argIndex > 0 && " "}
+                  <ObjectInspector node={inspectNode} treeId={`result-${row.key}-${argIndex}`} />
+                </span>
+              ))
+            )}
+          </div>,
+          node,
+          row.key
+        )
+      )}
+
+      {/* Indicador de ejecución en curso: la salida sigue llegando */}
+      {isRunning && (
+        <div className="absolute top-2 right-4 z-20 bg-gray-800/90 border border-blue-700 rounded-md px-2 py-1 text-xs text-blue-300 flex items-center gap-2">
+          <div className="animate-spin w-3 h-3 border border-blue-400 border-t-transparent rounded-full"></div>
+          En ejecución…
+        </div>
+      )}
+
       {/* Panel de control de errores */}
       {error && (
         <div className="absolute top-2 left-1/2 transform -translate-x-1/2 z-20 bg-red-900/90 text-white px-3 py-2 rounded-lg shadow-lg max-w-md">
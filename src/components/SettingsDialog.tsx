@@ -14,6 +14,9 @@ function SettingsDialog({ onClose }: SettingsDialogProps) {
     fontSize: state.settings.fontSize,
     showMinimap: state.settings.showMinimap,
     wordWrap: state.settings.wordWrap,
+    showInlineValues: !!state.settings.showInlineValues,
+    scratchpad: !!state.settings.scratchpad,
+    showDeclarationValues: !!state.settings.showDeclarationValues,
   });
 
   const handleSaveSettings = () => {
@@ -157,6 +160,64 @@ function SettingsDialog({ onClose }: SettingsDialogProps) {
                   />
                 </div>
               </label>
+
+              <label className="flex items-center justify-between cursor-pointer p-2 hover:bg-gray-700/30 rounded-lg">
+                <span className="text-sm text-gray-300">Valores en línea</span>
+                <div 
+                  className={`
+                    w-10 h-5 rounded-full relative transition-colors
+                    ${settings.showInlineValues ? 'bg-blue-500' : 'bg-gray-600'}
+                  `}
+                  onClick={() => setSettings({ ...settings, showInlineValues: !settings.showInlineValues })}
+                >
+                  <span 
+                    className={`
+                      absolute w-4 h-4 bg-white rounded-full top-0.5 transition-all
+                      ${settings.showInlineValues ? 'left-[1.35rem]' : 'left-0.5'}
+                    `}
+                  />
+                </div>
+              </label>
+
+              <label className="flex items-center justify-between cursor-pointer p-2 hover:bg-gray-700/30 rounded-lg">
+                <span className="text-sm text-gray-300" title="Muestra el valor de cada expresión suelta, también dentro de bloques, bucles y funciones">
+                  Modo scratchpad
+                </span>
+                <div 
+                  className={`
+                    w-10 h-5 rounded-full relative transition-colors
+                    ${settings.scratchpad ? 'bg-blue-500' : 'bg-gray-600'}
+                  `}
+                  onClick={() => setSettings({ ...settings, scratchpad: !settings.scratchpad })}
+                >
+                  <span 
+                    className={`
+                      absolute w-4 h-4 bg-white rounded-full top-0.5 transition-all
+                      ${settings.scratchpad ? 'left-[1.35rem]' : 'left-0.5'}
+                    `}
+                  />
+                </div>
+              </label>
+
+              <label className="flex items-center justify-between cursor-pointer p-2 hover:bg-gray-700/30 rounded-lg">
+                <span className="text-sm text-gray-300" title="Muestra el valor de las variables declaradas o asignadas en el nivel superior, sin console.log">
+                  Valores de variables
+                </span>
+                <div 
+                  className={`
+                    w-10 h-5 rounded-full relative transition-colors
+                    ${settings.showDeclarationValues ? 'bg-blue-500' : 'bg-gray-600'}
+                  `}
+                  onClick={() => setSettings({ ...settings, showDeclarationValues: !settings.showDeclarationValues })}
+                >
+                  <span 
+                    className={`
+                      absolute w-4 h-4 bg-white rounded-full top-0.5 transition-all
+                      ${settings.showDeclarationValues ? 'left-[1.35rem]' : 'left-0.5'}
+                    `}
+                  />
+                </div>
+              </label>
             </div>
           </div>
         </div>
@@ -197,6 +197,8 @@ export const EDITOR_CONFIG = {
   PROMISE_TIMEOUT: 5000, // ms para promesas
   EXECUTION_TIMEOUT: 10000, // ms para timeout de ejecución (10 segundos)
   LOOP_ITERATION_LIMIT: 100000, // máximo número de iteraciones en bucles
+  ASYNC_LOOP_TIME_LIMIT: 10000, // ms que puede seguir un bucle con await
+  RECURSION_DEPTH_LIMIT: 5000, // máximo de llamadas anidadas de una función recursiva
   PROMISE_TRUNCATE_LENGTH: 500,
   
   // Configuraciones de debounce inteligente optimizadas
@@ -269,6 +271,7 @@ export const EXECUTION_ENGINE_CONFIG = {
   MAX_EXECUTION_TIME: 15000, // ms - 15 segundos máximo
   MAX_MEMORY_MB: 100, // MB - 100MB máximo
   MAX_CONCURRENT_EXECUTIONS: 5, // máximo 5 ejecuciones simultáneas
+  NODE_PROCESS_TIME_LIMIT: 60000, // ms - vida máxima de un script en el proceso Node real
   
   // Cache
   CACHE_SIZE: 200, // entradas máximas en caché
@@ -283,6 +286,8 @@ export const EXECUTION_ENGINE_CONFIG = {
   
   // Límites de ejecución (usa valores de EDITOR_CONFIG)
   LOOP_ITERATION_LIMIT: EDITOR_CONFIG.LOOP_ITERATION_LIMIT,
+  ASYNC_LOOP_TIME_LIMIT: EDITOR_CONFIG.ASYNC_LOOP_TIME_LIMIT,
+  RECURSION_DEPTH_LIMIT: EDITOR_CONFIG.RECURSION_DEPTH_LIMIT,
   ASYNC_WAIT_TIME: EDITOR_CONFIG.ASYNC_WAIT_TIME,
   PROMISE_TIMEOUT: EDITOR_CONFIG.PROMISE_TIMEOUT,
   EXECUTION_TIMEOUT: EDITOR_CONFIG.EXECUTION_TIMEOUT,
@@ -355,6 +360,10 @@ export const SYSTEM_MESSAGES = {
   EDITOR_EMPTY: "Editor vacío, limpiando resultados",
   SESSION_SAVED_FORCED: "Sesión guardada forzadamente",
   CODE_CLEARED: "Código limpiado", // Agregado mensaje faltante
+  RUN_SUPERSEDED: "Ejecución cancelada: se inició una nueva",
+  ASYNC_WAIT_LIMIT: "Se alcanzó el tiempo máximo de espera asíncrona; se detuvieron las tareas pendientes",
+  NODE_PROCESS_UNAVAILABLE: "El proceso Node solo está disponible en la aplicación de escritorio",
+  NODE_PROCESS_TIME_LIMIT: "El proceso Node superó el tiempo máximo de ejecución y se terminó",
 } as const;
 
 // Configuración de detección de lenguaje consolidada
@@ -1,5 +1,6 @@
 import { createContext } from 'react';
 import { Colors } from '../lib/elementParser';
+import type { ConsoleTableData, ConsoleGroupInfo, InspectorNode } from '../lib/code/types';
 
 // Tipos específicos de errores
 export interface ErrorInfo {
@@ -9,6 +10,7 @@ export interface ErrorInfo {
   column?: number;
   stack?: string;
   phase: 'transformation' | 'execution' | 'validation';
+  async?: boolean; // Lanzado en un callback o promesa fuera del flujo principal
 }
 
 // Tipos para los resultados de ejecución
@@ -21,6 +23,13 @@ export interface ResultElement {
   type: "execution" | "error" | "warning" | "info";
   method?: string;
   errorInfo?: ErrorInfo; // Información adicional para errores
+  table?: ConsoleTableData; // Datos de console.table para dibujar la tabla
+  groupId?: string; // Grupo de console.group al que pertenece
+  groupDepth?: number;
+  group?: ConsoleGroupInfo; // Solo en la cabecera de un grupo
+  inspect?: InspectorNode[]; // Argumentos expandibles en el inspector de objetos
+  expression?: boolean; // Valor de una expresión suelta (modo scratchpad)
+  label?: string; // Variable declarada o asignada a la que pertenece el valor
 }
 
 // Tipo para el contexto de código
@@ -33,6 +42,11 @@ export interface CodeContextType {
 export interface CodeResultContextType {
   result: ResultElement[] | string;
   setResult: (result: ResultElement[] | string) => void;
+  // Agrega un resultado al final mientras la ejecución sigue en curso
+  appendResult: (result: ResultElement) => void;
+  // true mientras el código sigue produciendo salida (timers, fetch, etc.)
+  isRunning: boolean;
+  setIsRunning: (isRunning: boolean) => void;
 }
 
 // Contextos con valores por defecto
@@ -44,5 +58,8 @@ export const CodeContext = createContext<CodeContextType>({
 export const CodeResultContext = createContext<CodeResultContextType>({
   result: "",
   setResult: () => {},
+  appendResult: () => {},
+  isRunning: false,
+  setIsRunning: () => {},
 });
 
@@ -46,6 +46,8 @@ interface ExecutionAdvancedConfig {
   enableSecurityChecks: boolean;
   memoryLimit: number;
   loopIterationLimit: number;
+  asyncLoopTimeLimit: number;
+  recursionDepthLimit: number;
   asyncWaitTime: number;
   promiseTimeout: number;
 }
@@ -125,6 +127,8 @@ const initialConfig: ConfigState = {
     enableSecurityChecks: EXECUTION_ENGINE_CONFIG.ENABLE_SECURITY_CHECKS,
     memoryLimit: EXECUTION_ENGINE_CONFIG.MAX_MEMORY_MB,
     loopIterationLimit: EXECUTION_ENGINE_CONFIG.LOOP_ITERATION_LIMIT,
+    asyncLoopTimeLimit: EXECUTION_ENGINE_CONFIG.ASYNC_LOOP_TIME_LIMIT,
+    recursionDepthLimit: EXECUTION_ENGINE_CONFIG.RECURSION_DEPTH_LIMIT,
     asyncWaitTime: EXECUTION_ENGINE_CONFIG.ASYNC_WAIT_TIME,
     promiseTimeout: EXECUTION_ENGINE_CONFIG.PROMISE_TIMEOUT,
   },
@@ -3,8 +3,41 @@ import {
   useContext,
   useState,
   useEffect,
+  useMemo,
   ReactNode,
 } from "react";
+import {
+  DEFAULT_REGISTRY_URL,
+  fetchPackageMetadata,
+  installPackageFromRegistry,
+  installPackageFromTarball,
+  searchRegistry,
+} from "../lib/packages/package-installer";
+import { clearFolderRegistryCache } from "../lib/packages/folder-registry";
+import {
+  deleteCachedPackage,
+  getCachedPackage,
+  listCachedPackages,
+  type CachedPackage,
+} from "../lib/packages/package-cache";
+import {
+  buildDependencyTree,
+  createPackageLock,
+  findDependencyConflicts,
+  type DependencyConflict,
+  type DependencyNode,
+  type DependencyRoot,
+} from "../lib/packages/dependency-tree";
+import {
+  compareVersions,
+  parsePackageSpec,
+  satisfies,
+} from "../lib/packages/semver";
+import {
+  acquirePackageTypes,
+  getTypesPackageName,
+} from "../lib/packages/type-acquisition";
+import { useWorkspace } from "./WorkspaceContext";
 
 export interface Package {
   name: string;
@@ -16,6 +49,10 @@ export interface Package {
   lastUpdated?: string;
   latestVersion?: string;
   hasUpdate?: boolean;
+  /** Dependencias declaradas (nombre → rango) */
+  dependencies?: Record<string, string>;
+  /** Rango pedido al instalar (ej. "^4"); sin valor se instaló la última */
+  requestedRange?: string;
 }
 
 interface PackageManagerContextType {
@@ -23,14 +60,25 @@ interface PackageManagerContextType {
   packages: Package[];
   installedPackages: Record<string, Package>;
   isLoading: boolean;
+  /** URL del registro npm (o ruta de una carpeta con tarballs) */
+  registryUrl: string;
+  /** Dependencias de los paquetes instalados */
+  dependencyTree: DependencyNode[];
+  /** Dependencias que faltan o no cumplen el rango que se pide */
+  dependencyConflicts: DependencyConflict[];
+  /** Paquetes del lockfile del workspace con otra versión en la caché ("nombre@versión") */
+  lockfileMismatches: string[];
 
   // Acciones
   installPackage: (packageName: string, version?: string) => Promise<void>;
+  installPackageFromFile: (data: ArrayBuffer | Uint8Array) => Promise<void>;
   uninstallPackage: (packageName: string) => void;
   searchPackages: (query: string) => Promise<Package[]>;
   refreshPackages: () => Promise<void>;
   checkForUpdates: () => Promise<void>;
   updatePackage: (packageName: string) => Promise<void>;
+  setRegistryUrl: (url: string) => void;
+  restoreFromLockfile: () => Promise<void>;
 
   // Estadísticas
   totalInstalled: number;
@@ -99,16 +147,15 @@ interface PackageManagerProviderProps {
   children: ReactNode;
 }
 
+const REGISTRY_STORAGE_KEY = "jsrunner-registry-url";
+
 // Función para obtener información de un paquete desde el registro npm
-async function fetchPackageInfo(packageName: string): Promise<any> {
+async function fetchPackageInfo(
+  packageName: string,
+  registryUrl: string
+): Promise<any> {
   try {
-    const response = await fetch(`https://registry.npmjs.org/${packageName}`);
-    if (!response.ok) {
-      throw new Error(
-        `Error al obtener información del paquete: ${response.statusText}`
-      );
-    }
-    return await response.json();
+    return await fetchPackageMetadata(packageName, registryUrl);
   } catch (error) {
     console.error(
       `Error al consultar el registro npm para ${packageName}:`,
@@ -119,18 +166,17 @@ async function fetchPackageInfo(packageName: string): Promise<any> {
 }
 
 // Función para obtener la última versión de un paquete
-async function fetchLatestVersion(packageName: string): Promise<string> {
+async function fetchLatestVersion(
+  packageName: string,
+  registryUrl: string
+): Promise<string> {
   try {
-    const response = await fetch(
-      `https://registry.npmjs.org/${packageName}/latest`
-    );
-    if (!response.ok) {
-      throw new Error(
-        `Error al obtener la última versión: ${response.statusText}`
-      );
+    const metadata = await fetchPackageMetadata(packageName, registryUrl);
+    const latestVersion = metadata["dist-tags"]?.latest;
+    if (!latestVersion) {
+      throw new Error("El registro no indica una versión latest");
     }
-    const data = await response.json();
-    return data.version;
+    return latestVersion;
   } catch (error) {
     console.error(
       `Error al obtener la última versión de ${packageName}:`,
@@ -140,20 +186,19 @@ async function fetchLatestVersion(packageName: string): Promise<string> {
   }
 }
 
-// Función para comparar versiones semánticas
-function compareVersions(version1: string, version2: string): number {
-  const parts1 = version1.split(".").map(Number);
-  const parts2 = version2.split(".").map(Number);
-
-  for (let i = 0; i < Math.max(parts1.length, parts2.length); i++) {
-    const part1 = i < parts1.length ? parts1[i] : 0;
-    const part2 = i < parts2.length ? parts2[i] : 0;
-
-    if (part1 > part2) return 1;
-    if (part1 < part2) return -1;
-  }
+// Paquetes instalados directamente por el usuario (raíces del árbol de dependencias)
+function getDependencyRoots(
+  installed: Record<string, Package>
+): DependencyRoot[] {
+  return Object.values(installed)
+    .filter((pkg) => !pkg.isBuiltIn)
+    .map((pkg) => ({ name: pkg.name, range: pkg.requestedRange }));
+}
 
-  return 0;
+// Paquetes guardados en la caché local, por nombre
+async function loadCachedPackages(): Promise<Record<string, CachedPackage>> {
+  const cached = await listCachedPackages();
+  return Object.fromEntries(cached.map((pkg) => [pkg.name, pkg]));
 }
 
 export function PackageManagerProvider({
@@ -165,6 +210,12 @@ export function PackageManagerProvider({
   >({});
   const [isLoading, setIsLoading] = useState(false);
   const [updatesAvailable, setUpdatesAvailable] = useState<number>(0);
+  const [registryUrl, setRegistryUrlState] = useState<string>(
+    () => localStorage.getItem(REGISTRY_STORAGE_KEY) || DEFAULT_REGISTRY_URL
+  );
+  const [dependencyTree, setDependencyTree] = useState<DependencyNode[]>([]);
+  const [lockfileMismatches, setLockfileMismatches] = useState<string[]>([]);
+  const { state: workspaceState, actions: workspaceActions } = useWorkspace();
 
   // Cargar paquetes instalados desde localStorage al inicializar
   useEffect(() => {
@@ -199,6 +250,49 @@ export function PackageManagerProvider({
     }
   }, []);
 
+  // Reconstruir el árbol de dependencias y comparar la caché con el lockfile
+  useEffect(() => {
+    let cancelled = false;
+
+    loadCachedPackages()
+      .then((cached) => {
+        if (cancelled) return;
+        setDependencyTree(
+          buildDependencyTree(cached, getDependencyRoots(installedPackages))
+        );
+        setLockfileMismatches(
+          Object.entries(workspaceState.packageLock || {})
+            .filter(([name, entry]) => cached[name]?.version !== entry.version)
+            .map(([name, entry]) => `${name}@${entry.version}`)
+        );
+      })
+      .catch((error) =>
+        console.error("Error construyendo el árbol de dependencias:", error)
+      );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [installedPackages, workspaceState.packageLock]);
+
+  const dependencyConflicts = useMemo(
+    () => findDependencyConflicts(dependencyTree),
+    [dependencyTree]
+  );
+
+  // Guardar en el workspace las versiones exactas instaladas
+  const syncPackageLock = (installed: Record<string, Package>) => {
+    loadCachedPackages()
+      .then((cached) =>
+        workspaceActions.updatePackageLock(
+          createPackageLock(cached, getDependencyRoots(installed))
+        )
+      )
+      .catch((error) =>
+        console.error("Error actualizando el lockfile:", error)
+      );
+  };
+
   // Guardar en localStorage
   const savePackagesToStorage = (
     installed: Record<string, Package>,
@@ -223,7 +317,7 @@ export function PackageManagerProvider({
           // Saltamos los paquetes built-in para este ejemplo
           if (packagesToCheck[pkgName].isBuiltIn) continue;
 
-          const latestVersion = await fetchLatestVersion(pkgName);
+          const latestVersion = await fetchLatestVersion(pkgName, registryUrl);
           const currentVersion = packagesToCheck[pkgName].version;
           const hasUpdate = compareVersions(latestVersion, currentVersion) > 0;
 
@@ -275,74 +369,111 @@ export function PackageManagerProvider({
     }
   };
 
-  // Instalar un paquete
-  const installPackage = async (
-    packageName: string,
-    version?: string
-  ): Promise<void> => {
-    setIsLoading(true);
+  // Registrar en el estado paquetes ya guardados en la caché local
+  const registerInstalledPackages = (
+    entries: Array<{
+      cachedPackage: CachedPackage;
+      packageInfo?: any;
+      requestedRange?: string;
+    }>
+  ) => {
+    const newInstalled = { ...installedPackages };
+    const newPackages = [...packages];
 
-    try {
-      // Obtener información del paquete desde npm
-      const packageInfo = await fetchPackageInfo(packageName);
+    for (const { cachedPackage, packageInfo, requestedRange } of entries) {
+      const packageName = cachedPackage.name;
+      const installedVersion = cachedPackage.version;
       const latestVersion =
-        version || packageInfo["dist-tags"]?.latest || "latest";
+        packageInfo?.["dist-tags"]?.latest || installedVersion;
       const packageDescription =
-        packageInfo.description || `Paquete ${packageName}`;
-
-      // Simular instalación desde CDN
-      await simulatePackageInstallation(packageName, version);
-
-      const existingPkg = packages.find((pkg) => pkg.name === packageName);
-      let packageToInstall: Package;
-
-      if (existingPkg) {
-        packageToInstall = {
-          ...existingPkg,
-          isInstalled: true,
-          version: version || existingPkg.version,
-          description: packageDescription,
-          latestVersion,
-          hasUpdate: false, // Acabamos de instalar, así que no hay actualización
-        };
-      } else {
-        // Crear nuevo paquete si no existe en la lista
-        packageToInstall = {
-          name: packageName,
-          version: latestVersion,
-          description: packageDescription,
-          isInstalled: true,
-          isBuiltIn: false,
-          size: calculatePackageSize(packageInfo),
-          lastUpdated: new Date().toISOString(),
-          latestVersion,
-          hasUpdate: false,
-        };
-      }
-
-      const newInstalled = {
-        ...installedPackages,
-        [packageName]: packageToInstall,
+        cachedPackage.description || packageInfo?.description || `Paquete ${packageName}`;
+
+      const existingIndex = newPackages.findIndex((pkg) => pkg.name === packageName);
+      const packageToInstall: Package = {
+        // Partir del paquete de la lista o crear uno nuevo si no existe
+        ...(existingIndex !== -1
+          ? newPackages[existingIndex]
+          : { name: packageName, isBuiltIn: false, lastUpdated: new Date().toISOString() }),
+        isInstalled: true,
+        version: installedVersion,
+        description: packageDescription,
+        size: formatPackageSize(cachedPackage.size),
+        latestVersion,
+        hasUpdate: false, // Acabamos de instalar, así que no hay actualización
+        dependencies: cachedPackage.dependencies,
+        requestedRange,
       };
-      const newPackages = packages.map((pkg) =>
-        pkg.name === packageName ? { ...pkg, isInstalled: true } : pkg
-      );
 
-      // Si es un paquete nuevo, agregarlo a la lista
-      if (!existingPkg) {
+      newInstalled[packageName] = packageToInstall;
+      if (existingIndex !== -1) {
+        newPackages[existingIndex] = { ...newPackages[existingIndex], isInstalled: true };
+      } else {
         newPackages.push(packageToInstall);
       }
 
-      setInstalledPackages(newInstalled);
-      setPackages(newPackages);
-      savePackagesToStorage(newInstalled, newPackages);
+      console.log(
+        `📦 Paquete ${packageName}@${installedVersion} instalado exitosamente`
+      );
+    }
 
-      // Notificar al sistema de autocompletado
-      notifyPackageChange();
+    setInstalledPackages(newInstalled);
+    setPackages(newPackages);
+    savePackagesToStorage(newInstalled, newPackages);
+    syncPackageLock(newInstalled);
 
-      console.log(
-        `📦 Paquete ${packageName}@${latestVersion} instalado exitosamente`
+    // Notificar al sistema de autocompletado
+    notifyPackageChange();
+    acquireTypes(entries.map(({ cachedPackage }) => cachedPackage.name));
+  };
+
+  // Descargar en segundo plano los tipos de los paquetes (.d.ts propios o @types/*)
+  const acquireTypes = (packageNames: string[]) => {
+    Promise.all(
+      packageNames.map((packageName) =>
+        acquirePackageTypes(packageName, registryUrl)
+      )
+    )
+      .then(() => notifyPackageChange())
+      .catch((error) =>
+        console.warn("Error obteniendo los tipos de los paquetes:", error)
       );
+  };
+
+  // Instalar un paquete ("lodash", "lodash@^4" o nombre + versión/rango)
+  const installPackage = async (
+    packageSpec: string,
+    version?: string
+  ): Promise<void> => {
+    const { name: packageName, range: specRange } = parsePackageSpec(packageSpec);
+    const requestedRange = version ?? specRange;
+    setIsLoading(true);
+
+    try {
+      // Descargar el paquete y sus dependencias a la caché local. Sin red se
+      // reutiliza la copia en caché si cumple la versión pedida
+      let packageInfo: any = null;
+      let cachedPackage: CachedPackage;
+      try {
+        packageInfo = await fetchPackageInfo(packageName, registryUrl);
+        cachedPackage = await installPackageFromRegistry(packageName, requestedRange, {
+          metadata: packageInfo,
+          registryUrl,
+        });
+      } catch (error) {
+        const offlinePackage = await getCachedPackage(packageName);
+        if (
+          !offlinePackage ||
+          (requestedRange &&
+            offlinePackage.version !== requestedRange &&
+            !satisfies(offlinePackage.version, requestedRange))
+        ) {
+          throw error;
+        }
+        console.log(`📦 Sin conexión: usando ${packageName}@${offlinePackage.version} de la caché local`);
+        cachedPackage = offlinePackage;
+      }
+
+      registerInstalledPackages([{ cachedPackage, packageInfo, requestedRange }]);
     } catch (error) {
       console.error(`Error instalando paquete ${packageName}:`, error);
       throw error;
@@ -351,6 +482,25 @@ export function PackageManagerProvider({
     }
   };
 
+  // Instalar un paquete desde un .tgz local (sin pasar por el registro)
+  const installPackageFromFile = async (
+    data: ArrayBuffer | Uint8Array
+  ): Promise<void> => {
+    setIsLoading(true);
+
+    try {
+      const cachedPackage = await installPackageFromTarball(data, registryUrl);
+      registerInstalledPackages([
+        { cachedPackage, requestedRange: cachedPackage.version },
+      ]);
+    } catch (error) {
+      console.error("Error instalando paquete desde archivo:", error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Actualizar un paquete a la última versión
   const updatePackage = async (packageName: string): Promise<void> => {
     if (!installedPackages[packageName]) {
@@ -367,18 +517,25 @@ export function PackageManagerProvider({
     try {
       setIsLoading(true);
 
-      const latestVersion = await fetchLatestVersion(packageName);
+      const latestVersion = await fetchLatestVersion(packageName, registryUrl);
 
-      // Simular actualización
-      await simulatePackageInstallation(packageName, latestVersion);
+      // Descargar la nueva versión a la caché local
+      const cachedPackage = await installPackageFromRegistry(
+        packageName,
+        latestVersion,
+        { registryUrl }
+      );
 
       // Actualizar el paquete en el estado
       const updatedPackage = {
         ...installedPackages[packageName],
         version: latestVersion,
+        size: formatPackageSize(cachedPackage.size),
         latestVersion,
         hasUpdate: false,
         lastUpdated: new Date().toISOString(),
+        dependencies: cachedPackage.dependencies,
+        requestedRange: undefined, // Actualizar siempre lleva a la última versión
       };
 
       const newInstalled = {
@@ -398,7 +555,9 @@ export function PackageManagerProvider({
       setUpdatesAvailable((prev) => Math.max(0, prev - 1));
 
       savePackagesToStorage(newInstalled, newPackages);
+      syncPackageLock(newInstalled);
       notifyPackageChange();
+      acquireTypes([packageName]);
 
       console.log(
         `📦 Paquete ${packageName} actualizado a la versión ${latestVersion}`
@@ -436,6 +595,19 @@ export function PackageManagerProvider({
     setPackages(newPackages);
     savePackagesToStorage(newInstalled, newPackages);
 
+    // Quitar su código (y sus @types) de la caché local y del lockfile
+    Promise.all([
+      deleteCachedPackage(packageName),
+      deleteCachedPackage(getTypesPackageName(packageName)),
+    ])
+      .then(() => {
+        syncPackageLock(newInstalled);
+        notifyPackageChange();
+      })
+      .catch((error) =>
+        console.error(`Error eliminando ${packageName} de la caché:`, error)
+      );
+
     // Notificar al sistema de autocompletado
     notifyPackageChange();
 
@@ -455,21 +627,11 @@ export function PackageManagerProvider({
         }));
       }
 
-      // Buscar en el registro npm
-      const response = await fetch(
-        `https://registry.npmjs.org/-/v1/search?text=${encodeURIComponent(
-          query
-        )}&size=20`
-      );
-      if (!response.ok) {
-        throw new Error(`Error en la búsqueda: ${response.statusText}`);
-      }
-
-      const data = await response.json();
+      // Buscar en el registro configurado
+      const results = await searchRegistry(query, registryUrl);
 
       // Convertir los resultados al formato de Package
-      const searchResults: Package[] = data.objects.map((obj: any) => {
-        const pkgData = obj.package;
+      const searchResults: Package[] = results.map((pkgData) => {
         const existingPkg = packages.find((p) => p.name === pkgData.name);
         const installedPkg = installedPackages[pkgData.name];
 
@@ -507,6 +669,56 @@ export function PackageManagerProvider({
     }
   };
 
+  // Cambiar el registro del que se instalan los paquetes
+  const setRegistryUrl = (url: string) => {
+    const normalizedUrl = url.trim() || DEFAULT_REGISTRY_URL;
+    clearFolderRegistryCache();
+    setRegistryUrlState(normalizedUrl);
+    localStorage.setItem(REGISTRY_STORAGE_KEY, normalizedUrl);
+    console.log(`📦 Registro de paquetes: ${normalizedUrl}`);
+  };
+
+  // Instalar las versiones exactas del lockfile del workspace
+  const restoreFromLockfile = async (): Promise<void> => {
+    const lock = workspaceState.packageLock || {};
+    setIsLoading(true);
+
+    try {
+      // Los paquetes del lockfile se instalan con su versión, no con la última
+      const lockedNames = new Set(Object.keys(lock));
+      const restored: Parameters<typeof registerInstalledPackages>[0] = [];
+
+      for (const [name, entry] of Object.entries(lock)) {
+        const cached = await getCachedPackage(name);
+        const cachedPackage =
+          cached?.version === entry.version
+            ? cached
+            : await installPackageFromRegistry(
+                name,
+                entry.version,
+                { registryUrl },
+                new Set(lockedNames)
+              );
+
+        if (entry.requested) {
+          restored.push({
+            cachedPackage,
+            requestedRange:
+              entry.requested === "latest" ? undefined : entry.requested,
+          });
+        }
+      }
+
+      registerInstalledPackages(restored);
+      console.log(`🔒 ${Object.keys(lock).length} paquetes restaurados desde el lockfile`);
+    } catch (error) {
+      console.error("Error restaurando paquetes desde el lockfile:", error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Refrescar lista de paquetes y verificar actualizaciones
   const refreshPackages = async () => {
     console.log(
@@ -523,12 +735,19 @@ export function PackageManagerProvider({
     packages,
     installedPackages,
     isLoading,
+    registryUrl,
+    dependencyTree,
+    dependencyConflicts,
+    lockfileMismatches,
     installPackage,
+    installPackageFromFile,
     uninstallPackage,
     searchPackages,
     refreshPackages,
     checkForUpdates,
     updatePackage,
+    setRegistryUrl,
+    restoreFromLockfile,
     totalInstalled,
     totalSize,
     updatesAvailable,
@@ -552,37 +771,10 @@ export function usePackageManager() {
   return context;
 }
 
-// Función auxiliar para simular instalación de paquetes
-async function simulatePackageInstallation(
-  packageName: string,
-  version?: string
-): Promise<void> {
-  // Simular tiempo de instalación
-  await new Promise((resolve) =>
-    setTimeout(resolve, 1000 + Math.random() * 2000)
-  );
-
-  // Simular posibles errores
-  if (Math.random() < 0.05) {
-    // 5% de probabilidad de error
-    throw new Error(`Failed to install ${packageName}: Network error`);
-  }
-
-  console.log(`Installing ${packageName}@${version || "latest"}...`);
-}
-
-// Estimar el tamaño del paquete basado en la información del registro
-function calculatePackageSize(packageInfo: any): string {
-  // Esta es una estimación muy simplificada
-  const versions = Object.keys(packageInfo.versions || {}).length;
-  const dependencies = Object.keys(
-    packageInfo.versions?.[packageInfo["dist-tags"]?.latest]?.dependencies || {}
-  ).length;
-
-  // Algoritmo simple de estimación
-  const sizeKB = Math.round(100 + dependencies * 50 + versions * 5);
-
-  if (sizeKB < 1000) return `${sizeKB} KB`;
+// Formatear el tamaño real de los archivos guardados en la caché
+function formatPackageSize(bytes: number): string {
+  const sizeKB = bytes / 1024;
+  if (sizeKB < 1024) return `${sizeKB.toFixed(1)} KB`;
   return `${(sizeKB / 1024).toFixed(1)} MB`;
 }
 
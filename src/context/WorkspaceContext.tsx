@@ -6,6 +6,7 @@ import {
   useEffect,
 } from "react";
 import { setEnvironmentVariables } from "../lib/code/run";
+import type { PackageLock } from "../lib/packages/dependency-tree";
 
 // Tipos para el workspace
 interface WorkspaceFile {
@@ -16,6 +17,7 @@ interface WorkspaceFile {
   isActive: boolean;
   lastModified: number;
   isUnsaved: boolean;
+  runtime?: "browser" | "node" | "node-process"; // Entorno de ejecución del archivo (navegador por defecto)
 }
 
 interface ExecutionHistory {
@@ -49,12 +51,16 @@ interface WorkspaceState {
   templates: WorkspaceTemplate[];
   environmentVariables: EnvironmentVariables;
   closedTabs: WorkspaceFile[]; // Pestañas cerradas para poder reabrirlas
+  packageLock: PackageLock; // Versiones exactas de los paquetes usados por el workspace
   settings: {
     autoSave: boolean;
     theme: string;
     fontSize: number;
     showMinimap: boolean;
     wordWrap: boolean;
+    showInlineValues: boolean; // Valores de la ejecución al final de cada línea
+    scratchpad: boolean; // Mostrar el valor de cada expresión suelta, también dentro de bloques
+    showDeclarationValues: boolean; // Valor de las declaraciones y asignaciones del nivel superior
   };
 }
 
@@ -71,6 +77,7 @@ type WorkspaceAction =
   | { type: "RENAME_FILE"; payload: { id: string; name: string } }
   | { type: "UPDATE_FILE_CONTENT"; payload: { id: string; content: string } }
   | { type: "UPDATE_FILE_LANGUAGE"; payload: { id: string; language: WorkspaceFile["language"] } }
+  | { type: "UPDATE_FILE_RUNTIME"; payload: { id: string; runtime: NonNullable<WorkspaceFile["runtime"]> } }
   | { type: "SET_ACTIVE_FILE"; payload: { id: string } }
   | { type: "DUPLICATE_FILE"; payload: { id: string } }
   | { type: "SAVE_FILE"; payload: { id: string } }
@@ -82,6 +89,7 @@ type WorkspaceAction =
   | { type: "IMPORT_WORKSPACE"; payload: { workspace: WorkspaceState } }
   | { type: "UPDATE_SETTINGS"; payload: Partial<WorkspaceState["settings"]> }
   | { type: "UPDATE_ENVIRONMENT_VARIABLES"; payload: EnvironmentVariables }
+  | { type: "UPDATE_PACKAGE_LOCK"; payload: PackageLock }
   | { type: "REOPEN_CLOSED_TAB" }
   | { type: "LOAD_FROM_STORAGE" };
 
@@ -268,12 +276,16 @@ console.log('Hola mundo');
     REACT_APP_API_URL: "http://localhost:3000",
     REACT_APP_VERSION: "1.0.0",
   },
+  packageLock: {},
   settings: {
     autoSave: true,
     theme: "dark",
     fontSize: 14,
     showMinimap: false,
     wordWrap: true,
+    showInlineValues: false,
+    scratchpad: false,
+    showDeclarationValues: false,
   },
 };
 
@@ -410,6 +422,17 @@ function workspaceReducer(
       };
     }
 
+    case "UPDATE_FILE_RUNTIME": {
+      return {
+        ...state,
+        files: state.files.map((f) =>
+          f.id === action.payload.id
+            ? { ...f, runtime: action.payload.runtime, lastModified: Date.now() }
+            : f
+        ),
+      };
+    }
+
     case "SET_ACTIVE_FILE": {
       return {
         ...state,
@@ -511,6 +534,13 @@ function workspaceReducer(
       };
     }
 
+    case "UPDATE_PACKAGE_LOCK": {
+      return {
+        ...state,
+        packageLock: action.payload,
+      };
+    }
+
     case "LOAD_FROM_STORAGE": {
       const stored = localStorage.getItem("jsrunner-workspace");
       if (stored) {
@@ -551,6 +581,7 @@ const WorkspaceContext = createContext<{
     renameFile: (id: string, name: string) => void;
     updateFileContent: (id: string, content: string) => void;
     updateFileLanguage: (id: string, language: WorkspaceFile["language"]) => void;
+    updateFileRuntime: (id: string, runtime: NonNullable<WorkspaceFile["runtime"]>) => void;
     setActiveFile: (id: string) => void;
     duplicateFile: (id: string) => void;
     saveFile: (id: string) => void;
@@ -562,6 +593,7 @@ const WorkspaceContext = createContext<{
     importWorkspace: (data: string) => void;
     updateSettings: (settings: Partial<WorkspaceState["settings"]>) => void;
     updateEnvironmentVariables: (envVars: EnvironmentVariables) => void;
+    updatePackageLock: (lock: PackageLock) => void;
     reopenClosedTab: () => void; // Nueva acción para reabrir pestañas
   };
   utils: {
@@ -629,6 +661,10 @@ export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
       dispatch({ type: "UPDATE_FILE_LANGUAGE", payload: { id, language } });
     }, []),
 
+    updateFileRuntime: useCallback((id: string, runtime: NonNullable<WorkspaceFile["runtime"]>) => {
+      dispatch({ type: "UPDATE_FILE_RUNTIME", payload: { id, runtime } });
+    }, []),
+
     setActiveFile: useCallback((id: string) => {
       dispatch({ type: "SET_ACTIVE_FILE", payload: { id } });
     }, []),
@@ -681,6 +717,10 @@ export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
       dispatch({ type: "UPDATE_ENVIRONMENT_VARIABLES", payload: envVars });
     }, []),
 
+    updatePackageLock: useCallback((lock: PackageLock) => {
+      dispatch({ type: "UPDATE_PACKAGE_LOCK", payload: lock });
+    }, []),
+
     reopenClosedTab: useCallback(() => {
       dispatch({ type: "REOPEN_CLOSED_TAB" });
     }, []),
@@ -1,14 +1,20 @@
 import { useState, useRef, useEffect } from 'react';
-import { run, transformCode } from '../lib/code/run';
-import { globalExecutionEngine, syncEngineWithDynamicConfig } from '../lib/code/execution-engine';
+import { run, stopReactPreview } from '../lib/code/run';
+import { globalExecutionEngine, syncEngineWithDynamicConfig, type ExecutionResult } from '../lib/code/execution-engine';
 import { useExecutionAdvancedConfig, useGlobalContextConfig } from '../context/ConfigContext';
 import { CodeLogger } from '../lib/code/errorHandler';
 import type { ErrorInfo } from '../context/CodeContext';
+import type { WorkspaceSource } from '../lib/code/workspace-modules';
+import type { NodeEnvironmentOptions } from '../lib/node';
+import type { TransformOptions } from '../lib/code/code-transformer';
+
+// Estado final de una ejecución iniciada con runCode
+export type RunOutcome = ExecutionResult['status'];
 
 interface UseCodeEditorResult {
   isRunning: boolean;
   isTransforming: boolean;
-  runCode: (code: string) => Promise<void>;
+  runCode: (code: string) => Promise<RunOutcome | undefined>;
   monacoRef: React.MutableRefObject<any>;
   error: string | null;
   errorInfo: ErrorInfo | null;
@@ -19,10 +25,27 @@ interface UseCodeEditorResult {
 
 interface UseCodeEditorParams {
   onResult: (result: any) => void;
+  // Si se indica, cada resultado se entrega en cuanto se produce en lugar de al final
+  onResultAppend?: (result: any) => void;
+  onRunningChange?: (isRunning: boolean) => void;
   onCodeChange?: (code: string) => void;
+  // Archivos del workspace para resolver imports relativos entre pestañas
+  workspace?: WorkspaceSource;
+  // Modo Node del archivo activo (fs en memoria con los archivos del workspace)
+  node?: NodeEnvironmentOptions;
+  // Valores que se muestran sin console.log (modo scratchpad, declaraciones)
+  transform?: TransformOptions;
 }
 
-export const useCodeEditor = ({ onResult, onCodeChange: _onCodeChange }: UseCodeEditorParams): UseCodeEditorResult => {
+export const useCodeEditor = ({
+  onResult,
+  onResultAppend,
+  onRunningChange,
+  onCodeChange: _onCodeChange,
+  workspace,
+  node,
+  transform,
+}: UseCodeEditorParams): UseCodeEditorResult => {
   const [isRunning, setIsRunning] = useState(false);
   const [isTransforming, setIsTransforming] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -30,6 +53,15 @@ export const useCodeEditor = ({ onResult, onCodeChange: _onCodeChange }: UseCode
   const [executionMetrics, setExecutionMetrics] = useState<any>(null);
   const monacoRef = useRef<any>(null);
   const currentExecutionIdRef = useRef<string | null>(null);
+  // Última ejecución iniciada: la vista previa de React sigue enviando salidas al terminar
+  const latestExecutionIdRef = useRef<string | null>(null);
+  // Siempre el workspace más reciente, aunque runCode venga de un closure anterior
+  const workspaceRef = useRef(workspace);
+  workspaceRef.current = workspace;
+  const nodeRef = useRef(node);
+  nodeRef.current = node;
+  const transformRef = useRef(transform);
+  transformRef.current = transform;
 
   // Configuraciones dinámicas
   const executionConfig = useExecutionAdvancedConfig();
@@ -53,13 +85,17 @@ export const useCodeEditor = ({ onResult, onCodeChange: _onCodeChange }: UseCode
       globalExecutionEngine.cancel(id);
     } else if (currentExecutionIdRef.current) {
       globalExecutionEngine.cancel(currentExecutionIdRef.current);
+    } else {
+      // Otra instancia del hook pudo iniciar la ejecución: detener todas
+      globalExecutionEngine.cancelAll();
     }
     setIsRunning(false);
     setIsTransforming(false);
+    onRunningChange?.(false);
   };
 
-  const runCode = async (code: string) => {
-    if (isRunning) {
+  const runCode = async (code: string): Promise<RunOutcome | undefined> => {
+    if (currentExecutionIdRef.current) {
       // Si ya hay una ejecución en curso, cancelarla
       cancelExecution();
     }
@@ -70,6 +106,8 @@ export const useCodeEditor = ({ onResult, onCodeChange: _onCodeChange }: UseCode
       setIsTransforming(false);
       clearError();
       onResult(""); // Limpiar resultados
+      stopReactPreview();
+      latestExecutionIdRef.current = null;
       setExecutionMetrics(null);
       CodeLogger.log('info', 'Hook: Código vacío, limpiando resultados silenciosamente');
       return;
@@ -80,20 +118,43 @@ export const useCodeEditor = ({ onResult, onCodeChange: _onCodeChange }: UseCode
     setIsTransforming(true);
     clearError();
     onResult(""); 
+    onRunningChange?.(true);
 
     CodeLogger.log('info', 'Hook: Iniciando ejecución ', { 
       codeLength: code.length,
       engineMetrics: globalExecutionEngine.getMetrics()
     });
 
+    // El id se conoce antes de ejecutar para poder cancelar la ejecución en curso
+    const executionId = crypto.randomUUID();
+    currentExecutionIdRef.current = executionId;
+    latestExecutionIdRef.current = executionId;
+
     try {
-  
       const executionResult = await globalExecutionEngine.execute(code, {
+        id: executionId,
         priority: 1, // Alta prioridad para ejecuciones del editor
-        bypassCache: false // Usar cache para optimizar rendimiento
+        // Cada ejecución vuelve a correr el código: Math.random, Date.now, fetch
+        // o cualquier efecto secundario no pueden repetirse desde la cache
+        bypassCache: true,
+        workspace: workspaceRef.current,
+        node: nodeRef.current,
+        transform: transformRef.current,
+        onResult: onResultAppend
+          ? (result) => {
+              // Ignorar salidas de una ejecución que ya fue reemplazada
+              if (latestExecutionIdRef.current === executionId) {
+                onResultAppend(result);
+              }
+            }
+          : undefined,
       });
 
-      currentExecutionIdRef.current = executionResult.id;
+      // Una ejecución más reciente tomó el control: no tocar sus resultados
+      if (currentExecutionIdRef.current !== executionId) {
+        return executionResult.status;
+      }
+
       setExecutionMetrics(executionResult.metrics);
       setIsTransforming(false);
 
@@ -133,7 +194,7 @@ export const useCodeEditor = ({ onResult, onCodeChange: _onCodeChange }: UseCode
       } else if (executionResult.status === 'timeout') {
         const timeoutMessage = 'La ejecución fue cancelada por timeout';
         setError(timeoutMessage);
-        onResult([{ element: { content: timeoutMessage }, type: "error" }]);
+        reportFinalMessage({ element: { content: timeoutMessage }, type: "error" });
         
         CodeLogger.log('warn', 'Hook: Timeout en ejecución', {
           executionId: executionResult.id,
@@ -142,13 +203,14 @@ export const useCodeEditor = ({ onResult, onCodeChange: _onCodeChange }: UseCode
         
       } else if (executionResult.status === 'cancelled') {
         const cancelMessage = 'La ejecución fue cancelada';
-        onResult([{ element: { content: cancelMessage }, type: "info" }]);
+        reportFinalMessage({ element: { content: cancelMessage }, type: "info" });
         
         CodeLogger.log('info', 'Hook: Ejecución cancelada', {
           executionId: executionResult.id
         });
       }
-      
+
+      return executionResult.status;
     } catch (error: any) {
       const errorMessage = error.message || 'Error desconocido en motor de ejecución';
       console.error('Error en motor de ejecución:', error);
@@ -161,28 +223,39 @@ export const useCodeEditor = ({ onResult, onCodeChange: _onCodeChange }: UseCode
         error: errorMessage, 
         stack: error.stack 
       });
+      return 'error';
     } finally {
-      setIsRunning(false);
-      currentExecutionIdRef.current = null;
+      // Una ejecución más reciente pudo reemplazar el id mientras esta terminaba
+      if (currentExecutionIdRef.current === executionId) {
+        setIsRunning(false);
+        onRunningChange?.(false);
+        currentExecutionIdRef.current = null;
+      }
+    }
+  };
+
+  // Con streaming la salida parcial ya está en pantalla: el aviso se agrega al final
+  const reportFinalMessage = (message: any) => {
+    if (onResultAppend) {
+      onResultAppend(message);
+    } else {
+      onResult([message]);
     }
   };
 
   // Método para mantener compatibilidad con el sistema anterior
   const transformResultForCompatibility = async (code: string, engineResult: any) => {
     try {
-      // Si el resultado del motor es simple, usar el sistema de transformación actual
-      if (engineResult && typeof engineResult === 'object' && engineResult.output) {
-        // El motor devuelve un resultado simulado, usar el sistema real
-        const transformed = transformCode(code);
-        return await run(transformed);
+      // El motor ya devuelve los resultados de la ejecución real en el sandbox
+      if (Array.isArray(engineResult)) {
+        return engineResult;
       }
-      
-      return engineResult;
+
+      return await run(code);
     } catch (error) {
       // Fallback al sistema anterior en caso de problemas
       CodeLogger.log('warn', 'Fallback al sistema de ejecución anterior', { error });
-      const transformed = transformCode(code);
-      return await run(transformed);
+      return await run(code, undefined, { useWorker: false });
     }
   };
 
@@ -3,6 +3,7 @@ import { useWorkspace } from '../context/WorkspaceContext';
 import { useToolbar } from '../context/ToolbarContext';
 import { useSplitLayout } from './useSplitLayout';
 import { MenuItem, ContextMenuProps } from '../components/ContextMenu';
+import type { NodeProcessEvent, NodeProcessRequest } from '../lib/code/node-process';
 
 interface UseContextMenuProps {
   onClearResults?: () => void;
@@ -230,6 +231,10 @@ declare global {
       invoke: (channel: string, data?: any) => Promise<any>;
       on: (channel: string, listener: (event: any, ...args: any[]) => void) => void;
       removeListener: (channel: string, listener: (event: any, ...args: any[]) => void) => void;
+      openPackageTarball?: () => Promise<{ fileName: string; data: Uint8Array } | null>;
+      runNodeProcess?: (request: NodeProcessRequest) => Promise<boolean>;
+      killNodeProcess?: (runId: string) => void;
+      onNodeProcessEvent?: (listener: (event: NodeProcessEvent) => void) => () => void;
     };
   }
 } 
\ No newline at end of file
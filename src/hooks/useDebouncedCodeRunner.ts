@@ -2,15 +2,16 @@ import { useCallback, useRef, useState, useEffect } from 'react';
 import { useWorkspace } from '../context/WorkspaceContext';
 import { useAutoExecutionConfig } from '../context/ConfigContext';
 import { SYSTEM_MESSAGES, EDITOR_CONFIG } from '../constants/config';
+import type { RunOutcome } from './useCodeEditor';
 
 interface UseDebouncedCodeRunnerParams {
-  runCode: (code: string) => Promise<void>;
+  runCode: (code: string) => Promise<RunOutcome | undefined | void>;
   onStatusChange?: (status: ExecutionStatus) => void;
   onCodeClear?: () => void;
 }
 
 export interface ExecutionStatus {
-  type: 'idle' | 'pending' | 'debouncing' | 'executing' | 'error' | 'cleared' | 'paste-priority';
+  type: 'idle' | 'pending' | 'debouncing' | 'executing' | 'error' | 'cleared' | 'paste-priority' | 'cancelled';
   message?: string;
   timeRemaining?: number;
   lastChangeSize?: number;
@@ -114,6 +115,13 @@ export const useDebouncedCodeRunner = ({
     onStatusChange?.(newStatus);
   }, [onStatusChange]);
 
+  // Estado tras una ejecución: una ejecución detenida no se reporta como completada
+  const updateFinishedStatus = useCallback((outcome: RunOutcome | undefined | void, message: string) => {
+    updateStatus(outcome === 'cancelled'
+      ? { type: 'cancelled', message: '⏹️ Ejecución detenida' }
+      : { type: 'idle', message });
+  }, [updateStatus]);
+
   const debouncedRunner = useCallback((code: string) => {
     if (!autoExecutionConfig.enabled) {
       updateStatus({
@@ -192,15 +200,12 @@ export const useDebouncedCodeRunner = ({
           });
           
           const codeToExecute = pendingPasteRef.current || pendingCodeRef.current;
-          await runCode(codeToExecute);
+          const outcome = await runCode(codeToExecute);
           
           pasteSequenceRef.current = 0;
           pendingPasteRef.current = null;
           
-          updateStatus({
-            type: 'idle',
-            message: '✅ Pegada ejecutada',
-          });
+          updateFinishedStatus(outcome, '✅ Pegada ejecutada');
           
         } catch (error) {
           pasteSequenceRef.current = 0;
@@ -261,12 +266,9 @@ export const useDebouncedCodeRunner = ({
         // Usar el código más actual
         const finalCode = pendingCodeRef.current;
         
-        await runCode(finalCode);
+        const outcome = await runCode(finalCode);
         
-        updateStatus({
-          type: 'idle',
-          message: '✅ Ejecución completada',
-        });
+        updateFinishedStatus(outcome, '✅ Ejecución completada');
         
       } catch (error) {
         updateStatus({
@@ -276,7 +278,7 @@ export const useDebouncedCodeRunner = ({
       }
     }, TYPING_DELAY);
     
-  }, [runCode, updateStatus, isPasteOperation, isCodeCleared, onCodeClear, autoExecutionConfig, cancelPending]);
+  }, [runCode, updateStatus, updateFinishedStatus, isPasteOperation, isCodeCleared, onCodeClear, autoExecutionConfig, cancelPending]);
 
   const handler = useCallback((value: string | undefined) => {
     if (value !== undefined) {
@@ -315,12 +317,9 @@ export const useDebouncedCodeRunner = ({
         lastCodeRef.current = codeToExecute;
         pendingCodeRef.current = codeToExecute;
         
-        await runCode(codeToExecute);
+        const outcome = await runCode(codeToExecute);
         
-        updateStatus({
-          type: 'idle',
-          message: '✅ Completado',
-        });
+        updateFinishedStatus(outcome, '✅ Completado');
         
       } catch (error) {
         updateStatus({
@@ -329,7 +328,7 @@ export const useDebouncedCodeRunner = ({
         });
       }
     }
-  }, [runCode, cancelPending, updateStatus, utils]);
+  }, [runCode, cancelPending, updateStatus, updateFinishedStatus, utils]);
   
   const executeImmediately = useCallback(async (code: string) => {
     if (code === lastCodeRef.current) {
@@ -362,19 +361,16 @@ export const useDebouncedCodeRunner = ({
       pendingCodeRef.current = code;
       lastChangeTimeRef.current = Date.now();
       
-      await runCode(code);
+      const outcome = await runCode(code);
       
-      updateStatus({
-        type: 'idle',
-        message: '✅ Ejecución inicial completada',
-      });
+      updateFinishedStatus(outcome, '✅ Ejecución inicial completada');
     } catch (error) {
       updateStatus({
         type: 'error',
         message: error instanceof Error ? error.message : 'Error en ejecución inicial',
       });
     }
-  }, [runCode, cancelPending, updateStatus, onCodeClear]);
+  }, [runCode, cancelPending, updateStatus, updateFinishedStatus, onCodeClear]);
 
   useEffect(() => {
     return () => {
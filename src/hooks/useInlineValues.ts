@@ -0,0 +1,103 @@
+import { useEffect, useRef } from "react";
+import type { ResultElement } from "../context/CodeContext";
+
+interface UseInlineValuesParams {
+  editorInstance?: any;
+  monacoInstance?: any;
+  result: ResultElement[] | string;
+  enabled: boolean;
+  // Archivo mostrado en el editor; al cambiar se limpian las decoraciones
+  fileId?: string;
+}
+
+const MAX_INLINE_LENGTH = 80;
+
+/**
+ * Texto de una sola línea para mostrar al final de la línea de código
+ */
+const toInlineText = (element: ResultElement): string => {
+  const content = element.table
+    ? `Table(${element.table.rows.length})`
+    : String(element.element.content);
+  const text = content.replace(/\s*\n\s*/g, " ").trim();
+  return text.length > MAX_INLINE_LENGTH ? `${text.slice(0, MAX_INLINE_LENGTH)}…` : text;
+};
+
+/**
+ * Obtiene el último resultado de cada línea del código
+ */
+const getLatestByLine = (elements: ResultElement[]): Map<number, ResultElement> => {
+  const latest = new Map<number, ResultElement>();
+  for (const element of elements) {
+    // Los cierres de grupo y las líneas sin número no tienen valor que mostrar
+    if (!element.lineNumber || element.lineNumber < 1 || element.method === "groupEnd") continue;
+    latest.set(element.lineNumber, element);
+  }
+  return latest;
+};
+
+/**
+ * Muestra el último valor de cada línea como decoración al final de la línea
+ * (modo "valores en línea"), con el color del tipo de resultado
+ */
+export function useInlineValues({
+  editorInstance,
+  monacoInstance,
+  result,
+  enabled,
+  fileId,
+}: UseInlineValuesParams) {
+  const decorationsRef = useRef<any>(null);
+  // Archivo al que pertenecen los resultados actuales: el que estaba abierto
+  // cuando llegaron, aunque después se cambie de archivo
+  const resultOwnerRef = useRef({ result, fileId });
+
+  useEffect(() => {
+    if (resultOwnerRef.current.result !== result) {
+      resultOwnerRef.current = { result, fileId };
+    }
+  }, [result, fileId]);
+
+  useEffect(() => {
+    if (!editorInstance || !monacoInstance) return;
+
+    if (!decorationsRef.current) {
+      decorationsRef.current = editorInstance.createDecorationsCollection();
+    }
+
+    const elements = Array.isArray(result) ? result : [];
+    const model = editorInstance.getModel();
+
+    if (!enabled || !model || elements.length === 0 || resultOwnerRef.current.fileId !== fileId) {
+      decorationsRef.current.clear();
+      return;
+    }
+
+    const lineCount = model.getLineCount();
+    const decorations = Array.from(getLatestByLine(elements).entries())
+      .filter(([line]) => line <= lineCount)
+      .map(([line, element]) => {
+        const column = model.getLineMaxColumn(line);
+        return {
+          range: new monacoInstance.Range(line, column, line, column),
+          options: {
+            after: {
+              content: ` // ${toInlineText(element)}`,
+              inlineClassName: `inline-value inline-value-${element.type}`,
+            },
+            stickiness: monacoInstance.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges,
+          },
+        };
+      });
+
+    decorationsRef.current.set(decorations);
+  }, [editorInstance, monacoInstance, result, enabled, fileId]);
+
+  // Limpiar al desmontar el editor
+  useEffect(() => {
+    return () => {
+      decorationsRef.current?.clear();
+      decorationsRef.current = null;
+    };
+  }, [editorInstance]);
+}
@@ -0,0 +1,81 @@
+// Muestra el valor de las variables del nivel superior sin console.log: cada
+// declaración const/let/var (también con desestructuración) y cada asignación
+// suelta se reportan como debug(line, '_declaration', 'nombre', valor)
+
+import type { NodePath, TraverseOptions, Node } from '@babel/traverse';
+import type * as BabelTypes from '@babel/types';
+
+// Inicializadores cuyo valor no interesa mostrar
+const SKIPPED_INITS = new Set([
+	'FunctionExpression',
+	'ArrowFunctionExpression',
+	'ClassExpression',
+]);
+
+export default function ({ types: t }: { types: typeof BabelTypes }): { visitor: TraverseOptions<Node> } {
+
+	function createDebugCall(line: number, label: string, value: BabelTypes.Expression) {
+		return t.callExpression(t.identifier('debug'), [
+			t.numericLiteral(line),
+			t.stringLiteral('_declaration'),
+			t.stringLiteral(label),
+			value
+		]);
+	}
+
+	// Una llamada por cada variable del patrón (identificador o desestructuración)
+	function createBindingReports(line: number, pattern: BabelTypes.LVal) {
+		return Object.keys(t.getBindingIdentifiers(pattern)).map((name) =>
+			t.expressionStatement(createDebugCall(line, name, t.identifier(name)))
+		);
+	}
+
+	// Solo el nivel superior del programa, incluidas las declaraciones exportadas
+	function isTopLevel(path: NodePath): boolean {
+		const parent = path.parentPath;
+		if (parent?.isProgram()) return true;
+		return !!parent?.isExportNamedDeclaration() && parent.parentPath?.isProgram();
+	}
+
+	return {
+		visitor: {
+			VariableDeclaration(path: NodePath<BabelTypes.VariableDeclaration>) {
+				// Saltar declaraciones generadas por otros plugins (no tienen línea)
+				const { loc } = path.node;
+				if (!loc || !isTopLevel(path)) return;
+
+				const reports = path.node.declarations
+					.filter((declarator) => declarator.init && !SKIPPED_INITS.has(declarator.init.type))
+					.flatMap((declarator) =>
+						createBindingReports(declarator.loc?.start.line ?? loc.start.line, declarator.id)
+					);
+				if (reports.length === 0) return;
+
+				// Después de la declaración (o del export que la contiene)
+				const statement = path.parentPath?.isExportNamedDeclaration() ? path.parentPath : path;
+				statement.insertAfter(reports);
+			},
+
+			ExpressionStatement(path: NodePath<BabelTypes.ExpressionStatement>) {
+				const { loc } = path.node;
+				const expression = path.get('expression');
+				if (!loc || !path.parentPath?.isProgram()) return;
+				if (!expression.isAssignmentExpression()) return;
+
+				const expr = expression.node;
+				const line = loc.start.line;
+
+				// [a, b] = [b, a]: una llamada por variable después de la asignación
+				if (expr.left.type === 'ArrayPattern' || expr.left.type === 'ObjectPattern') {
+					path.insertAfter(createBindingReports(line, expr.left));
+					return;
+				}
+
+				// x = 1, obj.total += 2: el valor de la asignación es el que queda guardado
+				const label = expression.get('left').getSource();
+				if (!label) return;
+				path.replaceWith(t.expressionStatement(createDebugCall(line, label, expr)));
+			}
+		}
+	};
+}
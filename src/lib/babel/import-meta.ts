@@ -0,0 +1,30 @@
+// Reemplaza import.meta por un objeto con la ubicación del archivo
+// El código se ejecuta dentro de una función (no como módulo ES), donde import.meta
+// es un error de sintaxis: se entrega { url, filename, dirname } como en Node
+
+import type { TraverseOptions, Node } from '@babel/traverse';
+
+export default function (
+	{ types: t }: { types: any },
+	options: { filename?: string }
+): { visitor: TraverseOptions<Node> } {
+	const filename = options.filename || '/index.js';
+	const dirname = filename.slice(0, filename.lastIndexOf('/')) || '/';
+
+	return {
+		visitor: {
+			MetaProperty(path: any) {
+				const { meta, property } = path.node;
+				if (meta.name !== 'import' || property.name !== 'meta') return;
+
+				path.replaceWith(
+					t.objectExpression([
+						t.objectProperty(t.identifier('url'), t.stringLiteral(`file://${filename}`)),
+						t.objectProperty(t.identifier('filename'), t.stringLiteral(filename)),
+						t.objectProperty(t.identifier('dirname'), t.stringLiteral(dirname)),
+					])
+				);
+			},
+		},
+	};
+}
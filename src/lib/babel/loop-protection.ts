@@ -1,98 +1,199 @@
+import type { NodePath } from "@babel/traverse";
+import type * as BabelTypes from "@babel/types";
 import { EDITOR_CONFIG } from "../../constants/config";
 
-// Plugin de Babel para proteger contra bucles infinitos
-export default function loopProtectionPlugin() {
-  return {
-    visitor: {
-      WhileStatement(path: any) {
-        // Solo agregar protección si no es async/await
-        if (!hasAsyncInside(path.node)) {
-          addLoopProtection(path, 'while');
-        }
-      },
-      
-      ForStatement(path: any) {
-        if (!hasAsyncInside(path.node)) {
-          addLoopProtection(path, 'for');
-        }
-      },
-      
-      DoWhileStatement(path: any) {
-        if (!hasAsyncInside(path.node)) {
-          addLoopProtection(path, 'do-while');
-        }
-      }
-    }
+/**
+ * Límites de la protección contra bucles y recursión infinitos
+ */
+export interface LoopProtectionOptions {
+  /** Máximo de iteraciones de un bucle síncrono */
+  maxIterations?: number;
+  /** Tiempo máximo (ms) que puede seguir un bucle con await */
+  asyncTimeLimit?: number;
+  /** Máximo de llamadas anidadas de una función recursiva */
+  maxRecursionDepth?: number;
+}
+
+type TemplateReplacements = Record<string, BabelTypes.Node | BabelTypes.Statement[]>;
+
+// Parte de la API de plugins de Babel que usa la protección
+interface LoopProtectionApi {
+  types: typeof BabelTypes;
+  template: {
+    expression(code: string): (replacements: TemplateReplacements) => BabelTypes.Expression;
+    statement(code: string): (replacements: TemplateReplacements) => BabelTypes.Statement;
+    statements(code: string): (replacements: TemplateReplacements) => BabelTypes.Statement[];
   };
 }
 
-// Función para agregar protección a los bucles
-function addLoopProtection(path: any, loopType: string) {
-  const counter = path.scope.generateUidIdentifier('loopCounter');
-  const maxIterations = EDITOR_CONFIG.LOOP_ITERATION_LIMIT;
-  
-  // Crear la declaración del contador
-  const counterDeclaration = {
-    type: 'VariableDeclaration',
-    kind: 'var',
-    declarations: [{
-      type: 'VariableDeclarator',
-      id: counter,
-      init: { type: 'NumericLiteral', value: 0 }
-    }]
+type FunctionPath = NodePath<
+  BabelTypes.FunctionDeclaration | BabelTypes.FunctionExpression | BabelTypes.ArrowFunctionExpression
+>;
+
+const LOOP_NAMES: Record<string, string> = {
+  WhileStatement: "while",
+  DoWhileStatement: "do-while",
+  ForStatement: "for",
+  ForInStatement: "for...in",
+  ForOfStatement: "for...of",
+};
+
+// Plugin de Babel para proteger contra bucles y recursión infinitos.
+// Los bucles síncronos cuentan iteraciones; los que esperan con await no
+// bloquean el hilo y se limitan por tiempo. Las funciones que se llaman a sí
+// mismas cuentan su profundidad. El error lleva la posición (loc) del bucle o
+// de la función, que parseError usa como línea y columna del resultado
+export default function loopProtectionPlugin(
+  { types: t, template }: LoopProtectionApi,
+  options: LoopProtectionOptions = {}
+) {
+  const maxIterations = options.maxIterations ?? EDITOR_CONFIG.LOOP_ITERATION_LIMIT;
+  const asyncTimeLimit = options.asyncTimeLimit ?? EDITOR_CONFIG.ASYNC_LOOP_TIME_LIMIT;
+  const maxRecursionDepth = options.maxRecursionDepth ?? EDITOR_CONFIG.RECURSION_DEPTH_LIMIT;
+
+  const buildError = template.expression(
+    "Object.assign(new RangeError(MESSAGE), { loc: { line: LINE, column: COLUMN } })"
+  );
+  const buildIterationGuard = template.statement("if (++COUNTER > LIMIT) throw ERROR;");
+  const buildTimeGuard = template.statement("if (Date.now() - START > LIMIT) throw ERROR;");
+  const buildRecursionBody = template.statements(`
+    try {
+      if (++DEPTH > LIMIT) throw ERROR;
+      BODY;
+    } finally {
+      DEPTH--;
+    }
+  `);
+
+  // Error con la posición del nodo en el código original (columna desde 1, como en el stack)
+  const createError = (loc: BabelTypes.SourceLocation, message: string) =>
+    buildError({
+      MESSAGE: t.stringLiteral(message),
+      LINE: t.numericLiteral(loc.start.line),
+      COLUMN: t.numericLiteral(loc.start.column + 1),
+    });
+
+  const protectLoop = (path: NodePath<BabelTypes.Loop>) => {
+    const { node } = path;
+    const { loc } = node;
+    // Bucles generados por otros plugins (no tienen posición)
+    if (!loc) return;
+
+    const loopName = LOOP_NAMES[node.type];
+    const line = loc.start.line;
+    let guard: BabelTypes.Statement;
+
+    if (isAsyncLoop(path)) {
+      const start = path.scope.generateUidIdentifier("loopStart");
+      path.insertBefore(
+        t.variableDeclaration("var", [
+          t.variableDeclarator(start, t.callExpression(t.memberExpression(t.identifier("Date"), t.identifier("now")), [])),
+        ])
+      );
+      guard = buildTimeGuard({
+        START: start,
+        LIMIT: t.numericLiteral(asyncTimeLimit),
+        ERROR: createError(
+          loc,
+          `Bucle detenido: el bucle asíncrono ${loopName} de la línea ${line} siguió ejecutándose más de ${asyncTimeLimit / 1000}s`
+        ),
+      });
+    } else {
+      const counter = path.scope.generateUidIdentifier("loopIterations");
+      path.insertBefore(t.variableDeclaration("var", [t.variableDeclarator(counter, t.numericLiteral(0))]));
+      guard = buildIterationGuard({
+        COUNTER: counter,
+        LIMIT: t.numericLiteral(maxIterations),
+        ERROR: createError(
+          loc,
+          `Bucle detenido: el bucle ${loopName} de la línea ${line} superó ${maxIterations.toLocaleString()} iteraciones. Posible bucle infinito`
+        ),
+      });
+    }
+
+    // Agregar la protección al cuerpo del bucle
+    if (t.isBlockStatement(node.body)) {
+      node.body.body.unshift(guard);
+    } else {
+      node.body = t.blockStatement([guard, node.body]);
+    }
   };
-  
-  // Insertar la declaración antes del bucle
-  path.insertBefore(counterDeclaration);
-  
-  // Crear la protección contra bucle infinito
-  const protection = {
-    type: 'IfStatement',
-    test: {
-      type: 'BinaryExpression',
-      operator: '>',
-      left: {
-        type: 'UpdateExpression',
-        operator: '++',
-        prefix: true,
-        argument: counter
-      },
-      right: {
-        type: 'NumericLiteral',
-        value: maxIterations
-      }
-    },
-    consequent: {
-      type: 'ThrowStatement',
-      argument: {
-        type: 'NewExpression',
-        callee: { type: 'Identifier', name: 'Error' },
-        arguments: [{
-          type: 'StringLiteral',
-          value: `🔄 Bucle detenido: Se ejecutaron más de ${maxIterations.toLocaleString()} iteraciones en un bucle ${loopType}. Posible bucle infinito detectado.`
-        }]
-      }
+
+  const protectRecursion = (path: FunctionPath) => {
+    const { node } = path;
+    const { loc } = node;
+    if (!loc || node.async || node.generator) return;
+
+    const name = getFunctionName(path);
+    if (!name || !callsItself(path, name)) return;
+
+    // Un contador por función, declarado al inicio del programa
+    const depth = path.scope.generateUidIdentifier(`${name}Depth`);
+    path.scope.getProgramParent().push({ id: depth, init: t.numericLiteral(0) });
+
+    if (!t.isBlockStatement(node.body)) {
+      node.body = t.blockStatement([t.returnStatement(node.body)]);
     }
+    node.body.body = buildRecursionBody({
+      DEPTH: depth,
+      LIMIT: t.numericLiteral(maxRecursionDepth),
+      ERROR: createError(
+        loc,
+        `Recursión detenida: ${name} (línea ${loc.start.line}) superó ${maxRecursionDepth.toLocaleString()} llamadas anidadas. Posible recursión infinita`
+      ),
+      BODY: node.body.body,
+    });
+  };
+
+  return {
+    visitor: {
+      "WhileStatement|DoWhileStatement|ForStatement|ForInStatement|ForOfStatement": protectLoop,
+      "FunctionDeclaration|FunctionExpression|ArrowFunctionExpression": protectRecursion,
+    },
   };
-  
-  // Agregar la protección al cuerpo del bucle
-  if (path.node.body.type === 'BlockStatement') {
-    path.node.body.body.unshift(protection);
-  } else {
-    path.node.body = {
-      type: 'BlockStatement',
-      body: [protection, path.node.body]
-    };
+}
+
+// Un bucle es asíncrono si es for await o si espera con await en cada
+// iteración (sin contar las funciones anidadas ni el iterable de for...of/in,
+// que se evalúa una sola vez)
+function isAsyncLoop(path: NodePath<BabelTypes.Loop>): boolean {
+  if (path.isForOfStatement() && path.node.await) return true;
+
+  const target: NodePath = path.isForXStatement() ? path.get("body") : path;
+  let found = false;
+  target.traverse({
+    Function(inner) {
+      inner.skip();
+    },
+    AwaitExpression(inner) {
+      found = true;
+      inner.stop();
+    },
+  });
+  return found;
+}
+
+// Nombre con el que la función puede llamarse a sí misma:
+// function f() {}, const f = function () {} o const f = () => {}
+function getFunctionName(path: FunctionPath): string | null {
+  const { node } = path;
+  if (node.type !== "ArrowFunctionExpression" && node.id) return node.id.name;
+  const parent = path.parentPath;
+  if (parent?.isVariableDeclarator()) {
+    const id = parent.get("id");
+    if (id.isIdentifier()) return id.node.name;
   }
+  return null;
 }
 
-// Función auxiliar para detectar si hay async/await dentro del bucle
-function hasAsyncInside(node: any): boolean {
-  // Implementación básica - evitar instrumentar bucles que ya manejan async
-  const nodeString = JSON.stringify(node);
-  return nodeString.includes('await') || 
-         nodeString.includes('async') ||
-         nodeString.includes('Promise') ||
-         nodeString.includes('setTimeout') ||
-         nodeString.includes('setInterval');
-} 
\ No newline at end of file
+// Indica si alguna llamada dentro de la función usa su propio nombre
+function callsItself(path: FunctionPath, name: string): boolean {
+  const binding = path.get("body").scope.getBinding(name);
+  if (!binding) return false;
+  return binding.referencePaths.some(
+    (reference) =>
+      reference.isDescendant(path) &&
+      !!reference.parentPath?.isCallExpression() &&
+      reference.parentPath.node.callee === reference.node
+  );
+}
@@ -0,0 +1,48 @@
+// Registra los require("./...") relativos del código ya convertido a CommonJS
+// (los imports, export ... from e import() pasan a require al transformarse).
+// Solo cuenta llamadas reales a require: un texto que parece un import dentro
+// de un string o un comentario no es una dependencia. Con la lista de archivos
+// del workspace, además reescribe cada import con la ruta exacta del archivo
+// (el require de Node no prueba las extensiones .ts/.tsx/.jsx)
+
+import type { NodePath, TraverseOptions } from '@babel/traverse';
+import type * as BabelTypes from '@babel/types';
+import { isRelativeSpecifier, toExactSpecifier } from '../code/workspace-modules';
+
+export interface ModuleRequestsOptions {
+	/** Archivo que se transforma, para resolver los imports relativos */
+	importer?: string;
+	/** Archivos del workspace: si se indican, los imports se reescriben con la ruta exacta */
+	paths?: string[];
+}
+
+/** Metadatos del archivo donde el plugin deja los imports encontrados */
+export interface ModuleRequestsState {
+	file: { metadata: { requires?: string[] } };
+}
+
+export default function (
+	{ types: t }: { types: typeof BabelTypes },
+	options: ModuleRequestsOptions
+): { visitor: TraverseOptions<ModuleRequestsState> } {
+	return {
+		visitor: {
+			// Los require que agrega transform-modules-commonjs también se visitan
+			CallExpression(path: NodePath<BabelTypes.CallExpression>, state: ModuleRequestsState) {
+				const { callee, arguments: args } = path.node;
+				if (!t.isIdentifier(callee, { name: 'require' }) || path.scope.hasBinding('require')) return;
+				if (args.length !== 1 || !t.isStringLiteral(args[0])) return;
+
+				const source = args[0];
+				if (!isRelativeSpecifier(source.value)) return;
+
+				if (options.importer && options.paths) {
+					source.value = toExactSpecifier(options.importer, source.value, options.paths);
+				}
+
+				const requires = (state.file.metadata.requires ??= []);
+				if (!requires.includes(source.value)) requires.push(source.value);
+			}
+		}
+	};
+}
@@ -0,0 +1,49 @@
+// Agrega puntos de control __watchdog(line) al inicio de cada iteración de los
+// bucles y al entrar en cada función. El ejecutor mide el tiempo que el código
+// lleva corriendo sin ceder el hilo y, al superar el límite, el punto de
+// control lanza un error con la línea actual: así se detiene código síncrono
+// que no termina aunque no corra en un worker
+
+import type { NodePath, TraverseOptions, Node } from '@babel/traverse';
+import type * as BabelTypes from '@babel/types';
+
+export default function ({ types: t }: { types: typeof BabelTypes }): { visitor: TraverseOptions<Node> } {
+
+	function createCheckpoint(line: number) {
+		return t.expressionStatement(
+			t.callExpression(t.identifier('__watchdog'), [t.numericLiteral(line)])
+		);
+	}
+
+	// Al inicio del cuerpo (los cuerpos sin llaves se convierten en bloque)
+	function addCheckpoint(node: BabelTypes.Loop | BabelTypes.Function) {
+		// Saltar nodos generados por otros plugins (no tienen línea)
+		if (!node.loc) return;
+
+		const checkpoint = createCheckpoint(node.loc.start.line);
+		if (t.isBlockStatement(node.body)) {
+			node.body.body.unshift(checkpoint);
+		} else if (t.isExpression(node.body)) {
+			// () => expr pasa a () => { __watchdog(line); return expr; }
+			node.body = t.blockStatement([checkpoint, t.returnStatement(node.body)]);
+		} else {
+			node.body = t.blockStatement([checkpoint, node.body]);
+		}
+	}
+
+	return {
+		visitor: {
+			// Back-edge de los bucles: se ejecuta una vez por iteración
+			// (while, do-while, for, for...in y for...of)
+			Loop(path: NodePath<BabelTypes.Loop>) {
+				addCheckpoint(path.node);
+			},
+
+			// Entrada de funciones y métodos: cubre la recursión
+			// (declaraciones, expresiones, flechas y métodos de objetos y clases)
+			Function(path: NodePath<BabelTypes.Function>) {
+				addCheckpoint(path.node);
+			}
+		}
+	};
+}
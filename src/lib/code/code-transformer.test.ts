@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+import { transformCodeWithMap, transformWorkspaceModules } from "./code-transformer";
+import { executeTransformedCode } from "./executor";
+
+const ENTRY_PATH = "main.js";
+
+/**
+ * Transforma la entrada y los archivos que importa y la ejecuta con el mismo
+ * pipeline del editor
+ * @param entry - Código del archivo de entrada
+ * @param files - Resto de archivos del workspace, por nombre
+ * @returns Código transformado, exports de la entrada y salidas de console
+ */
+const runWorkspace = async (entry: string, files: Record<string, string> = {}) => {
+  const { code, requires } = transformCodeWithMap(entry, "javascript", ENTRY_PATH);
+  const modules = transformWorkspaceModules(requires, { entryPath: ENTRY_PATH, files });
+  let exports: any;
+  const results = await executeTransformedCode(code, {
+    modules: { entryPath: ENTRY_PATH, requires, modules },
+    onModuleExports: (value) => {
+      exports = value;
+    },
+  });
+
+  return {
+    code,
+    modules,
+    exports,
+    output: results.map((result) => result.element.content),
+  };
+};
+
+describe("ESM a CommonJS", () => {
+  it("import default", async () => {
+    const { code, output } = await runWorkspace(
+      `import greet from "./greet";\nconsole.log(greet("ana"));`,
+      { "greet.js": `export default (name) => "hola " + name;` }
+    );
+
+    expect(code).toContain(`require("./greet")`);
+    expect(code).toContain(".default");
+    expect(output).toEqual(['"hola ana"']);
+  });
+
+  it("import con nombre", async () => {
+    const { code, output } = await runWorkspace(
+      `import { sum, PI as pi } from "./math";\nconsole.log(sum(1, 2));\nconsole.log(pi);`,
+      { "math.js": `export const sum = (a, b) => a + b;\nexport const PI = 3.14;` }
+    );
+
+    expect(code).toContain(`require("./math")`);
+    expect(code).toContain("(0, _math.sum)(1, 2)");
+    expect(output).toEqual(["3", "3.14"]);
+  });
+
+  it("import de espacio de nombres", async () => {
+    const { code, exports } = await runWorkspace(
+      `import * as math from "./math";\nexport const keys = Object.keys(math).sort();`,
+      { "math.js": `export const a = 1;\nexport const b = 2;` }
+    );
+
+    expect(code).toContain("_interopRequireWildcard");
+    expect(exports.keys).toEqual(["a", "b"]);
+  });
+
+  it("export * from", async () => {
+    const { code, exports } = await runWorkspace(
+      `export * from "./math";\nexport const own = true;`,
+      { "math.js": `export const a = 1;\nexport default "no se reexporta";` }
+    );
+
+    expect(code).toContain("Object.keys(_math).forEach");
+    expect(exports).toMatchObject({ a: 1, own: true });
+    expect(exports.default).toBeUndefined();
+  });
+
+  it("import solo por sus efectos", async () => {
+    const { code, output } = await runWorkspace(
+      `import "./setup";\nconsole.log(globalThis.__setupDone);`,
+      { "setup.js": `globalThis.__setupDone = "listo";` }
+    );
+
+    expect(code).toMatch(/^require\("\.\/setup"\);$/m);
+    expect(output).toEqual(['"listo"']);
+  });
+
+  it("export default de una expresión", async () => {
+    const { code, exports } = await runWorkspace(`export default 1 + 2;`);
+
+    expect(code).toContain("exports.default = 1 + 2");
+    expect(exports.__esModule).toBe(true);
+    expect(exports.default).toBe(3);
+  });
+
+  it("import() dinámico", async () => {
+    const { code, modules, exports } = await runWorkspace(
+      `const { value } = await import("./lazy");\nexport default value;`,
+      { "lazy.js": `export const value = "cargado";` }
+    );
+
+    expect(code).toContain(`Promise.resolve().then(() => _interopRequireWildcard(require("./lazy")))`);
+    expect(Object.keys(modules)).toEqual(["lazy.js"]);
+    expect(exports.default).toBe("cargado");
+  });
+});
+
+describe("módulos del workspace", () => {
+  it("admite await en el nivel superior de un módulo importado", async () => {
+    const { output } = await runWorkspace(
+      `import { config } from "./config";\nconsole.log(config.ready);`,
+      { "config.js": `await Promise.resolve();\nexport const config = { ready: true };` }
+    );
+
+    expect(output).toEqual(["true"]);
+  });
+
+  it("evalúa las dependencias antes que quien las importa", async () => {
+    const { output } = await runWorkspace(
+      `import "./a";\nimport "./b";\nconsole.log("main");`,
+      {
+        "a.js": `import "./c";\nconsole.log("a");`,
+        "b.js": `import "./c";\nconsole.log("b");`,
+        "c.js": `await null;\nconsole.log("c");`,
+      }
+    );
+
+    expect(output).toEqual(['"c"', '"a"', '"b"', '"main"']);
+  });
+
+  it("entrega los exports parciales en un import circular", async () => {
+    const { exports } = await runWorkspace(`import { seen } from "./a";\nexport default seen;`, {
+      "a.js": `import { fromB } from "./b";\nexport const early = 1;\nexport const seen = fromB;`,
+      "b.js": `import * as a from "./a";\nexport const fromB = a.early;`,
+    });
+
+    expect(exports.default).toBeUndefined();
+  });
+
+  it("no toma como imports los textos que parecen require", async () => {
+    const { modules, output } = await runWorkspace(
+      [
+        `// ver require('./old')`,
+        `import { value } from "./real";`,
+        `const text = "require('./nope')";`,
+        `console.log(value, text.length > 0);`,
+      ].join("\n"),
+      { "real.js": `export const value = 1;` }
+    );
+
+    expect(Object.keys(modules)).toEqual(["real.js"]);
+    expect(output).toHaveLength(1);
+  });
+
+  it("importa archivos TypeScript, también con la extensión .js", async () => {
+    const { output } = await runWorkspace(
+      `import { f } from "./u.js";\nimport { g } from "./types";\nconsole.log(f() + g());`,
+      {
+        "u.ts": `export const f = (): number => 42;`,
+        "types.ts": `interface Box { value: number }\nexport const g = () => 0;`,
+      }
+    );
+
+    expect(output).toEqual(["42"]);
+  });
+
+  it("reescribe los imports con la ruta exacta para el require de Node", () => {
+    const files = { "lib/util.ts": `export const x = 1;`, "helper.js": `export const y = 2;` };
+    const workspacePaths = [...Object.keys(files), ENTRY_PATH];
+    const { code, requires } = transformCodeWithMap(
+      `import { x } from "./lib/util";\nimport { y } from "./helper";\nconst s = "require('./lib/util')";`,
+      "javascript",
+      ENTRY_PATH,
+      { workspacePaths }
+    );
+
+    expect(code).toContain(`require("./lib/util.ts")`);
+    expect(code).toContain(`require("./helper.js")`);
+    expect(code).toContain(`"require('./lib/util')"`);
+    expect(requires).toEqual(["./lib/util.ts", "./helper.js"]);
+  });
+
+  it("nombra el archivo donde falló un módulo", async () => {
+    const { output } = await runWorkspace(`import "./broken";`, {
+      "broken.js": `throw new Error("roto");`,
+    });
+
+    expect(output[0]).toMatch(/roto.*broken\.js.*main\.js/);
+  });
+});
+
+describe("valores de declaraciones", () => {
+  it("muestra el valor que tenía la variable en cada línea", async () => {
+    const { code } = transformCodeWithMap(
+      [`const list = [1];`, `list.push(2);`, `const config = { on: false };`, `config.on = true;`].join("\n"),
+      "javascript",
+      undefined,
+      { declarationValues: true }
+    );
+    const results = await executeTransformedCode(code);
+
+    expect(results.map(({ lineNumber, element }) => [lineNumber, element.content])).toEqual([
+      [1, expect.stringMatching(/^list = \[\s*1\s*\]$/)],
+      [3, expect.stringMatching(/^config = \{\s*on: false\s*\}$/)],
+      [4, expect.stringMatching(/^config\.on = true$/)],
+    ]);
+  });
+});
+
+describe("límites de bucles y recursión", () => {
+  it("aplica la profundidad de recursión de las opciones", async () => {
+    const code = `function down(n) { return n === 0 ? 0 : down(n - 1); }\nconsole.log(down(50));`;
+    const run = (recursionDepthLimit: number) =>
+      executeTransformedCode(transformCodeWithMap(code, "javascript", undefined, { recursionDepthLimit }).code);
+
+    expect((await run(100)).map(({ element }) => element.content)).toEqual(["0"]);
+    expect((await run(10))[0]).toMatchObject({ type: "error", lineNumber: 1 });
+  });
+});
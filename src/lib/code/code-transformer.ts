@@ -5,7 +5,11 @@ import {
 } from "@babel/standalone";
 import logPlugin from "../babel/log-babel";
 import strayExpression from "../babel/stray-expression";
+import declarationValues from "../babel/declaration-values";
 import loopProtectionPlugin from "../babel/loop-protection";
+import importMetaPlugin from "../babel/import-meta";
+import watchdogPlugin from "../babel/watchdog";
+import moduleRequestsPlugin, { type ModuleRequestsState } from "../babel/module-requests";
 import {
   parseError,
   validateSyntax,
@@ -15,90 +19,92 @@ import {
 import { 
   detectLanguageFromContent,
 } from "./detectors";
+import type { RawSourceMap } from "./source-map";
+import {
+  resolveModulePath,
+  type WorkspaceModule,
+  type WorkspaceSource,
+} from "./workspace-modules";
+import { NODE_CWD } from "../node";
 
 // Registrar plugins de Babel
 registerPlugins({
   "stray-expression-babel": strayExpression,
+  "declaration-values": declarationValues,
   "log-transform": logPlugin,
   "loop-protection": loopProtectionPlugin,
+  "import-meta": importMetaPlugin,
+  watchdog: watchdogPlugin,
+  "module-requests": moduleRequestsPlugin,
 });
 
 /**
- * Preprocesa el código para convertir imports/exports ES6 a CommonJS
- * @param code - Código a preprocesar
- * @returns Código preprocesado
+ * Opciones de transform-modules-commonjs para el código del usuario: sin
+ * "use strict" (el código corre en modo no estricto) y conservando el this de
+ * nivel superior. Los imports dinámicos se convierten en require con
+ * transform-dynamic-import
  */
-const preprocessImportsExports = (code: string): string => {
-  let processedCode = code;
-
-  // Convertir imports de ES6 a requires
-  processedCode = processedCode.replace(
-    /import\s+(.+?)\s+from\s+['"`]([^'"`]+)['"`];?/g,
-    (_match, importClause, moduleName) => {
-      // Manejar diferentes tipos de imports
-      if (importClause.includes("{")) {
-        // Named imports: import { useState, useEffect } from 'react'
-        const namedImports = importClause.replace(/[{}]/g, "").trim();
-        return `const { ${namedImports} } = require('${moduleName}');`;
-      } else if (importClause.includes("*")) {
-        // Namespace imports: import * as React from 'react'
-        const [, alias] = importClause.split(" as ");
-        return `const ${alias.trim()} = require('${moduleName}');`;
-      } else {
-        // Default imports: import React from 'react'
-        return `const ${importClause.trim()} = require('${moduleName}');`;
-      }
-    }
-  );
-
-  // Convertir export default
-  processedCode = processedCode.replace(
-    /export\s+default\s+(.+);?$/gm,
-    "module.exports = $1;"
-  );
-
-  // Convertir named exports
-  processedCode = processedCode.replace(
-    /export\s+\{([^}]+)\};?/g,
-    (_match, exports) => {
-      const exportItems = exports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed.split(" as ");
-          return `${alias.trim()}: ${original.trim()}`;
-        }
-        return `${trimmed}: ${trimmed}`;
-      });
-      return `module.exports = { ${exportItems.join(", ")} };`;
-    }
-  );
-
-  // Convertir export function/const/let/var
-  processedCode = processedCode.replace(
-    /export\s+(const|let|var|function|class)\s+([a-zA-Z_$][a-zA-Z0-9_$]*)/g,
-    "$1 $2"
-  );
-
-  return processedCode;
+const USER_MODULES_COMMONJS_OPTIONS = {
+  strictMode: false,
+  allowTopLevelThis: true,
 };
 
+/**
+ * Opciones de la transformación del archivo que se ejecuta
+ */
+export interface TransformOptions {
+  /** Modo scratchpad: cada expresión suelta muestra su valor, también dentro de bloques, bucles y funciones */
+  scratchpad?: boolean;
+  /** Mostrar el valor de las declaraciones y asignaciones del nivel superior, con el nombre de la variable */
+  declarationValues?: boolean;
+  /** Máximo de iteraciones de un bucle síncrono (configuración avanzada de ejecución) */
+  loopIterationLimit?: number;
+  /** Tiempo máximo (ms) que puede seguir un bucle con await (configuración avanzada de ejecución) */
+  asyncLoopTimeLimit?: number;
+  /** Máximo de llamadas anidadas de una función recursiva (configuración avanzada de ejecución) */
+  recursionDepthLimit?: number;
+  /** Puntos de control del watchdog en bucles y funciones (ejecución en el hilo actual) */
+  watchdog?: boolean;
+  /** Archivos del workspace: los imports relativos se reescriben con la ruta exacta (proceso Node real) */
+  workspacePaths?: string[];
+}
+
 /**
  * Determina la configuración de Babel basada en el tipo de código
  * @param hasJSX - Si el código contiene JSX
  * @param hasTypeScript - Si el código contiene TypeScript
  * @param languageHint - Sugerencia de lenguaje desde el sistema (opcional)
+ * @param filePath - Nombre del archivo en el workspace (import.meta e imports relativos)
+ * @param options - Valores que se muestran sin console.log (scratchpad, declaraciones), límites de bucles y recursión, watchdog y rutas exactas
  * @returns Configuración de presets y plugins
  */
 const getBabelConfig = (
   hasJSX: boolean, 
   hasTypeScript: boolean, 
-  languageHint?: string
+  languageHint?: string,
+  filePath = "index.js",
+  options: TransformOptions = {}
 ) => {
   const presets: any[] = [];
   const plugins: any[] = [
-    "loop-protection",
+    [
+      "loop-protection",
+      {
+        maxIterations: options.loopIterationLimit,
+        asyncTimeLimit: options.asyncLoopTimeLimit,
+        maxRecursionDepth: options.recursionDepthLimit,
+      },
+    ],
+    ...(options.watchdog ? ["watchdog"] : []),
     "log-transform", 
-    // "stray-expression-babel", // TEMPORALMENTE DESHABILITADO para debug
+    ...(options.scratchpad ? ["stray-expression-babel"] : []),
+    ...(options.declarationValues ? ["declaration-values"] : []),
+    // Módulos ES a CommonJS: el código se evalúa con require/module/exports
+    ["import-meta", { filename: `${NODE_CWD}/${filePath}` }],
+    "transform-dynamic-import",
+    ["transform-modules-commonjs", USER_MODULES_COMMONJS_OPTIONS],
+    // Al final: ve los require que generan los plugins de módulos
+    ["module-requests", { importer: filePath, paths: options.workspacePaths }],
   ];
 
   if (hasJSX) {
@@ -215,13 +221,41 @@ function App() {
   return formatErrorForDisplay(parseError(error, "transformation"));
 };
 
+/**
+ * Resultado de la transformación con Babel
+ */
+export interface TransformResult {
+  code: string;
+  /** Source map del código transformado respecto al original */
+  map: RawSourceMap | null;
+  /** Imports relativos del código (ya como require), en el orden del código */
+  requires: string[];
+}
+
 /**
  * Transforma código JavaScript/TypeScript/JSX usando Babel
  * @param code - Código a transformar
  * @param languageHint - Sugerencia de lenguaje desde el sistema (opcional)
  * @returns Código transformado
  */
-export const transformCode = (code: string, languageHint?: string): string => {
+export const transformCode = (code: string, languageHint?: string): string =>
+  transformCodeWithMap(code, languageHint).code;
+
+/**
+ * Transforma código y conserva el source map para traducir las posiciones de
+ * los errores en tiempo de ejecución al archivo original
+ * @param code - Código a transformar
+ * @param languageHint - Sugerencia de lenguaje desde el sistema (opcional)
+ * @param filePath - Nombre del archivo en el workspace (import.meta.url)
+ * @param options - Opciones de la transformación (scratchpad, valores de declaraciones, límites de bucles y recursión, watchdog)
+ * @returns Código transformado y su source map
+ */
+export const transformCodeWithMap = (
+  code: string,
+  languageHint?: string,
+  filePath?: string,
+  options: TransformOptions = {}
+): TransformResult => {
   CodeLogger.log("info", "Iniciando transformación de código", {
     codeLength: code.length,
     languageHint,
@@ -235,25 +269,15 @@ export const transformCode = (code: string, languageHint?: string): string => {
     CodeLogger.log("warn", "Error al obtener presets disponibles", error);
   }
 
-  // Preprocesar imports para convertirlos en requires
-  const processedCode = preprocessImportsExports(code);
-
-  CodeLogger.log("info", "Código preprocesado para módulos", {
-    originalLength: code.length,
-    processedLength: processedCode.length,
-    hasImports: code.includes("import"),
-    hasExports: code.includes("export"),
-  });
-
   // Validación previa de sintaxis
-  const validation = validateSyntax(processedCode);
+  const validation = validateSyntax(code, languageHint);
   if (!validation.isValid && validation.error) {
     CodeLogger.log("error", "Error de validación de sintaxis", validation.error);
     throw new Error(formatErrorForDisplay(validation.error));
   }
 
   // Detectar automáticamente el tipo de contenido - OPTIMIZADO para eficiencia
-  const detection = detectLanguageFromContent(processedCode);
+  const detection = detectLanguageFromContent(code);
   const { hasJSX, hasTypeScript } = detection;
 
   CodeLogger.log("info", "Detección de contenido completada", {
@@ -264,7 +288,13 @@ export const transformCode = (code: string, languageHint?: string): string => {
   });
 
   // Determinar configuración de Babel
-  const { presets, plugins } = getBabelConfig(hasJSX, hasTypeScript, languageHint);
+  const { presets, plugins } = getBabelConfig(
+    hasJSX,
+    hasTypeScript,
+    languageHint,
+    filePath,
+    options
+  );
 
   try {
     CodeLogger.log("info", "Configuración final de Babel", {
@@ -276,17 +306,20 @@ export const transformCode = (code: string, languageHint?: string): string => {
       detectedLanguage: detection.languageId,
     });
 
-    // Determinar filename para babel basado en la detección de contenido, no en extensión de archivo
+    // Determinar filename para babel basado en la detección de contenido, no en
+    // extensión de archivo. El preset de TypeScript solo se aplica a archivos
+    // .ts/.tsx: la sugerencia de lenguaje también cuenta
+    const isTypeScript = hasTypeScript || languageHint === "typescript";
     let filename = "index.js";
-    if (hasJSX && hasTypeScript) {
+    if (hasJSX && isTypeScript) {
       filename = "index.tsx";
     } else if (hasJSX) {
       filename = "index.jsx";
-    } else if (hasTypeScript) {
+    } else if (isTypeScript) {
       filename = "index.ts";
     }
 
-    const result = transform(processedCode, {
+    const result = transform(code, {
       filename,
       presets,
       sourceType: "module",
@@ -314,8 +347,8 @@ export const transformCode = (code: string, languageHint?: string): string => {
         
         // Async/await y Promises optimizados
         constantSuper: true,                    // Super es constante (mejora async en clases)
-        constantReexports: true,                // Re-exports son constantes
-        enumerableModuleMeta: true,            // Meta de módulo enumerable
+        constantReexports: false,               // Re-exports con enlaces vivos (export * y export { x } from)
+        enumerableModuleMeta: false,           // __esModule no aparece en Object.keys del namespace
         
         // Iteradores y generadores
         iterableIsArray: false,                 // No asumir que iterables son arrays (importante para generadores)
@@ -359,7 +392,12 @@ export const transformCode = (code: string, languageHint?: string): string => {
       usedFilename: filename,
     });
 
-    return result.code;
+    const metadata = result.metadata as ModuleRequestsState["file"]["metadata"] | undefined;
+    return {
+      code: result.code,
+      map: (result.map as RawSourceMap | null | undefined) ?? null,
+      requires: metadata?.requires ?? [],
+    };
   } catch (error: any) {
     const errorInfo = parseError(error, "transformation");
     CodeLogger.log("error", "Error durante transformación", errorInfo);
@@ -368,4 +406,72 @@ export const transformCode = (code: string, languageHint?: string): string => {
       generateSpecificErrorMessage(error, hasJSX, hasTypeScript, presets, code)
     );
   }
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Transforma los archivos del workspace que importa el código de entrada
+ * (directa o indirectamente), una sola vez cada uno
+ * @param entryRequires - Imports relativos del archivo de entrada (TransformResult.requires)
+ * @param workspace - Archivos disponibles
+ * @param options - Opciones que también se aplican a los módulos (límites de bucles y recursión, watchdog y rutas exactas)
+ * @returns Módulos transformados por nombre de archivo
+ */
+export const transformWorkspaceModules = (
+  entryRequires: string[],
+  workspace: WorkspaceSource,
+  options: Pick<
+    TransformOptions,
+    "loopIterationLimit" | "asyncLoopTimeLimit" | "recursionDepthLimit" | "watchdog" | "workspacePaths"
+  > = {}
+): Record<string, WorkspaceModule> => {
+  const modules: Record<string, WorkspaceModule> = {};
+  const paths = [...Object.keys(workspace.files), workspace.entryPath];
+  const pending = [{ importer: workspace.entryPath, requires: entryRequires }];
+
+  while (pending.length > 0) {
+    const { importer, requires } = pending.shift()!;
+
+    for (const specifier of requires) {
+      const path = resolveModulePath(importer, specifier, paths);
+      if (!path) {
+        throw new Error(`Cannot find module '${specifier}' (importado desde '${importer}')`);
+      }
+      if (path === workspace.entryPath || modules[path]) continue;
+
+      const languageHint = /\.tsx?$/.test(path) ? "typescript" : "javascript";
+      try {
+        const result = transformCodeWithMap(workspace.files[path], languageHint, path, options);
+        modules[path] = { code: result.code, sourceMap: result.map ?? undefined, requires: result.requires };
+      } catch (error: any) {
+        throw new Error(`Error en '${path}' (importado desde '${importer}'): ${error.message}`);
+      }
+
+      pending.push({ importer: path, requires: modules[path].requires });
+    }
+  }
+
+  return modules;
+};
+
+/**
+ * Convierte un archivo ESM de un paquete npm a CommonJS para poder evaluarlo
+ * con require. Los archivos que ya son CommonJS se devuelven sin cambios
+ * @param code - Contenido del archivo
+ * @returns Código CommonJS
+ */
+export const transformModuleToCommonJS = (code: string): string => {
+  if (!/^\s*(import|export)\b/m.test(code)) return code;
+
+  try {
+    const result = transform(code, {
+      sourceType: "module",
+      compact: false,
+      comments: false,
+      plugins: ["transform-modules-commonjs"],
+    });
+    return result?.code ?? code;
+  } catch (error) {
+    CodeLogger.log("warn", "No se pudo convertir el módulo a CommonJS", error);
+    return code;
+  }
+};
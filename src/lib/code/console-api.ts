@@ -13,20 +13,18 @@ interface ExtendedConsole extends Console {
   };
 }
 
-/**
- * Almacén interno para contadores y timers
- */
-const internalStorage = {
-  counters: new Map<string, number>(),
-  timers: new Map<string, number>(),
-  groups: [] as string[],
-};
-
 /**
  * Crea una API de console personalizada con todos los métodos estándar y experimentales según MDN
  * @returns Objeto console personalizado completamente compatible con MDN Web API
  */
 export const createCustomConsole = () => {
+  // Almacén interno para contadores y timers; cada contexto de ejecución tiene el suyo
+  const internalStorage = {
+    counters: new Map<string, number>(),
+    timers: new Map<string, number>(),
+    groups: [] as string[],
+  };
+
   return {
     // ===============================
     // MÉTODOS BÁSICOS DE LOGGING
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { transformCodeWithMap } from "./code-transformer";
+import { executeTransformedCode } from "./executor";
+
+/**
+ * Transforma y ejecuta un fragmento con el mismo pipeline del editor
+ * (log-babel → debug → processResult)
+ */
+const run = async (code: string) => {
+  const { code: transformedCode } = transformCodeWithMap(code);
+  const results = await executeTransformedCode(transformedCode);
+  return results.map(({ lineNumber, method, type, element, group, groupId, groupDepth }) => ({
+    lineNumber,
+    method,
+    type,
+    content: element.content,
+    group,
+    groupId,
+    groupDepth,
+  }));
+};
+
+describe("console.count", () => {
+  it("cuenta por etiqueta con el formato de Node", async () => {
+    const results = await run(
+      [`console.count();`, `console.count("a");`, `console.count();`].join("\n")
+    );
+
+    expect(results.map(({ content }) => content)).toEqual([
+      "default: 1",
+      "a: 1",
+      "default: 2",
+    ]);
+    expect(results.map(({ lineNumber }) => lineNumber)).toEqual([1, 2, 3]);
+  });
+
+  it("reinicia el contador con countReset", async () => {
+    const results = await run(
+      [`console.count("x");`, `console.countReset("x");`, `console.count("x");`].join("\n")
+    );
+
+    expect(results.map(({ content }) => content)).toEqual(["x: 1", "x: 1"]);
+  });
+
+  it("avisa al reiniciar un contador que no existe", async () => {
+    const [result] = await run(`console.countReset("nada");`);
+
+    expect(result).toMatchObject({
+      method: "warn",
+      type: "warning",
+      content: "Count for 'nada' does not exist",
+    });
+  });
+
+  it("empieza de cero en cada ejecución", async () => {
+    const code = `console.count("x");`;
+    await run(code);
+    const [result] = await run(code);
+
+    expect(result.content).toBe("x: 1");
+  });
+});
+
+describe("console.time", () => {
+  it("muestra el tiempo transcurrido con timeLog y timeEnd", async () => {
+    const results = await run(
+      [`console.time("t");`, `console.timeLog("t");`, `console.timeEnd("t");`].join("\n")
+    );
+
+    expect(results).toHaveLength(2);
+    expect(results[0]).toMatchObject({ method: "timeLog", lineNumber: 2 });
+    expect(results[0].content).toMatch(/^t: \d+\.\d{3}ms$/);
+    expect(results[1]).toMatchObject({ method: "timeEnd", lineNumber: 3 });
+    expect(results[1].content).toMatch(/^t: \d+\.\d{3}ms$/);
+  });
+
+  it("muestra los datos de timeLog junto al tiempo", async () => {
+    const results = await run([`console.time("t");`, `console.timeLog("t", "paso", 2);`].join("\n"));
+
+    expect(results[0].content).toMatch(/^t: \d+\.\d{3}ms "paso" 2$/);
+  });
+
+  it("avisa al terminar un timer que no existe o que ya terminó", async () => {
+    const results = await run(
+      [`console.time("t");`, `console.timeEnd("t");`, `console.timeEnd("t");`].join("\n")
+    );
+
+    expect(results[1]).toMatchObject({
+      method: "warn",
+      lineNumber: 3,
+      content: "Timer 't' does not exist",
+    });
+  });
+
+  it("avisa al iniciar un timer que ya existe", async () => {
+    const results = await run([`console.time();`, `console.time();`].join("\n"));
+
+    expect(results).toEqual([
+      expect.objectContaining({ method: "warn", content: "Timer 'default' already exists" }),
+    ]);
+  });
+});
+
+describe("console.group", () => {
+  it("agrupa las salidas hasta groupEnd", async () => {
+    const results = await run(
+      [
+        `console.group("G");`,
+        `console.log("dentro");`,
+        `console.groupCollapsed("H");`,
+        `console.log("más adentro");`,
+        `console.groupEnd();`,
+        `console.groupEnd();`,
+        `console.log("fuera");`,
+      ].join("\n")
+    );
+
+    expect(results).toEqual([
+      expect.objectContaining({ content: "G", group: { id: "group-1", collapsed: false }, groupDepth: 0 }),
+      expect.objectContaining({ content: '"dentro"', groupId: "group-1", groupDepth: 1 }),
+      expect.objectContaining({ content: "H", group: { id: "group-2", collapsed: true }, groupId: "group-1" }),
+      expect.objectContaining({ content: '"más adentro"', groupId: "group-2", groupDepth: 2 }),
+      expect.objectContaining({ content: '"fuera"', groupId: undefined, groupDepth: 0 }),
+    ]);
+  });
+
+  it("muestra el título por defecto y los datos adicionales del grupo", async () => {
+    const results = await run([`console.group();`, `console.groupEnd();`, `console.group("Lista", 3);`].join("\n"));
+
+    expect(results.map(({ content }) => content)).toEqual(["console.group", "Lista 3"]);
+  });
+});
+
+describe("console.assert", () => {
+  it("no muestra nada si la condición se cumple", async () => {
+    expect(await run(`console.assert(1 === 1, "no se muestra");`)).toEqual([]);
+  });
+
+  it("muestra el mensaje como error si la condición falla", async () => {
+    const results = await run(
+      [`console.assert(false, "falló");`, `console.assert(1 === 2);`].join("\n")
+    );
+
+    expect(results).toEqual([
+      expect.objectContaining({ method: "assert", lineNumber: 1, content: "Assertion failed: falló" }),
+      expect.objectContaining({ method: "assert", lineNumber: 2, content: "Assertion failed" }),
+    ]);
+  });
+});
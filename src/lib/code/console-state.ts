@@ -0,0 +1,88 @@
+/**
+ * Estado de console.count / console.time* para una ejecución (y el filtro de
+ * console.assert, que solo produce salida cuando la condición falla).
+ *
+ * log-babel redirige estas llamadas a debug(), así que el estado vive en el
+ * pipeline de resultados: se crea uno nuevo por ejecución y la salida sigue el
+ * formato de Node/navegadores ("label: 12.345ms", "label: 3"), como texto
+ * sin comillas.
+ */
+
+export interface ConsoleCall {
+  method: string;
+  args: any[];
+  /** El primer argumento es texto del propio console (no un valor del código): se muestra sin comillas */
+  text?: boolean;
+}
+
+const DEFAULT_LABEL = "default";
+
+/**
+ * Formatea una duración como lo hace Node (ms con 3 decimales, o segundos)
+ */
+export const formatDuration = (ms: number): string =>
+  ms >= 1000 ? `${(ms / 1000).toFixed(3)}s` : `${ms.toFixed(3)}ms`;
+
+/**
+ * Crea el estado de contadores y timers de una ejecución
+ * @returns Función que traduce una llamada de console a la salida que debe
+ * mostrarse, o null si la llamada no produce salida
+ */
+export const createConsoleState = () => {
+  const counters = new Map<string, number>();
+  const timers = new Map<string, number>();
+
+  const warn = (message: string): ConsoleCall => ({ method: "warn", args: [message], text: true });
+
+  return (method: string, args: any[]): ConsoleCall | null => {
+    const label = args[0] === undefined ? DEFAULT_LABEL : String(args[0]);
+
+    switch (method) {
+      case "count": {
+        const count = (counters.get(label) || 0) + 1;
+        counters.set(label, count);
+        return { method, args: [`${label}: ${count}`], text: true };
+      }
+
+      case "countReset":
+        if (!counters.has(label)) {
+          return warn(`Count for '${label}' does not exist`);
+        }
+        counters.set(label, 0);
+        return null;
+
+      case "time":
+        if (timers.has(label)) {
+          return warn(`Timer '${label}' already exists`);
+        }
+        timers.set(label, performance.now());
+        return null;
+
+      case "timeLog":
+      case "timeEnd": {
+        const start = timers.get(label);
+        if (start === undefined) {
+          return warn(`Timer '${label}' does not exist`);
+        }
+        if (method === "timeEnd") {
+          timers.delete(label);
+        }
+        const elapsed = `${label}: ${formatDuration(performance.now() - start)}`;
+        // timeLog acepta datos adicionales que se muestran junto al tiempo
+        return { method, args: method === "timeLog" ? [elapsed, ...args.slice(1)] : [elapsed], text: true };
+      }
+
+      case "assert": {
+        const [condition, ...data] = args;
+        if (condition) return null;
+        // Como en Node: el mensaje se une al primer dato si es texto
+        return typeof data[0] === "string"
+          ? { method, args: [`Assertion failed: ${data[0]}`, ...data.slice(1)], text: true }
+          : { method, args: ["Assertion failed", ...data], text: true };
+      }
+
+      default:
+        return { method, args };
+    }
+  };
+};
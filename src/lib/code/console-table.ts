@@ -0,0 +1,140 @@
+/**
+ * Construcción de datos tabulares para console.table.
+ *
+ * Se ejecuta donde corre el código del usuario (renderer o worker) y produce
+ * una estructura serializable que el panel de resultados dibuja como tabla.
+ */
+
+import type { ConsoleTableData } from "./types";
+
+// Nombres de columnas especiales, igual que en las DevTools
+export const TABLE_INDEX_COLUMN = "(index)";
+export const TABLE_VALUE_COLUMN = "Value";
+
+const MAX_TABLE_ROWS = 1000;
+
+/**
+ * Representación corta de un valor dentro de una celda (los anidados se colapsan)
+ */
+const formatCell = (value: unknown): string => {
+  if (value === null) return "null";
+  if (value === undefined) return "undefined";
+
+  switch (typeof value) {
+    case "string":
+      return value;
+    case "number":
+    case "boolean":
+      return String(value);
+    case "bigint":
+      return `${value}n`;
+    case "symbol":
+      return value.toString();
+    case "function":
+      return `ƒ ${(value as Function).name || "anonymous"}()`;
+  }
+
+  if (Array.isArray(value)) return `Array(${value.length})`;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Map) return `Map(${value.size})`;
+  if (value instanceof Set) return `Set(${value.size})`;
+
+  const name = (value as object).constructor?.name;
+  return name && name !== "Object" ? `${name} {…}` : "{…}";
+};
+
+/**
+ * Obtiene las filas [índice, valor] de los datos recibidos por console.table
+ */
+const getRows = (data: any): Array<[string, unknown]> => {
+  if (data instanceof Map) {
+    return Array.from(data.entries()).map(([key, value], i) => [String(i), { Key: key, Values: value }]);
+  }
+  if (data instanceof Set) {
+    return Array.from(data.values()).map((value, i) => [String(i), value]);
+  }
+  if (Array.isArray(data)) {
+    return data.map((value, i) => [String(i), value]);
+  }
+  return Object.keys(data).map((key) => [key, data[key]]);
+};
+
+/**
+ * Convierte los argumentos de console.table en datos de tabla
+ * @param data - Datos a tabular
+ * @param columns - Columnas a mostrar (opcional, en el orden indicado)
+ * @returns Datos de la tabla, o null si el valor no es tabulable (se muestra como log)
+ */
+export const buildTableData = (data: unknown, columns?: unknown): ConsoleTableData | null => {
+  if (data === null || typeof data !== "object") return null;
+
+  const allRows = getRows(data);
+  const rows = allRows.slice(0, MAX_TABLE_ROWS);
+  const requestedColumns = Array.isArray(columns) ? columns.map(String) : null;
+
+  const keyColumns: string[] = requestedColumns ? [...requestedColumns] : [];
+  let hasValueColumn = false;
+
+  const tableRows = rows.map(([index, value]) => {
+    const cells: Record<string, string> = {};
+
+    if (value !== null && typeof value === "object") {
+      for (const key of Object.keys(value)) {
+        if (requestedColumns && !requestedColumns.includes(key)) continue;
+        if (!keyColumns.includes(key)) keyColumns.push(key);
+        cells[key] = formatCell((value as Record<string, unknown>)[key]);
+      }
+    } else {
+      hasValueColumn = true;
+      cells[TABLE_VALUE_COLUMN] = formatCell(value);
+    }
+
+    return { index, cells };
+  });
+
+  return {
+    columns: hasValueColumn && !requestedColumns ? [...keyColumns, TABLE_VALUE_COLUMN] : keyColumns,
+    rows: tableRows,
+    truncated: allRows.length > rows.length,
+  };
+};
+
+/**
+ * Escapa un valor para CSV
+ */
+const escapeCSV = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Escapa un valor para una celda de tabla Markdown
+ */
+const escapeMarkdown = (value: string): string =>
+  value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+
+/**
+ * Exporta una tabla como CSV
+ * @param table - Datos de la tabla
+ * @returns Texto CSV con la columna de índice incluida
+ */
+export const tableToCSV = (table: ConsoleTableData): string => {
+  const header = [TABLE_INDEX_COLUMN, ...table.columns].map(escapeCSV).join(",");
+  const lines = table.rows.map((row) =>
+    [row.index, ...table.columns.map((column) => row.cells[column] ?? "")].map(escapeCSV).join(",")
+  );
+  return [header, ...lines].join("\n");
+};
+
+/**
+ * Exporta una tabla como Markdown
+ * @param table - Datos de la tabla
+ * @returns Tabla en formato Markdown
+ */
+export const tableToMarkdown = (table: ConsoleTableData): string => {
+  const header = [TABLE_INDEX_COLUMN, ...table.columns].map(escapeMarkdown);
+  const lines = table.rows.map((row) =>
+    [row.index, ...table.columns.map((column) => row.cells[column] ?? "")].map(escapeMarkdown)
+  );
+  return [header, header.map(() => "---"), ...lines]
+    .map((cells) => `| ${cells.join(" | ")} |`)
+    .join("\n");
+};
@@ -0,0 +1,212 @@
+/**
+ * Utilidades de errores sin dependencias de Babel.
+ *
+ * Se separan de errorHandler para poder usarlas dentro del Web Worker del
+ * sandbox sin arrastrar el transformador ni los detectores.
+ */
+
+import { type ErrorInfo } from "../../context/CodeContext";
+import { originalPositionFor, type RawSourceMap, type SourcePosition } from "./source-map";
+
+export type { ErrorInfo } from "../../context/CodeContext";
+
+// Líneas que el constructor de AsyncFunction antepone al código del usuario
+const FUNCTION_HEADER_LINES = 2;
+
+// Marcos del código del usuario: <anonymous> en Chromium, "> AsyncFunction" en Firefox
+const USER_FRAME_PATTERNS = [/<anonymous>:(\d+):(\d+)/g, /> (?:Async)?Function:(\d+):(\d+)/g];
+
+/**
+ * Traduce una posición de un marco del stack a la del código del usuario
+ * @param line - Línea dentro de la función creada con AsyncFunction
+ * @param column - Columna dentro de esa línea
+ * @param sourceMap - Source map de la transformación (si no hay, se devuelve la posición transformada)
+ */
+const toUserPosition = (line: number, column: number, sourceMap?: RawSourceMap): SourcePosition | null => {
+  const generatedLine = line - FUNCTION_HEADER_LINES;
+  if (generatedLine <= 0) return null;
+  if (!sourceMap) return { line: generatedLine, column };
+  return originalPositionFor(sourceMap, generatedLine, column);
+};
+
+/**
+ * Busca en un stack trace la primera posición dentro del código del usuario
+ * @param stack - Stack trace del error
+ * @param sourceMap - Source map para volver al código original (opcional)
+ * @returns Línea y columna, o null si no hay marcos del usuario
+ */
+export function getUserCodeLocation(stack?: string, sourceMap?: RawSourceMap): SourcePosition | null {
+  if (!stack) return null;
+  for (const pattern of USER_FRAME_PATTERNS) {
+    const match = stack.match(new RegExp(pattern.source));
+    if (match) return toUserPosition(parseInt(match[1]), parseInt(match[2]), sourceMap);
+  }
+  return null;
+}
+
+/**
+ * Reescribe los marcos del código del usuario con posiciones del archivo original
+ * @param stack - Stack trace del error
+ * @param sourceMap - Source map de la transformación
+ * @returns Stack con "archivo:línea:columna" en lugar de las posiciones transformadas
+ */
+export function remapUserStack(stack: string, sourceMap: RawSourceMap): string {
+  return USER_FRAME_PATTERNS.reduce(
+    (result, pattern) =>
+      result.replace(pattern, (frame, line: string, column: string) => {
+        const position = toUserPosition(parseInt(line), parseInt(column), sourceMap);
+        if (!position) return frame;
+        return `${position.source || sourceMap.file || "<anonymous>"}:${position.line}:${position.column}`;
+      }),
+    stack
+  );
+}
+
+// Utilidad para extraer información de errores
+// (con sourceMap, las posiciones de errores en tiempo de ejecución se traducen al código original)
+export function parseError(error: any, phase: ErrorInfo['phase'], sourceMap?: RawSourceMap): ErrorInfo {
+  const errorMessage = error.message || error.toString();
+  
+  // Detectar tipo de error
+  let errorType: ErrorInfo['type'] = 'Error';
+  if (error instanceof SyntaxError || errorMessage.includes('SyntaxError')) {
+    errorType = 'SyntaxError';
+  } else if (error instanceof ReferenceError || errorMessage.includes('ReferenceError')) {
+    errorType = 'ReferenceError';
+  } else if (error instanceof TypeError || errorMessage.includes('TypeError')) {
+    errorType = 'TypeError';
+  } else if (error instanceof RangeError || errorMessage.includes('RangeError')) {
+    errorType = 'RangeError';
+  }
+
+  // Extraer línea y columna del error si está disponible
+  let line: number | undefined;
+  let column: number | undefined;
+  
+  if (error.loc) {
+    line = error.loc.line;
+    column = error.loc.column;
+  } else if (error.lineNumber) {
+    line = error.lineNumber;
+    column = error.columnNumber;
+  } else {
+    // Intentar extraer de mensaje de error de Babel
+    const lineMatch = errorMessage.match(/\((\d+):(\d+)\)/);
+    if (lineMatch) {
+      line = parseInt(lineMatch[1]);
+      column = parseInt(lineMatch[2]);
+    } else if (phase === 'execution') {
+      // Errores en tiempo de ejecución: usar el stack trace del código del usuario
+      const location = getUserCodeLocation(error.stack, sourceMap);
+      line = location?.line;
+      column = location?.column;
+    }
+  }
+
+  return {
+    type: errorType,
+    message: cleanErrorMessage(errorMessage),
+    line,
+    column,
+    stack: sourceMap && typeof error.stack === 'string' ? remapUserStack(error.stack, sourceMap) : error.stack,
+    phase,
+  };
+}
+
+// Limpiar mensajes de error para mostrar solo lo relevante
+function cleanErrorMessage(message: string): string {
+  // Remover rutas de archivo de los errores de Babel
+  let cleanMessage = message.replace(/\/index\.ts: /, '');
+  
+  // Remover información de posición redundante si ya la tenemos
+  cleanMessage = cleanMessage.replace(/\(\d+:\d+\)/, '').trim();
+  
+  // Limpiar mensaje de timeout
+  if (cleanMessage.includes('Execution timeout:')) {
+    cleanMessage = cleanMessage.replace('Execution timeout: ', '');
+  }
+  
+  // Asegurar que termine con punto
+  if (!cleanMessage.endsWith('.')) {
+    cleanMessage += '.';
+  }
+  
+  return cleanMessage;
+}
+
+// Crear mensaje de error formateado para mostrar al usuario
+export function formatErrorForDisplay(errorInfo: ErrorInfo): string {
+  const prefix = getErrorPrefix(errorInfo.type, errorInfo.message);
+  const location = errorInfo.line ? ` (línea ${errorInfo.line}${errorInfo.column ? `:${errorInfo.column}` : ''})` : '';
+  
+  const asyncTag = errorInfo.async ? '[async] ' : '';
+  
+  return `${asyncTag}${prefix}${errorInfo.message}${location}`;
+}
+
+// Obtener prefijo con emoji para diferentes tipos de error
+function getErrorPrefix(errorType: ErrorInfo['type'], message?: string): string {
+  // Manejo especial para timeouts
+  if (message && message.includes('tardó demasiado')) {
+    return '⏱️ Timeout: ';
+  }
+  
+  // Manejo especial para bucles infinitos
+  if (message && (message.includes('Bucle detenido') || message.includes('bucle infinito'))) {
+    return '🔄 Loop Error: ';
+  }
+
+  if (message && message.includes('Recursión detenida')) {
+    return '🌀 Recursion Error: ';
+  }
+  
+  switch (errorType) {
+    case 'SyntaxError':
+      return '🚫 SyntaxError: ';
+    case 'ReferenceError':
+      return '❓ ReferenceError: ';
+    case 'TypeError':
+      return '🔢 TypeError: ';
+    case 'RangeError':
+      return '📊 RangeError: ';
+    default:
+      return '❌ Error: ';
+  }
+}
+
+// Logger para depuración
+export class CodeLogger {
+  private static logs: Array<{
+    timestamp: Date;
+    level: 'info' | 'warn' | 'error';
+    message: string;
+    details?: any;
+  }> = [];
+
+  static log(level: 'info' | 'warn' | 'error', message: string, details?: any) {
+    this.logs.push({
+      timestamp: new Date(),
+      level,
+      message,
+      details,
+    });
+
+    // Limitar el número de logs almacenados
+    if (this.logs.length > 100) {
+      this.logs = this.logs.slice(-50);
+    }
+
+    // Log en consola durante desarrollo
+    if (typeof process !== 'undefined' && process.env.NODE_ENV === 'development') {
+      console[level](`[JSRunner] ${message}`, details || '');
+    }
+  }
+
+  static getLogs() {
+    return [...this.logs];
+  }
+
+  static clearLogs() {
+    this.logs = [];
+  }
+} 
\ No newline at end of file
@@ -15,6 +15,12 @@
  */
 
 import { EXECUTION_ENGINE_CONFIG } from '../../constants/config';
+import { run } from './run';
+import { isReactPreviewCode } from './react-preview';
+import type { Result } from './types';
+import type { WorkspaceSource } from './workspace-modules';
+import type { NodeEnvironmentOptions } from '../node';
+import type { TransformOptions } from './code-transformer';
 
 interface ExecutionMetrics {
   executionTime: number;
@@ -26,7 +32,7 @@ interface ExecutionMetrics {
   timestamp: number;
 }
 
-interface ExecutionResult {
+export interface ExecutionResult {
   id: string;
   code: string;
   result: any;
@@ -79,6 +85,8 @@ interface ExecutionConfig {
   enableMetrics: boolean;
   securityLevel: 'low' | 'medium' | 'high';
   loopIterationLimit: number;
+  asyncLoopTimeLimit: number;
+  recursionDepthLimit: number;
   asyncWaitTime: number;
   promiseTimeout: number;
 }
@@ -87,6 +95,7 @@ class ExecutionQueue {
   private queue: Array<{
     id: string;
     execute: () => Promise<ExecutionResult>;
+    reject: (reason: Error) => void;
     priority: number;
     timestamp: number;
   }> = [];
@@ -112,6 +121,7 @@ class ExecutionQueue {
             throw error;
           }
         },
+        reject,
         priority,
         timestamp: Date.now()
       });
@@ -158,13 +168,19 @@ class ExecutionQueue {
     // Remover de la queue si aún no se ejecutó
     const index = this.queue.findIndex(task => task.id === id);
     if (index !== -1) {
-      this.queue.splice(index, 1);
+      const [task] = this.queue.splice(index, 1);
+      task.reject(new Error('Execution cancelled'));
       return true;
     }
     
     return false;
   }
 
+  cancelAll(): void {
+    const pending = this.queue.splice(0);
+    pending.forEach(task => task.reject(new Error('Execution cancelled')));
+  }
+
   getStats() {
     return {
       queued: this.queue.length,
@@ -174,6 +190,31 @@ class ExecutionQueue {
   }
 }
 
+/**
+ * Indica si el resultado de una ejecución se puede reutilizar: las vistas
+ * previas de React se montan al ejecutar y un proceso Node real puede
+ * depender del sistema, la red o el reloj
+ */
+const isCacheable = (code: string, node?: NodeEnvironmentOptions): boolean =>
+  !isReactPreviewCode(code) && !node?.childProcess;
+
+/**
+ * Clave de cache de una ejecución: con imports entre archivos el resultado
+ * también depende del contenido de los demás archivos del workspace, en
+ * modo Node de los archivos que lee fs y de los valores que agrega la
+ * transformación (scratchpad, declaraciones)
+ */
+const getCacheKey = (
+  code: string,
+  workspace?: WorkspaceSource,
+  node?: NodeEnvironmentOptions,
+  transform?: TransformOptions
+): string => {
+  let key = workspace ? `${code}\u0000${JSON.stringify(workspace.files)}` : code;
+  if (node) key = `${key}\u0000node\u0000${JSON.stringify(node)}`;
+  return transform ? `${key}\u0000transform\u0000${JSON.stringify(transform)}` : key;
+};
+
 class ExecutionCache {
   private cache = new Map<string, CacheEntry>();
   private maxSize: number;
@@ -364,6 +405,8 @@ export class ExecutionEngine {
       enableMetrics: true,
       securityLevel: 'medium',
       loopIterationLimit: 1000,
+      asyncLoopTimeLimit: 10000,
+      recursionDepthLimit: 5000,
       asyncWaitTime: 100,
       promiseTimeout: 5000,
       ...config
@@ -373,14 +416,43 @@ export class ExecutionEngine {
     this.queue = new ExecutionQueue(this.config.maxConcurrentExecutions);
   }
 
-  async execute(code: string, options: { priority?: number; bypassCache?: boolean } = {}): Promise<ExecutionResult> {
-    const executionId = crypto.randomUUID();
+  /**
+   * Ejecuta código a través de la cola
+   * @param options.id - Id de la ejecución; permite cancelarla antes de que termine
+   * @param options.bypassCache - Ejecutar siempre, sin leer ni guardar el resultado en cache
+   * @param options.onResult - Recibe cada resultado en cuanto se produce (no aplica a resultados en cache)
+   * @param options.workspace - Archivos del workspace para resolver imports relativos
+   * @param options.node - Ejecutar en modo Node (fs en memoria, path, events...)
+   * @param options.transform - Valores que se muestran sin console.log (scratchpad, declaraciones)
+   */
+  async execute(
+    code: string,
+    options: {
+      priority?: number;
+      bypassCache?: boolean;
+      id?: string;
+      onResult?: (result: Result) => void;
+      workspace?: WorkspaceSource;
+      node?: NodeEnvironmentOptions;
+      transform?: TransformOptions;
+    } = {}
+  ): Promise<ExecutionResult> {
+    const executionId = options.id || crypto.randomUUID();
     const startTime = performance.now();
+    // Los límites de bucles y recursión vienen de la configuración avanzada
+    const transform: TransformOptions = {
+      ...options.transform,
+      loopIterationLimit: this.config.loopIterationLimit,
+      asyncLoopTimeLimit: this.config.asyncLoopTimeLimit,
+      recursionDepthLimit: this.config.recursionDepthLimit,
+    };
+
+    const useCache = this.config.enableCache && !options.bypassCache && isCacheable(code, options.node);
 
     try {
       // Verificar cache primero (si está habilitado)
-      if (this.config.enableCache && !options.bypassCache) {
-        const cached = this.cache.get(code);
+      if (useCache) {
+        const cached = this.cache.get(getCacheKey(code, options.workspace, options.node, transform));
         if (cached) {
           return {
             id: executionId,
@@ -412,7 +484,18 @@ export class ExecutionEngine {
       // Agregar a la queue para ejecución
       return await this.queue.add(
         executionId,
-        () => this.executeCode(executionId, code, complexity, adaptiveTimeout),
+        () =>
+          this.executeCode(
+            executionId,
+            code,
+            complexity,
+            adaptiveTimeout,
+            options.onResult,
+            options.workspace,
+            options.node,
+            transform,
+            useCache
+          ),
         options.priority || 0
       );
 
@@ -433,7 +516,7 @@ export class ExecutionEngine {
           errorCount: 1,
           timestamp: Date.now()
         },
-        status: 'error',
+        status: error instanceof Error && error.message === 'Execution cancelled' ? 'cancelled' : 'error',
         duration,
         fromCache: false
       };
@@ -444,23 +527,50 @@ export class ExecutionEngine {
     id: string, 
     code: string, 
     complexity: CodeComplexityAnalysis, 
-    timeout: number
+    timeout: number,
+    onResult?: (result: Result) => void,
+    workspace?: WorkspaceSource,
+    node?: NodeEnvironmentOptions,
+    transform?: TransformOptions,
+    useCache = false
   ): Promise<ExecutionResult> {
     const startTime = performance.now();
     const controller = new AbortController();
     this.activeExecutions.set(id, controller);
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
 
     try {
-      // Crear timeout promise
+      // Crear timeout promise; al vencer también se aborta la ejecución para
+      // que no siga corriendo en segundo plano. El trabajo asíncrono pendiente
+      // puede mantener viva la ejecución hasta asyncWaitTime adicionales. El
+      // proceso Node real tiene su propio límite: el motor espera a que lo informe
+      const runTimeLimit = node?.childProcess ? EXECUTION_ENGINE_CONFIG.NODE_PROCESS_TIME_LIMIT : timeout;
+      const hardTimeout = runTimeLimit + this.config.asyncWaitTime;
       const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Execution timeout')), timeout);
+        timeoutId = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+          reject(new Error('Execution timeout'));
+        }, hardTimeout);
       });
 
-      // Promise de ejecución actual (simulando la ejecución real)
-      const executionPromise = this.runCodeInSandbox(code, controller.signal);
+      const executionPromise = this.runCodeInSandbox(
+        code,
+        controller.signal,
+        hardTimeout,
+        onResult,
+        workspace,
+        node,
+        transform
+      );
 
       // Race entre ejecución y timeout
       const result = await Promise.race([executionPromise, timeoutPromise]);
+
+      if (controller.signal.aborted) {
+        throw new Error(timedOut ? 'Execution timeout' : 'Execution cancelled');
+      }
       
       const duration = performance.now() - startTime;
       
@@ -474,9 +584,11 @@ export class ExecutionEngine {
         timestamp: Date.now()
       };
 
-      // Guardar en cache si está habilitado
-      if (this.config.enableCache) {
-        this.cache.set(code, result, metrics, this.config.cacheTTL);
+      // Guardar en cache si la ejecución la usa. Los resultados con nodos del
+      // inspector apuntan a objetos vivos de esta ejecución y no se reutilizan
+      const hasLiveObjects = Array.isArray(result) && result.some((item: Result) => item.inspect);
+      if (useCache && !hasLiveObjects) {
+        this.cache.set(getCacheKey(code, workspace, node, transform), result, metrics, this.config.cacheTTL);
       }
 
       // Guardar métricas
@@ -513,29 +625,48 @@ export class ExecutionEngine {
           errorCount: 1,
           timestamp: Date.now()
         },
-        status: controller.signal.aborted ? 'cancelled' : 
-                errorMessage.includes('timeout') ? 'timeout' : 'error',
+        status: timedOut || errorMessage.includes('timeout') ? 'timeout' :
+                controller.signal.aborted ? 'cancelled' : 'error',
         duration,
         fromCache: false
       };
     } finally {
+      clearTimeout(timeoutId);
       this.activeExecutions.delete(id);
     }
   }
 
-  private async runCodeInSandbox(code: string, signal: AbortSignal): Promise<any> {
-    // Aquí integrarías con el sistema de ejecución actual
-    // Por ahora, simulamos la ejecución
-    return new Promise((resolve) => {
-      if (signal.aborted) {
-        throw new Error('Execution cancelled');
-      }
-      
-      // Simular trabajo asíncrono
-      setTimeout(() => {
-        resolve({ output: `Resultado de: ${code}` });
-      }, Math.random() * 1000);
+  private async runCodeInSandbox(
+    code: string,
+    signal: AbortSignal,
+    timeout: number,
+    onResult?: (result: Result) => void,
+    workspace?: WorkspaceSource,
+    node?: NodeEnvironmentOptions,
+    transform?: TransformOptions
+  ): Promise<any> {
+    if (signal.aborted) {
+      throw new Error('Execution cancelled');
+    }
+
+    // Con workers habilitados el código corre fuera del renderer y el worker
+    // se termina al alcanzar el timeout, incluso si el código es síncrono
+    const results = await run(code, undefined, {
+      useWorker: this.config.enableWorkers,
+      timeout,
+      asyncWaitTime: this.config.asyncWaitTime,
+      signal,
+      onResult,
+      workspace,
+      node,
+      transform,
     });
+
+    if (results instanceof Error) {
+      throw results;
+    }
+
+    return results;
   }
 
   private categorizeError(error: any): ExecutionError {
@@ -608,6 +739,7 @@ export class ExecutionEngine {
       controller.abort();
     }
     this.activeExecutions.clear();
+    this.queue.cancelAll();
   }
 
   getMetrics() {
@@ -643,6 +775,8 @@ export const globalExecutionEngine = new ExecutionEngine({
   enableMetrics: EXECUTION_ENGINE_CONFIG.ENABLE_METRICS,
   securityLevel: EXECUTION_ENGINE_CONFIG.SECURITY_LEVEL,
   loopIterationLimit: EXECUTION_ENGINE_CONFIG.LOOP_ITERATION_LIMIT,
+  asyncLoopTimeLimit: EXECUTION_ENGINE_CONFIG.ASYNC_LOOP_TIME_LIMIT,
+  recursionDepthLimit: EXECUTION_ENGINE_CONFIG.RECURSION_DEPTH_LIMIT,
   asyncWaitTime: EXECUTION_ENGINE_CONFIG.ASYNC_WAIT_TIME,
   promiseTimeout: EXECUTION_ENGINE_CONFIG.PROMISE_TIMEOUT,
 });
@@ -659,6 +793,8 @@ export const syncEngineWithDynamicConfig = (dynamicConfig: {
     enableSecurityChecks: boolean;
     memoryLimit: number;
     loopIterationLimit: number;
+    asyncLoopTimeLimit: number;
+    recursionDepthLimit: number;
     asyncWaitTime: number;
     promiseTimeout: number;
   };
@@ -676,6 +812,8 @@ export const syncEngineWithDynamicConfig = (dynamicConfig: {
     enableMetrics: dynamicConfig.execution.enableMetrics,
     securityLevel: dynamicConfig.globalContext.sandboxLevel,
     loopIterationLimit: dynamicConfig.execution.loopIterationLimit,
+    asyncLoopTimeLimit: dynamicConfig.execution.asyncLoopTimeLimit,
+    recursionDepthLimit: dynamicConfig.execution.recursionDepthLimit,
     asyncWaitTime: dynamicConfig.execution.asyncWaitTime,
     promiseTimeout: dynamicConfig.execution.promiseTimeout,
   };
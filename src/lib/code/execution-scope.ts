@@ -0,0 +1,222 @@
+/**
+ * Ámbito de una ejecución.
+ *
+ * Envuelve las APIs que el código del usuario usa para programar trabajo
+ * diferido (timers, intervalos, microtareas, fetch y promesas) y registra todo
+ * lo que queda pendiente. Así el ejecutor sabe exactamente cuándo el script ya
+ * no tiene trabajo (y puede terminar en ese momento) y, al cancelar o terminar
+ * la ejecución, puede desmontarlo sin que nada siga escribiendo en los resultados.
+ */
+
+export interface ExecutionScope {
+  /** true cuando la ejecución fue cancelada o terminó */
+  readonly disposed: boolean;
+  setTimeout: (handler: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) => number;
+  setInterval: (handler: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) => number;
+  clearTimeout: (id?: number) => void;
+  clearInterval: (id?: number) => void;
+  queueMicrotask: (callback: () => void) => void;
+  fetch: typeof fetch;
+  /** Constructor de promesas que cuenta las promesas sin resolver */
+  Promise: PromiseConstructor;
+  /** Cantidad de tareas pendientes (timers, intervalos, microtareas, fetch y promesas) */
+  readonly pendingCount: number;
+  /**
+   * Espera a que no quede trabajo pendiente
+   * @param limit - Tiempo máximo de espera (ms)
+   * @returns true si el script quedó inactivo, false si se alcanzó el límite
+   */
+  waitForIdle: (limit: number) => Promise<boolean>;
+  /** Cancela timers, intervalos y peticiones pendientes e ignora callbacks posteriores */
+  dispose: () => void;
+}
+
+/**
+ * Crea un ámbito de ejecución nuevo
+ * @param onError - Recibe los errores lanzados dentro de timers, intervalos y
+ * microtareas (si no se indica, el error se propaga como de costumbre)
+ * @returns Ámbito con las APIs envueltas y la función dispose
+ */
+export const createExecutionScope = (onError?: (error: unknown) => void): ExecutionScope => {
+  const timeouts = new Set<number>();
+  const intervals = new Set<number>();
+  const fetchControllers = new Set<AbortController>();
+  let pendingMicrotasks = 0;
+  let pendingPromises = 0;
+  let disposed = false;
+  let idleListener: (() => void) | null = null;
+
+  // Ejecuta un callback del usuario sin que sus errores escapen del ámbito
+  const runCallback = (callback: () => void) => {
+    if (disposed) return;
+    if (!onError) return callback();
+    try {
+      callback();
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const getPendingCount = () =>
+    timeouts.size + intervals.size + fetchControllers.size + pendingMicrotasks + pendingPromises;
+
+  // Al quedar sin trabajo se espera una macrotarea antes de confirmar la
+  // inactividad: las continuaciones de promesas pueden programar más trabajo
+  const notifyIfIdle = () => {
+    if (!idleListener || getPendingCount() > 0) return;
+    globalThis.setTimeout(() => {
+      if (getPendingCount() === 0) idleListener?.();
+    }, 0);
+  };
+
+  class TrackedPromise<T> extends Promise<T> {
+    // Las promesas derivadas (then/catch/finally) no se cuentan: dependen de la original
+    static get [Symbol.species]() {
+      return Promise;
+    }
+
+    constructor(
+      executor: (resolve: (value: T | PromiseLike<T>) => void, reject: (reason?: unknown) => void) => void
+    ) {
+      let settled = false;
+      const settle = () => {
+        if (settled) return;
+        settled = true;
+        pendingPromises--;
+        notifyIfIdle();
+      };
+
+      pendingPromises++;
+      super((resolve, reject) => {
+        try {
+          executor(
+            (value) => {
+              settle();
+              resolve(value);
+            },
+            (reason) => {
+              settle();
+              reject(reason);
+            }
+          );
+        } catch (error) {
+          settle();
+          reject(error);
+        }
+      });
+    }
+  }
+
+  const nativeFetch = globalThis.fetch?.bind(globalThis);
+
+  const scope: ExecutionScope = {
+    get disposed() {
+      return disposed;
+    },
+
+    setTimeout: (handler, delay, ...args) => {
+      if (disposed) return 0;
+      const id = globalThis.setTimeout(() => {
+        timeouts.delete(id);
+        try {
+          runCallback(() => handler(...args));
+        } finally {
+          notifyIfIdle();
+        }
+      }, delay) as unknown as number;
+      timeouts.add(id);
+      return id;
+    },
+
+    setInterval: (handler, delay, ...args) => {
+      if (disposed) return 0;
+      const id = globalThis.setInterval(() => {
+        runCallback(() => handler(...args));
+      }, delay) as unknown as number;
+      intervals.add(id);
+      return id;
+    },
+
+    clearTimeout: (id) => {
+      if (id === undefined) return;
+      timeouts.delete(id);
+      globalThis.clearTimeout(id);
+      notifyIfIdle();
+    },
+
+    clearInterval: (id) => {
+      if (id === undefined) return;
+      intervals.delete(id);
+      globalThis.clearInterval(id);
+      notifyIfIdle();
+    },
+
+    queueMicrotask: (callback) => {
+      if (disposed) return;
+      pendingMicrotasks++;
+      globalThis.queueMicrotask(() => {
+        pendingMicrotasks--;
+        try {
+          runCallback(callback);
+        } finally {
+          notifyIfIdle();
+        }
+      });
+    },
+
+    fetch: ((...[input, init]: Parameters<typeof fetch>) => {
+      if (disposed) {
+        return Promise.reject(new DOMException("Execution cancelled", "AbortError"));
+      }
+
+      // Enlazar la señal del usuario (si existe) con la de la ejecución
+      const controller = new AbortController();
+      init?.signal?.addEventListener("abort", () => controller.abort());
+      fetchControllers.add(controller);
+
+      return nativeFetch(input, { ...init, signal: controller.signal }).finally(() => {
+        fetchControllers.delete(controller);
+        notifyIfIdle();
+      });
+    }) as typeof fetch,
+
+    Promise: TrackedPromise as unknown as PromiseConstructor,
+
+    get pendingCount() {
+      return getPendingCount();
+    },
+
+    waitForIdle: (limit) =>
+      new Promise<boolean>((resolve) => {
+        if (disposed) return resolve(true);
+
+        const limitId = globalThis.setTimeout(() => {
+          idleListener = null;
+          resolve(false);
+        }, limit);
+
+        idleListener = () => {
+          idleListener = null;
+          globalThis.clearTimeout(limitId);
+          resolve(true);
+        };
+        notifyIfIdle();
+      }),
+
+    dispose: () => {
+      if (disposed) return;
+      disposed = true;
+      idleListener = null;
+
+      timeouts.forEach((id) => globalThis.clearTimeout(id));
+      intervals.forEach((id) => globalThis.clearInterval(id));
+      fetchControllers.forEach((controller) => controller.abort());
+
+      timeouts.clear();
+      intervals.clear();
+      fetchControllers.clear();
+    },
+  };
+
+  return scope;
+};
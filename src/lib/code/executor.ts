@@ -0,0 +1,482 @@
+import { Colors, stringify } from "../elementParser";
+import { CodeLogger, parseError, formatErrorForDisplay, getUserCodeLocation, type ErrorInfo } from "./error-format";
+import { createGlobalContext } from "./global-context";
+import { createExecutionScope } from "./execution-scope";
+import { getResultType, getColorForMethod, type Result, type UnparsedResult, type ModuleRef } from "./types";
+import { buildTableData } from "./console-table";
+import { createConsoleState } from "./console-state";
+import { describeValue, isInspectable, type ObjectRegistry } from "./inspector";
+import type { RawSourceMap } from "./source-map";
+import { loadWorkspaceModules, type WorkspaceModuleBundle } from "./workspace-modules";
+import type { CachedPackage } from "../packages/package-cache";
+import type { NodeEnvironmentOptions } from "../node";
+import { createWatchdog, noopWatchdog } from "./watchdog";
+import { EDITOR_CONFIG, SYSTEM_MESSAGES } from "../../constants/config";
+
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor;
+
+/**
+ * Opciones de ejecución compartidas entre el renderer y el worker
+ */
+export interface ExecuteOptions {
+  /** Se invoca con cada resultado procesado, en el orden en que se produjo */
+  onResult?: (result: Result) => void;
+  /** Paquetes instalados (snapshot de localStorage, necesario dentro del worker) */
+  installedPackages?: Record<string, any>;
+  /** Código de los paquetes de la caché local que importa el código */
+  packages?: Record<string, CachedPackage>;
+  /** Tiempo máximo (ms) que la ejecución sigue viva mientras haya trabajo asíncrono pendiente */
+  asyncWaitTime?: number;
+  /** Registro donde quedan los objetos registrados para el inspector */
+  registry?: ObjectRegistry;
+  /** Al abortarse se detiene la espera y se desmontan timers, intervalos y fetch pendientes */
+  signal?: AbortSignal;
+  /** Source map de la transformación, para ubicar los errores en el código original */
+  sourceMap?: RawSourceMap;
+  /** Otros archivos del workspace importados por el código (ya transformados) */
+  modules?: WorkspaceModuleBundle;
+  /** Modo Node: fs en memoria con los archivos del workspace, path, events, util y Buffer */
+  node?: NodeEnvironmentOptions;
+  /**
+   * Recibe los exports del archivo al terminar de evaluarlo y la función que
+   * envía a los resultados los errores lanzados después (ej. por componentes)
+   */
+  onModuleExports?: (exports: any, reportError: (error: unknown) => void) => void;
+  /**
+   * No esperar el trabajo asíncrono ni desmontarlo al terminar: timers,
+   * listeners y errores siguen activos hasta que se aborte la señal
+   * (vista previa de componentes)
+   */
+  keepAlive?: boolean;
+  /**
+   * Tiempo máximo (ms) que el código puede correr sin ceder el hilo. Lo
+   * comprueban los puntos de control del watchdog (código transformado con
+   * la opción watchdog)
+   */
+  syncTimeLimit?: number;
+}
+
+/**
+ * Promesa que se resuelve cuando la señal se aborta (nunca si no hay señal)
+ */
+const whenAborted = (signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    if (!signal) return;
+    if (signal.aborted) return resolve();
+    signal.addEventListener("abort", () => resolve(), { once: true });
+  });
+
+/**
+ * Convierte un error que escapó del flujo principal (el motivo de una promesa
+ * rechazada puede ser cualquier valor) en ErrorInfo marcado como asíncrono
+ */
+const parseAsyncError = (reason: unknown, sourceMap?: RawSourceMap): ErrorInfo => {
+  let error = reason;
+  if (!(reason instanceof Error)) {
+    let text: string;
+    try {
+      text = typeof reason === "string" ? reason : JSON.stringify(reason) ?? String(reason);
+    } catch {
+      text = String(reason);
+    }
+    error = new Error(`Uncaught (in promise) ${text}`);
+  }
+  return { ...parseError(error, "execution", sourceMap), async: true };
+};
+
+/**
+ * Escucha los errores no capturados y las promesas rechazadas sin manejar
+ * mientras dura una ejecución, para que no terminen solo en las DevTools
+ * @param onError - Recibe el error o el motivo del rechazo
+ * @returns Función que elimina los listeners
+ */
+const listenForAsyncErrors = (onError: (error: unknown) => void): (() => void) => {
+  const target = globalThis as any;
+  if (typeof target.addEventListener !== "function") return () => {};
+
+  const handleRejection = (event: PromiseRejectionEvent) => {
+    event.preventDefault();
+    onError(event.reason);
+  };
+
+  const handleError = (event: ErrorEvent) => {
+    // En el renderer también llegan errores de la aplicación: solo se toman
+    // los que se originan en el código del usuario
+    if (!getUserCodeLocation(event.error?.stack)) return;
+    event.preventDefault();
+    onError(event.error);
+  };
+
+  target.addEventListener("unhandledrejection", handleRejection);
+  target.addEventListener("error", handleError);
+  return () => {
+    target.removeEventListener("unhandledrejection", handleRejection);
+    target.removeEventListener("error", handleError);
+  };
+};
+
+/**
+ * Texto de una salida propia de console: el primer argumento se muestra sin
+ * comillas, como en los navegadores y Node, y el resto como valores
+ */
+const renderConsoleText = async (text: string, values: unknown[]) => {
+  const rendered = await Promise.all(values.map((value) => stringify(value)));
+  return { content: [text, ...rendered.map(({ content }) => content)].join(" ") };
+};
+
+/**
+ * Crea función debug para capturar salidas de console
+ * @param onUnparsedResult - Callback que recibe cada resultado sin procesar
+ * @param registry - Registro de objetos para el inspector (opcional)
+ * @returns Función debug para inyectar en el código
+ */
+export const createDebugFunction = (
+  onUnparsedResult: (result: UnparsedResult) => void,
+  registry?: ObjectRegistry
+) => {
+  // Pila de grupos abiertos con console.group; cada ejecución crea la suya
+  const groupStack: string[] = [];
+  let groupCounter = 0;
+  // Contadores y timers de console.count / console.time* de esta ejecución
+  const applyConsoleState = createConsoleState();
+
+  return (lineNumber: number, calledMethod: string = "log", ...args: any[]) => {
+    let processedContent;
+    let snapshot: UnparsedResult["snapshot"];
+
+    if (calledMethod === "groupEnd") {
+      groupStack.pop();
+      return;
+    }
+
+    const call = applyConsoleState(calledMethod, args);
+    if (!call) return;
+    const { method, args: content, text } = call;
+
+    const groupId = groupStack[groupStack.length - 1];
+    const groupDepth = groupStack.length;
+    let group: UnparsedResult["group"];
+
+    if (method === "group" || method === "groupCollapsed") {
+      group = { id: `group-${++groupCounter}`, collapsed: method === "groupCollapsed" };
+      groupStack.push(group.id);
+    }
+
+    // Manejar referencias especiales (cuando no se llama la función)
+    if (method === "_expression") {
+      // Valor de una expresión suelta (modo scratchpad), tal cual
+      processedContent = content[0];
+    } else if (method === "_declaration") {
+      // Valor de una variable declarada o asignada: [nombre, valor]. Se
+      // convierte a texto ahora, con el valor que tiene en esta línea
+      processedContent = content[1];
+      snapshot = stringify(processedContent);
+    } else if (
+      method === "_reference" &&
+      content.length === 1 &&
+      typeof content[0] === "object"
+    ) {
+      const ref = content[0] as ModuleRef;
+
+      if (ref.type === "method" && ref.object === "console") {
+        // console.log sin llamar -> mostrar como función
+        processedContent = `ƒ ${ref.method}()`;
+      } else if (ref.type === "object" && ref.object === "console") {
+        // console sin más -> mostrar objeto console completo
+        processedContent = {
+          _isConsoleObject: true,
+          methods: [
+            "log", "warn", "error", "info", "debug", "table", "dir", "dirxml",
+            "trace", "group", "groupCollapsed", "groupEnd", "count", "countReset",
+            "time", "timeEnd", "timeLog", "timeStamp", "assert", "clear",
+            "profile", "profileEnd", "context", "createTask",
+          ],
+          memory: {
+            totalJSHeapSize: 24500000,
+            usedJSHeapSize: 17100000,
+            jsHeapSizeLimit: 3760000000,
+          },
+        };
+      } else {
+        processedContent = content[0];
+      }
+    } else if (method === "table") {
+      // El segundo argumento (columnas) solo afecta a la tabla
+      processedContent = content[0];
+    } else if (content.length === 0) {
+      processedContent = group ? `console.${method}` : undefined;
+    } else if (content.length === 1) {
+      processedContent = content[0];
+    } else {
+      // Para múltiples argumentos, mantenerlos como array pero marcarlos para procesamiento especial
+      processedContent = {
+        _isMultipleArgs: true,
+        args: content,
+      };
+    }
+
+    // Salidas propias de console (count, time*, avisos, assert) y títulos de
+    // grupo: texto sin comillas
+    if (text) {
+      snapshot = renderConsoleText(content[0], content.slice(1));
+    } else if (group && content.length === 0) {
+      snapshot = renderConsoleText(`console.${method}`, []);
+    } else if (group && typeof content[0] === "string") {
+      snapshot = renderConsoleText(content[0], content.slice(1));
+    }
+
+    // El nombre de la variable no se muestra como argumento
+    const inspectedArgs = method === "_declaration" ? content.slice(1) : content;
+
+    onUnparsedResult({
+      lineNumber,
+      method: method === "_reference" || method === "_expression" || method === "_declaration" ? "log" : method,
+      content: processedContent,
+      // La tabla se arma aquí porque los datos no se pueden enviar tal cual desde el worker
+      table: method === "table" ? buildTableData(content[0], content[1]) ?? undefined : undefined,
+      groupId,
+      groupDepth,
+      group,
+      // Los objetos se envían como nodos del inspector para expandirlos bajo demanda
+      inspect:
+        registry && !group && method !== "table" && method !== "_reference" && inspectedArgs.some(isInspectable)
+          ? inspectedArgs.map((value) => describeValue(value, registry))
+          : undefined,
+      expression: method === "_expression" || undefined,
+      label: method === "_declaration" ? String(content[0]) : undefined,
+      snapshot,
+    });
+  };
+};
+
+/**
+ * Convierte un resultado sin parsear en un resultado final serializable
+ * @param result - Resultado sin procesar
+ * @returns Promesa con el resultado procesado
+ */
+export const processResult = async (result: UnparsedResult): Promise<Result> => {
+  try {
+    const stringifiedContent = await (result.snapshot ?? stringify(result.content));
+    if (!stringifiedContent) {
+      throw new Error("No se pudo convertir el contenido");
+    }
+
+    const resultType = getResultType(result.method || "log");
+
+    return {
+      lineNumber: result.lineNumber,
+      element: {
+        content: result.label
+          ? `${result.label} = ${stringifiedContent.content}`
+          : stringifiedContent.content,
+        color: getColorForMethod(
+          result.method || "log",
+          stringifiedContent.color
+        ),
+      },
+      type: resultType,
+      method: result.method,
+      table: result.table,
+      groupId: result.groupId,
+      groupDepth: result.groupDepth,
+      group: result.group,
+      inspect: result.inspect,
+      expression: result.expression,
+      label: result.label,
+    };
+  } catch (error: any) {
+    const errorInfo = parseError(error, "execution");
+    CodeLogger.log("error", "Error procesando resultado", errorInfo);
+
+    return {
+      lineNumber: result.lineNumber,
+      element: {
+        content: formatErrorForDisplay(errorInfo),
+        color: Colors.ERROR,
+      },
+      type: "error" as const,
+      errorInfo,
+    };
+  }
+};
+
+/**
+ * Ejecuta código ya transformado en el hilo actual (renderer o worker)
+ * @param transformedCode - Código producido por transformCode
+ * @param options - Opciones de ejecución
+ * @returns Promesa con todos los resultados de la ejecución
+ */
+export const executeTransformedCode = async (
+  transformedCode: string,
+  options: ExecuteOptions = {}
+): Promise<Result[]> => {
+  const results: Result[] = [];
+
+  // Los resultados se procesan en cadena para conservar el orden de emisión
+  let processing: Promise<void> = Promise.resolve();
+
+  // Errores de timers, intervalos y promesas sin manejar: se muestran en la
+  // línea que los lanzó y la ejecución continúa, como en el navegador
+  const reportedErrors = new WeakSet<object>();
+  const reportAsyncError = (error: unknown) => {
+    if (scope.disposed) return;
+    // React en desarrollo vuelve a lanzar los errores de render como eventos
+    // de error globales: el mismo error no se muestra dos veces
+    if (typeof error === "object" && error !== null) {
+      if (reportedErrors.has(error)) return;
+      reportedErrors.add(error);
+    }
+    const errorInfo = parseAsyncError(error, options.sourceMap);
+    CodeLogger.log("error", "Error asíncrono no capturado", errorInfo);
+
+    processing = processing.then(() => {
+      const errorResult: Result = {
+        lineNumber: errorInfo.line,
+        element: {
+          content: formatErrorForDisplay(errorInfo),
+          color: Colors.ERROR,
+        },
+        type: "error",
+        errorInfo,
+      };
+      results.push(errorResult);
+      options.onResult?.(errorResult);
+    });
+  };
+
+  // Todo el trabajo diferido del código queda registrado en el ámbito para
+  // poder desmontarlo al cancelar o al terminar la ejecución
+  const scope = createExecutionScope(reportAsyncError);
+  const aborted = whenAborted(options.signal).then(() => scope.dispose());
+  const stopListening = listenForAsyncErrors(reportAsyncError);
+  const onUnparsedResult = (unparsed: UnparsedResult) => {
+    // Salidas tardías de una ejecución cancelada o terminada se descartan
+    if (scope.disposed) return;
+    processing = processing.then(async () => {
+      const result = await processResult(unparsed);
+      results.push(result);
+      options.onResult?.(result);
+    });
+  };
+
+  // Con keepAlive el ámbito se desmonta solo al abortar, si la evaluación termina bien
+  let keepAlive = false;
+
+  try {
+    // Obtener contexto global
+    const globalContext = createGlobalContext({
+      installedPackages: options.installedPackages,
+      packages: options.packages,
+      scope,
+      node: options.node,
+    });
+
+    // Crear función debug
+    const debugFunction = createDebugFunction(onUnparsedResult, options.registry);
+    const watchdog = options.syncTimeLimit ? createWatchdog(options.syncTimeLimit) : noopWatchdog;
+
+    // Imports relativos entre archivos del workspace: los módulos se evalúan
+    // antes que el archivo de entrada, una vez cada uno, con el mismo contexto
+    // global y sus propias variables de módulo. Como la entrada, cada módulo
+    // corre en una función async y admite await en el nivel superior
+    const context = globalContext as Record<string, any>;
+    const loadModules = async () => {
+      if (!options.modules || typeof context.require !== "function") return;
+      context.require = await loadWorkspaceModules(
+        options.modules,
+        context.module,
+        context.require,
+        async (module, moduleScope) => {
+          const moduleContext = { ...context, ...moduleScope };
+          const moduleFunction = AsyncFunction("debug", "__watchdog", ...Object.keys(moduleContext), module.code);
+          await moduleFunction(debugFunction, watchdog, ...Object.values(moduleContext));
+        }
+      );
+    };
+
+    // Crear función async con contexto global
+    const asyncFunction = AsyncFunction(
+      "debug",
+      "__watchdog",
+      ...Object.keys(context),
+      transformedCode
+    );
+
+    // Evaluar los módulos y después el código (la cancelación deja de esperar
+    // la promesa del usuario y evita que la entrada empiece)
+    await Promise.race([
+      loadModules().then(() => {
+        if (scope.disposed) return;
+        return asyncFunction(debugFunction, watchdog, ...Object.values(context));
+      }),
+      aborted,
+    ]);
+
+    if (!scope.disposed) {
+      options.onModuleExports?.(context.module?.exports, reportAsyncError);
+    }
+
+    if (options.keepAlive && !scope.disposed) {
+      keepAlive = true;
+      aborted.then(stopListening);
+      await processing;
+      // Copia: las salidas posteriores solo llegan por onResult
+      return [...results];
+    }
+
+    // Mantener la ejecución viva solo mientras queden timers, intervalos,
+    // microtareas, fetch o promesas pendientes
+    const becameIdle = await Promise.race([
+      scope.waitForIdle(options.asyncWaitTime ?? EDITOR_CONFIG.ASYNC_WAIT_TIME),
+      aborted.then(() => true),
+    ]);
+
+    // Los rechazos sin manejar se notifican en una tarea posterior
+    if (becameIdle && !scope.disposed) {
+      await new Promise((resolve) => globalThis.setTimeout(resolve, 0));
+    }
+
+    if (!becameIdle && !scope.disposed) {
+      const pendingCount = scope.pendingCount;
+      scope.dispose();
+      CodeLogger.log("warn", "Límite de espera asíncrona alcanzado", { pendingCount });
+
+      await processing;
+      const limitResult: Result = {
+        element: {
+          content: `⏱️ ${SYSTEM_MESSAGES.ASYNC_WAIT_LIMIT} (${pendingCount})`,
+          color: Colors.WARNING,
+        },
+        type: "warning",
+      };
+      results.push(limitResult);
+      options.onResult?.(limitResult);
+    }
+
+    await processing;
+    return results;
+
+  } catch (error: any) {
+    await processing;
+    if (scope.disposed) return results;
+
+    const errorInfo = parseError(error, "execution", options.sourceMap);
+    const errorResult: Result = {
+      lineNumber: errorInfo.line,
+      element: {
+        content: formatErrorForDisplay(errorInfo),
+        color: Colors.ERROR,
+      },
+      type: "error",
+      errorInfo,
+    };
+    results.push(errorResult);
+    options.onResult?.(errorResult);
+    return results;
+  } finally {
+    if (!keepAlive) {
+      stopListening();
+      scope.dispose();
+    }
+  }
+};
@@ -1,16 +1,44 @@
 import { createCustomConsole } from "./console-api";
 import { GLOBAL_CONTEXT_CONFIG } from '../../constants/config';
+import type { ExecutionScope } from "./execution-scope";
+import type { CachedPackage } from "../packages/package-cache";
+import { createPackageRequire } from "../packages/package-loader";
+import * as React from "react";
+import * as jsxRuntime from "react/jsx-runtime";
+import { createNodeEnvironment, isNodeBuiltin, type NodeEnvironmentOptions } from "../node";
 
 /**
  * Sistema de gestión de módulos para el entorno de ejecución
  */
 class ModuleSystem {
   private moduleRegistry = new Map<string, any>();
+  private installedPackages?: Record<string, any>;
+  private packages: Record<string, CachedPackage>;
 
-  constructor() {
+  /**
+   * @param installedPackages - Snapshot de paquetes instalados. Si se omite se lee
+   * de localStorage (no disponible dentro de un Web Worker)
+   * @param packages - Código de los paquetes de la caché local que usa la ejecución
+   */
+  constructor(installedPackages?: Record<string, any>, packages: Record<string, CachedPackage> = {}) {
+    this.installedPackages = installedPackages;
+    this.packages = packages;
     this.setupDefaultModules();
   }
 
+  /**
+   * Obtiene los paquetes instalados desde el snapshot o desde localStorage
+   */
+  private getInstalledPackages(): Record<string, any> {
+    if (this.installedPackages) {
+      return this.installedPackages;
+    }
+    if (typeof localStorage === "undefined") {
+      return {};
+    }
+    return JSON.parse(localStorage.getItem("jsrunner-packages") || "{}");
+  }
+
   /**
    * Configura los módulos predeterminados del sistema
    */
@@ -44,12 +72,45 @@ class ModuleSystem {
     this.moduleRegistry.set("react/jsx-runtime", jsxRuntime);
   }
 
+  /**
+   * Registra los módulos integrados del modo Node (fs, path, events...)
+   * @param modules - Módulos por nombre, sin el prefijo "node:"
+   */
+  registerNodeModules(modules: Record<string, any>) {
+    for (const [name, module] of Object.entries(modules)) {
+      this.moduleRegistry.set(name, module);
+    }
+  }
+
   /**
    * Sistema de require/import personalizado
-   * @param moduleName - Nombre del módulo a cargar
-   * @returns Módulo solicitado
+   * @param moduleGlobals - Variables que reciben los archivos de los paquetes (process, global...)
+   * @returns Función require: módulos integrados primero y luego paquetes de la caché
    */
-  createRequire() {
+  createRequire(moduleGlobals: Record<string, any> = {}) {
+    const requireMissing = (moduleName: string) => {
+      // Instalado antes de que existiera la caché de paquetes: no hay código que ejecutar
+      const installedPackages = this.getInstalledPackages();
+      if (installedPackages[moduleName]) {
+        throw new Error(
+          `El paquete '${moduleName}' está instalado pero su código no está en la caché local. Reinstálalo desde el gestor de paquetes.`
+        );
+      }
+
+      // Módulo integrado de Node pedido fuera del modo Node
+      if (isNodeBuiltin(moduleName)) {
+        throw new Error(
+          `Cannot find module '${moduleName}'. Activa el modo Node del archivo para usar los módulos integrados de Node.`
+        );
+      }
+
+      throw new Error(
+        `Cannot find module '${moduleName}'. Instálalo usando el gestor de paquetes.`
+      );
+    };
+
+    const requirePackage = createPackageRequire(this.packages, requireMissing, moduleGlobals);
+
     return (moduleName: string) => {
       console.log("📦 Cargando módulo:", moduleName);
 
@@ -57,19 +118,13 @@ class ModuleSystem {
         return this.moduleRegistry.get(moduleName);
       }
 
-      // Intentar cargar desde paquetes instalados
-      const installedPackages = JSON.parse(
-        localStorage.getItem("jsrunner-packages") || "{}"
-      );
-      if (installedPackages[moduleName]) {
-        console.log("📦 Módulo encontrado en paquetes instalados:", moduleName);
-        // En una implementación real, aquí cargaríamos desde CDN
-        return installedPackages[moduleName];
+      // "node:fs" y "fs" son el mismo módulo integrado
+      const builtinName = moduleName.replace(/^node:/, "");
+      if (moduleName !== builtinName && this.moduleRegistry.has(builtinName)) {
+        return this.moduleRegistry.get(builtinName);
       }
 
-      throw new Error(
-        `Cannot find module '${moduleName}'. Instálalo usando el gestor de paquetes.`
-      );
+      return requirePackage(moduleName);
     };
   }
 
@@ -92,128 +147,6 @@ class ModuleSystem {
   }
 }
 
-/**
- * Crea una simulación completa de React para el entorno de ejecución
- * @returns Objeto React con todos los métodos y componentes necesarios
- */
-const createReactContext = () => {
-  const React: any = {
-    createElement: (type: any, props: any, ...children: any[]) => {
-      return {
-        type,
-        props: {
-          ...props,
-          children: children.length === 1 ? children[0] : children,
-        },
-        $$typeof: Symbol.for("react.element"),
-      };
-    },
-    Fragment: Symbol.for("react.fragment"),
-
-    // Hooks completos
-    useState: (initial: any) => {
-      let state = initial;
-      const setState = (newState: any) => {
-        state = typeof newState === "function" ? newState(state) : newState;
-        console.log("Estado actualizado:", state);
-        return state;
-      };
-      return [state, setState];
-    },
-
-    useEffect: (effect: Function, _deps?: any[]) => {
-      console.log("useEffect ejecutado");
-      try {
-        const cleanup = effect();
-        if (typeof cleanup === "function") {
-          console.log("useEffect cleanup registrado");
-        }
-        return cleanup;
-      } catch (error) {
-        console.error("Error en useEffect:", error);
-      }
-    },
-
-    useContext: (context: any) => {
-      console.log("useContext llamado");
-      return context._currentValue || context.defaultValue;
-    },
-
-    useReducer: (reducer: Function, initialState: any) => {
-      let state = initialState;
-      const dispatch = (action: any) => {
-        state = reducer(state, action);
-        console.log("Estado reducer actualizado:", state);
-        return state;
-      };
-      return [state, dispatch];
-    },
-
-    useMemo: (factory: Function, _deps?: any[]) => {
-      console.log("useMemo ejecutado");
-      return factory();
-    },
-
-    useCallback: (callback: Function, _deps?: any[]) => {
-      console.log("useCallback ejecutado");
-      return callback;
-    },
-
-    useRef: (initialValue?: any) => {
-      return { current: initialValue };
-    },
-
-    // Utilidades adicionales
-    createContext: (defaultValue?: any) => {
-      return {
-        Provider: ({ value, children }: any) => ({
-          type: "Provider",
-          props: { value, children },
-          $$typeof: Symbol.for("react.element"),
-        }),
-        Consumer: ({ children }: any) => ({
-          type: "Consumer",
-          props: { children },
-          $$typeof: Symbol.for("react.element"),
-        }),
-        _currentValue: defaultValue,
-        defaultValue,
-      };
-    },
-  };
-
-  // Componentes básicos (definidos después de React para evitar referencias circulares)
-  React.Component = class Component {
-    props: any;
-    constructor(props: any) {
-      this.props = props;
-    }
-    render() {
-      return null;
-    }
-  };
-
-  React.PureComponent = class PureComponent extends React.Component {
-    shouldComponentUpdate(nextProps: any) {
-      // Shallow comparison
-      return JSON.stringify(this.props) !== JSON.stringify(nextProps);
-    }
-  };
-
-  return React;
-};
-
-/**
- * Crea el runtime de JSX para React
- * @param React - Instancia de React
- * @returns Objeto con funciones jsx y jsxs
- */
-const createJSXRuntime = (React: any) => ({
-  jsx: React.createElement,
-  jsxs: React.createElement,
-  Fragment: React.Fragment,
-});
-
 /**
  * Implementación de funciones de diálogo personalizadas
  */
@@ -278,6 +211,13 @@ export const createGlobalContext = (dynamicConfig?: {
   enableReactAPIs?: boolean;
   strictMode?: boolean;
   sandboxLevel?: 'low' | 'medium' | 'high';
+  installedPackages?: Record<string, any>;
+  /** Paquetes de la caché local que importa el código */
+  packages?: Record<string, CachedPackage>;
+  /** Ámbito de la ejecución: timers, microtareas y fetch quedan registrados en él */
+  scope?: ExecutionScope;
+  /** Modo Node del archivo: módulos integrados en memoria y process completo */
+  node?: NodeEnvironmentOptions;
 }) => {
   // Configuración por defecto usando los valores centralizados
   const config = {
@@ -289,14 +229,27 @@ export const createGlobalContext = (dynamicConfig?: {
     ...dynamicConfig,
   };
 
-  // Crear instancias de los diferentes contextos
-  const React = createReactContext();
-  const jsxRuntime = createJSXRuntime(React);
-  const moduleSystem = new ModuleSystem();
+  // Crear instancias de los diferentes contextos. React es el mismo de la
+  // aplicación: los componentes del usuario se montan en la vista previa con react-dom
+  const moduleSystem = new ModuleSystem(config.installedPackages, config.packages);
   const customConsole = createCustomConsole();
   const dialogFunctions = createDialogFunctions();
   const webAPIs = config.enableWebAPIs ? createWebAPIs() : {};
-  const process = createProcess();
+  if (config.enableWebAPIs && config.scope) {
+    (webAPIs as ReturnType<typeof createWebAPIs>).fetch = config.scope.fetch;
+  }
+  const baseProcess = createProcess();
+  const nodeEnvironment = config.node
+    ? createNodeEnvironment(config.node, {
+        setTimeout: config.scope?.setTimeout ?? setTimeout,
+        clearTimeout: config.scope?.clearTimeout ?? clearTimeout,
+        queueMicrotask: config.scope?.queueMicrotask ?? queueMicrotask,
+      }, baseProcess)
+    : undefined;
+  const process = nodeEnvironment?.process ?? baseProcess;
+  if (nodeEnvironment) {
+    moduleSystem.registerNodeModules(nodeEnvironment.modules);
+  }
 
   // Registrar React en el sistema de módulos si está habilitado
   if (config.enableReactAPIs) {
@@ -304,15 +257,20 @@ export const createGlobalContext = (dynamicConfig?: {
   }
 
   // Crear función require
-  const customRequire = moduleSystem.createRequire();
+  const customRequire = moduleSystem.createRequire({ process, global: globalThis });
+
+  // exports y module.exports son el mismo objeto, como en CommonJS: el
+  // ejecutor lee los exports del archivo (ej. el componente por defecto)
+  const moduleObject = { exports: {} as Record<string, any> };
 
   const globalObj = {
     // APIs básicas de JavaScript (siempre disponibles)
-    setTimeout,
-    setInterval,
-    clearTimeout,
-    clearInterval,
-    Promise,
+    setTimeout: config.scope?.setTimeout ?? setTimeout,
+    setInterval: config.scope?.setInterval ?? setInterval,
+    clearTimeout: config.scope?.clearTimeout ?? clearTimeout,
+    clearInterval: config.scope?.clearInterval ?? clearInterval,
+    queueMicrotask: config.scope?.queueMicrotask ?? queueMicrotask,
+    Promise: config.scope?.Promise ?? Promise,
     Array,
     Object,
     String,
@@ -371,11 +329,14 @@ export const createGlobalContext = (dynamicConfig?: {
     // Sistema de módulos (condicional)
     ...(config.enableNodeAPIs && {
       require: customRequire,
-      module: { exports: {} },
-      exports: {},
+      module: moduleObject,
+      exports: moduleObject.exports,
       process,
     }),
 
+    // Variables propias de un script de Node (Buffer, __filename, setImmediate...)
+    ...nodeEnvironment?.globals,
+
     // Funciones de utilidad para el sistema de módulos
     __registerModule: (name: string, module: any) => 
       moduleSystem.registerModule(name, module),
@@ -0,0 +1,160 @@
+/**
+ * Vista previa de archivos HTML del workspace.
+ *
+ * El HTML se muestra en un iframe aislado (sin acceso al DOM de la
+ * aplicación). Las hojas de estilo y los scripts que enlaza con rutas
+ * relativas se buscan entre los archivos del workspace y se insertan en
+ * línea. Un script puente, inyectado antes que el resto, reenvía la consola
+ * y los errores del iframe al panel de resultados mediante postMessage.
+ */
+
+import { Colors } from "../elementParser";
+import { processResult } from "./executor";
+import type { Result } from "./types";
+
+/** Archivo del workspace que puede enlazar la página */
+export interface HtmlPreviewFile {
+  name: string;
+  content: string;
+  language: string;
+}
+
+const MESSAGE_SOURCE = "jsrunner-html-preview";
+
+/** Mensaje que el iframe envía a la aplicación */
+export type HtmlPreviewMessage =
+  | { source: typeof MESSAGE_SOURCE; type: "console"; method: string; args: unknown[] }
+  | { source: typeof MESSAGE_SOURCE; type: "error"; message: string };
+
+// Se ejecuta dentro del iframe: los argumentos se convierten a valores que
+// postMessage puede clonar (funciones, nodos y símbolos no se pueden enviar)
+const BRIDGE_SCRIPT = `(function () {
+  var send = function (message) {
+    message.source = "${MESSAGE_SOURCE}";
+    try { parent.postMessage(message, "*"); } catch (e) {}
+  };
+  var toCloneable = function (value) {
+    if (typeof value === "function") return "ƒ " + (value.name || "anonymous") + "()";
+    if (typeof value === "symbol") return value.toString();
+    if (value === null || typeof value !== "object" || value instanceof Error) return value;
+    if (value instanceof Node) return value.outerHTML || value.textContent;
+    try { return JSON.parse(JSON.stringify(value)); } catch (e) { return String(value); }
+  };
+  ["log", "info", "warn", "error", "debug"].forEach(function (method) {
+    var original = console[method];
+    console[method] = function () {
+      send({ type: "console", method: method, args: Array.prototype.map.call(arguments, toCloneable) });
+      return original.apply(console, arguments);
+    };
+  });
+  window.addEventListener("error", function (event) {
+    send({ type: "error", message: "Uncaught " + (event.error ? event.error.name + ": " + event.error.message : event.message) });
+  });
+  window.addEventListener("unhandledrejection", function (event) {
+    var reason = event.reason;
+    send({ type: "error", message: "Uncaught (in promise) " + (reason instanceof Error ? reason.name + ": " + reason.message : String(reason)) });
+  });
+})();`;
+
+/**
+ * Indica si el lenguaje de un archivo se muestra en la vista previa HTML en
+ * lugar de ejecutarse
+ */
+export const isHtmlPreviewLanguage = (language?: string): boolean =>
+  language === "html" || language === "css";
+
+const stripExtension = (name: string): string => name.replace(/\.[^./]+$/, "");
+
+/**
+ * Busca el archivo del workspace al que apunta una ruta relativa
+ * ("./styles.css" → "styles.css", o "styles" si se creó sin extensión)
+ */
+const findLinkedFile = (
+  files: HtmlPreviewFile[],
+  path: string | null,
+  language: string
+): HtmlPreviewFile | undefined => {
+  if (!path || /^([a-z]+:)?\/\//i.test(path)) return undefined;
+  const name = path.replace(/^(\.\/|\/)/, "");
+  return (
+    files.find((file) => file.name === name) ??
+    files.find((file) => file.language === language && stripExtension(file.name) === stripExtension(name))
+  );
+};
+
+/**
+ * Elige la página a mostrar: el archivo activo si es HTML o, para un CSS, la
+ * primera página que lo enlaza (o la primera página del workspace)
+ */
+export const findHtmlPreviewPage = (
+  files: HtmlPreviewFile[],
+  activeFile: HtmlPreviewFile
+): HtmlPreviewFile | undefined => {
+  if (activeFile.language === "html") return activeFile;
+  if (activeFile.language !== "css") return undefined;
+
+  const pages = files.filter((file) => file.language === "html");
+  return (
+    pages.find((page) => {
+      const doc = new DOMParser().parseFromString(page.content, "text/html");
+      return Array.from(doc.querySelectorAll('link[rel="stylesheet"]')).some(
+        (link) => findLinkedFile([activeFile], link.getAttribute("href"), "css") === activeFile
+      );
+    }) ?? pages[0]
+  );
+};
+
+/**
+ * Genera el documento del iframe: estilos y scripts del workspace en línea y
+ * el puente de consola antes que cualquier otro script
+ */
+export const buildHtmlPreviewDocument = (page: HtmlPreviewFile, files: HtmlPreviewFile[]): string => {
+  const doc = new DOMParser().parseFromString(page.content, "text/html");
+
+  doc.querySelectorAll('link[rel="stylesheet"]').forEach((link) => {
+    const stylesheet = findLinkedFile(files, link.getAttribute("href"), "css");
+    if (!stylesheet) return;
+    const style = doc.createElement("style");
+    style.setAttribute("data-href", link.getAttribute("href")!);
+    style.textContent = stylesheet.content;
+    link.replaceWith(style);
+  });
+
+  doc.querySelectorAll("script[src]").forEach((script) => {
+    const source = findLinkedFile(files, script.getAttribute("src"), "javascript");
+    if (!source) return;
+    script.setAttribute("data-src", script.getAttribute("src")!);
+    script.removeAttribute("src");
+    script.textContent = source.content;
+  });
+
+  const bridge = doc.createElement("script");
+  bridge.textContent = BRIDGE_SCRIPT;
+  doc.head.prepend(bridge);
+
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+};
+
+/**
+ * Indica si un mensaje recibido por la ventana viene del puente de la vista previa
+ */
+export const isHtmlPreviewMessage = (data: unknown): data is HtmlPreviewMessage =>
+  typeof data === "object" && data !== null && (data as any).source === MESSAGE_SOURCE;
+
+/**
+ * Convierte un mensaje del iframe en un resultado del panel
+ */
+export const createHtmlPreviewResult = async (message: HtmlPreviewMessage): Promise<Result> => {
+  if (message.type === "error") {
+    return {
+      element: { content: message.message, color: Colors.ERROR },
+      type: "error",
+    };
+  }
+
+  // Misma forma que producen las llamadas a console en el ejecutor
+  const { method, args } = message;
+  const content: any =
+    args.length === 0 ? undefined : args.length === 1 ? args[0] : { _isMultipleArgs: true, args };
+  return processResult({ method, content });
+};
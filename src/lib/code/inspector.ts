@@ -0,0 +1,277 @@
+/**
+ * Inspector de objetos.
+ *
+ * Convierte los valores que el código pasa a console en nodos serializables y
+ * guarda los objetos en un registro para poder expandirlos después bajo demanda,
+ * tanto en el renderer como dentro del worker (que sigue vivo tras la ejecución).
+ */
+
+import type {
+  InspectorNode,
+  InspectorObjectSubtype,
+  InspectorProperty,
+  InspectRequest,
+  InspectResponse,
+} from "./types";
+
+const PREVIEW_ENTRIES = 5;
+const PREVIEW_STRING_LENGTH = 30;
+const PROPERTY_LIMIT = 200;
+
+export const OBJECT_UNAVAILABLE_MESSAGE = "El objeto ya no está disponible. Vuelve a ejecutar el código.";
+
+/**
+ * Registro de objetos de una ejecución. Un mismo objeto recibe siempre el
+ * mismo id, lo que permite detectar referencias circulares en la interfaz
+ */
+export class ObjectRegistry {
+  private ids = new WeakMap<object, number>();
+  private objects = new Map<number, object>();
+  private nextId = 1;
+
+  register(value: object): number {
+    let id = this.ids.get(value);
+    if (id === undefined) {
+      id = this.nextId++;
+      this.ids.set(value, id);
+      this.objects.set(id, value);
+    }
+    return id;
+  }
+
+  get(id: number): object | undefined {
+    return this.objects.get(id);
+  }
+}
+
+/**
+ * Indica si un valor necesita el inspector (objetos no nulos)
+ */
+export const isInspectable = (value: unknown): value is object =>
+  value !== null && typeof value === "object";
+
+const getSubtype = (value: object): InspectorObjectSubtype => {
+  if (Array.isArray(value)) return "array";
+  if (value instanceof Map) return "map";
+  if (value instanceof Set) return "set";
+  if (value instanceof Date) return "date";
+  if (value instanceof RegExp) return "regexp";
+  if (value instanceof Error) return "error";
+  if (value instanceof Promise) return "promise";
+
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null ? "object" : "instance";
+};
+
+const getClassName = (value: object, subtype: InspectorObjectSubtype): string => {
+  switch (subtype) {
+    case "array":
+      return `Array(${(value as unknown[]).length})`;
+    case "map":
+      return `Map(${(value as Map<unknown, unknown>).size})`;
+    case "set":
+      return `Set(${(value as Set<unknown>).size})`;
+    default:
+      return (value as any).constructor?.name || "Object";
+  }
+};
+
+/**
+ * Lee una propiedad sin propagar errores (proxies, getters que lanzan, etc.)
+ */
+const safeGet = (target: any, key: PropertyKey): unknown => {
+  try {
+    return target[key];
+  } catch (error: any) {
+    return `[Error: ${error?.message ?? error}]`;
+  }
+};
+
+/**
+ * Resumen corto de un valor dentro de la vista previa de otro objeto
+ */
+const shortPreview = (value: unknown): string => {
+  if (typeof value === "string") {
+    const text = value.length > PREVIEW_STRING_LENGTH ? `${value.slice(0, PREVIEW_STRING_LENGTH)}…` : value;
+    return JSON.stringify(text);
+  }
+  if (typeof value === "bigint") return `${value}n`;
+  if (typeof value === "function") return "ƒ";
+  if (typeof value === "symbol") return value.toString();
+  if (!isInspectable(value)) return String(value);
+  if (Array.isArray(value)) return `Array(${value.length})`;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof RegExp) return String(value);
+  return "{…}";
+};
+
+const joinPreview = (items: string[], total: number): string =>
+  items.join(", ") + (total > items.length ? ", …" : "");
+
+const getPreview = (value: object, subtype: InspectorObjectSubtype): string => {
+  switch (subtype) {
+    case "array": {
+      const array = value as unknown[];
+      return `[${joinPreview(array.slice(0, PREVIEW_ENTRIES).map(shortPreview), array.length)}]`;
+    }
+    case "map": {
+      const entries = Array.from((value as Map<unknown, unknown>).entries());
+      const items = entries
+        .slice(0, PREVIEW_ENTRIES)
+        .map(([key, entry]) => `${shortPreview(key)} => ${shortPreview(entry)}`);
+      return `{${joinPreview(items, entries.length)}}`;
+    }
+    case "set": {
+      const values = Array.from((value as Set<unknown>).values());
+      return `{${joinPreview(values.slice(0, PREVIEW_ENTRIES).map(shortPreview), values.length)}}`;
+    }
+    case "date":
+      return isNaN((value as Date).getTime()) ? "Invalid Date" : (value as Date).toISOString();
+    case "regexp":
+      return String(value);
+    case "error":
+      return `${(value as Error).name}: ${(value as Error).message}`;
+    case "promise":
+      return "Promise {<pending>}";
+    default: {
+      const keys = Object.keys(value);
+      const items = keys.slice(0, PREVIEW_ENTRIES).map((key) => {
+        const descriptor = Object.getOwnPropertyDescriptor(value, key);
+        return `${key}: ${descriptor?.get ? "(...)" : shortPreview(safeGet(value, key))}`;
+      });
+      return `{${joinPreview(items, keys.length)}}`;
+    }
+  }
+};
+
+/**
+ * Convierte un valor en un nodo serializable, registrando los objetos
+ * @param value - Valor a describir
+ * @param registry - Registro de objetos de la ejecución
+ */
+export const describeValue = (value: unknown, registry: ObjectRegistry): InspectorNode => {
+  if (typeof value === "function") {
+    return { kind: "function", name: value.name || "anonymous" };
+  }
+
+  if (!isInspectable(value)) {
+    let text: string;
+    if (typeof value === "bigint") text = `${value}n`;
+    else if (typeof value === "symbol") text = value.toString();
+    else text = String(value);
+
+    return { kind: "primitive", type: value === null ? "null" : typeof value, value: text };
+  }
+
+  const subtype = getSubtype(value);
+  return {
+    kind: "object",
+    id: registry.register(value),
+    subtype,
+    className: getClassName(value, subtype),
+    preview: getPreview(value, subtype),
+    // Fechas y expresiones regulares se muestran completas en la vista previa
+    expandable: subtype !== "date" && subtype !== "regexp",
+  };
+};
+
+/**
+ * Busca el descriptor de una propiedad en el objeto o su cadena de prototipos
+ */
+const findDescriptor = (value: object, key: string) => {
+  let current: object | null = value;
+  while (current && current !== Object.prototype) {
+    const ownKey = Reflect.ownKeys(current).find((k) => String(k) === key);
+    if (ownKey !== undefined) {
+      return Object.getOwnPropertyDescriptor(current, ownKey);
+    }
+    current = Object.getPrototypeOf(current);
+  }
+  return undefined;
+};
+
+/**
+ * Lista las propiedades de un objeto (un solo nivel)
+ */
+const getProperties = (value: object, registry: ObjectRegistry): InspectorProperty[] => {
+  const properties: InspectorProperty[] = [];
+
+  if (value instanceof Map) {
+    for (const [key, entry] of value.entries()) {
+      properties.push({ key: `${shortPreview(key)} =>`, value: describeValue(entry, registry) });
+    }
+    properties.push({ key: "size", value: describeValue(value.size, registry) });
+    return properties;
+  }
+
+  if (value instanceof Set) {
+    Array.from(value.values()).forEach((entry, index) => {
+      properties.push({ key: String(index), value: describeValue(entry, registry) });
+    });
+    properties.push({ key: "size", value: describeValue(value.size, registry) });
+    return properties;
+  }
+
+  // Propiedades propias (incluidas no enumerables y símbolos)
+  const seen = new Set<string>();
+  for (const key of Reflect.ownKeys(value)) {
+    const name = String(key);
+    const descriptor = Object.getOwnPropertyDescriptor(value, key);
+    seen.add(name);
+
+    if (descriptor?.get) {
+      properties.push({ key: name, getter: true });
+    } else {
+      properties.push({ key: name, value: describeValue(safeGet(value, key), registry) });
+    }
+  }
+
+  // Getters heredados de clases (se evalúan al hacer clic)
+  let proto = Object.getPrototypeOf(value);
+  while (proto && proto !== Object.prototype && !Array.isArray(value)) {
+    for (const key of Reflect.ownKeys(proto)) {
+      const name = String(key);
+      if (seen.has(name)) continue;
+      const descriptor = Object.getOwnPropertyDescriptor(proto, key);
+      if (descriptor?.get) {
+        seen.add(name);
+        properties.push({ key: name, getter: true });
+      }
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+
+  return properties;
+};
+
+/**
+ * Atiende una petición del inspector sobre un registro
+ * @param registry - Registro de la ejecución (null si ya no está disponible)
+ * @param request - Petición recibida desde la interfaz
+ */
+export const handleInspectRequest = (
+  registry: ObjectRegistry | null,
+  request: InspectRequest
+): InspectResponse => {
+  const target = registry?.get(request.objectId);
+  if (!registry || !target) {
+    return { error: OBJECT_UNAVAILABLE_MESSAGE };
+  }
+
+  try {
+    if (request.action === "getter") {
+      const descriptor = findDescriptor(target, request.key);
+      if (!descriptor?.get) {
+        return { error: `'${request.key}' no es un getter` };
+      }
+      return { value: describeValue(descriptor.get.call(target), registry) };
+    }
+
+    const properties = getProperties(target, registry);
+    return properties.length > PROPERTY_LIMIT
+      ? { properties: properties.slice(0, PROPERTY_LIMIT), truncated: properties.length - PROPERTY_LIMIT }
+      : { properties };
+  } catch (error: any) {
+    return { error: error?.message ?? String(error) };
+  }
+};
@@ -0,0 +1,208 @@
+/**
+ * Ejecución en un proceso Node real (solo en Electron).
+ *
+ * El código ya transformado viaja por IPC al proceso principal, que lo ejecuta
+ * con utilityProcess sobre una copia temporal del workspace. Las llamadas a
+ * console vuelven como argumentos de debug() y pasan por la misma función
+ * debug del ejecutor, así que grupos, tablas, count y time se comportan igual;
+ * stdout y stderr llegan como texto.
+ */
+
+import { Colors } from "../elementParser";
+import { CodeLogger, formatErrorForDisplay, parseError } from "./error-format";
+import { createDebugFunction, processResult } from "./executor";
+import type { RawSourceMap } from "./source-map";
+import type { Result, UnparsedResult } from "./types";
+import { EXECUTION_ENGINE_CONFIG, SYSTEM_MESSAGES } from "../../constants/config";
+
+export interface NodeProcessOptions {
+  /** Nombre del archivo que se ejecuta */
+  entryPath: string;
+  /** Archivos del workspace que se copian al directorio del proceso (los módulos ya transformados) */
+  files: Record<string, string>;
+  /** Variables de entorno del workspace */
+  env?: Record<string, string>;
+  onResult?: (result: Result) => void;
+  /** Al abortarse se termina el proceso */
+  signal?: AbortSignal;
+  /** Source map de la transformación, para ubicar los errores en el código original */
+  sourceMap?: RawSourceMap;
+}
+
+/** Petición al proceso principal por el canal 'node-process-run' */
+export interface NodeProcessRequest {
+  runId: string;
+  /** Código ya transformado del archivo de entrada */
+  code: string;
+  entryPath: string;
+  /** Archivos del workspace; los módulos importados ya transformados */
+  files: Record<string, string>;
+  env: Record<string, string>;
+  /** Tiempo máximo de vida del proceso (ms) */
+  timeLimit: number;
+}
+
+/** Mensajes del proceso principal por el canal 'node-process-event' */
+export type NodeProcessEvent =
+  | { runId: string; type: "console"; line: number; method: string; args: unknown[] }
+  | { runId: string; type: "output"; stream: "stdout" | "stderr"; text: string }
+  | {
+      runId: string;
+      type: "error";
+      name: string;
+      message: string;
+      stack?: string;
+      loc?: { line: number; column: number };
+    }
+  | { runId: string; type: "limit"; reason: "time"; limit: number }
+  | { runId: string; type: "exit"; code: number; killed: boolean };
+
+const ERROR_CONSTRUCTORS: Record<string, ErrorConstructor> = {
+  SyntaxError,
+  ReferenceError,
+  TypeError,
+  RangeError,
+};
+
+/**
+ * Reconstruye en el renderer un error del proceso, con su clase y su stack
+ */
+const reviveError = (event: Extract<NodeProcessEvent, { type: "error" }>): Error => {
+  const ErrorClass = ERROR_CONSTRUCTORS[event.name] ?? Error;
+  const error = new ErrorClass(event.message);
+  error.name = event.name;
+  error.stack = event.stack;
+  if (event.loc) Object.assign(error, { loc: event.loc });
+  return error;
+};
+
+/**
+ * Indica si la aplicación puede lanzar procesos Node (preload de Electron)
+ */
+export const isNodeProcessSupported = (): boolean =>
+  typeof window !== "undefined" && typeof window.electronAPI?.runNodeProcess === "function";
+
+/**
+ * Ejecuta código transformado en un proceso Node
+ * @param transformedCode - Código producido por transformCode
+ * @param options - Archivos, variables de entorno y callbacks de la ejecución
+ * @returns Promesa con todos los resultados, al terminar el proceso o al cancelarlo
+ */
+export const runInNodeProcess = async (
+  transformedCode: string,
+  options: NodeProcessOptions
+): Promise<Result[]> => {
+  const results: Result[] = [];
+  const electronAPI = window.electronAPI;
+
+  if (!isNodeProcessSupported() || !electronAPI) {
+    return [
+      {
+        element: { content: SYSTEM_MESSAGES.NODE_PROCESS_UNAVAILABLE, color: Colors.WARNING },
+        type: "warning",
+      },
+    ];
+  }
+
+  // Los resultados se procesan en cadena para conservar el orden de emisión
+  let processing: Promise<void> = Promise.resolve();
+  const pushResult = (createResult: () => Result | Promise<Result>) => {
+    processing = processing.then(async () => {
+      const result = await createResult();
+      results.push(result);
+      options.onResult?.(result);
+    });
+  };
+
+  const debug = createDebugFunction((unparsed: UnparsedResult) => pushResult(() => processResult(unparsed)));
+
+  const pushError = (error: Error) => {
+    const errorInfo = parseError(error, "execution", options.sourceMap);
+    pushResult(() => ({
+      lineNumber: errorInfo.line,
+      element: { content: formatErrorForDisplay(errorInfo), color: Colors.ERROR },
+      type: "error",
+      errorInfo,
+    }));
+  };
+
+  const runId = crypto.randomUUID();
+
+  return new Promise((resolve) => {
+    let settled = false;
+    let unsubscribe = () => {};
+
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      unsubscribe();
+      options.signal?.removeEventListener("abort", onAbort);
+      processing.then(() => resolve(results));
+    };
+
+    // Cancelar desde la interfaz (o por timeout del motor) termina el proceso
+    const onAbort = () => {
+      CodeLogger.log("info", "Proceso Node: ejecución cancelada, terminando proceso", { runId });
+      electronAPI.killNodeProcess?.(runId);
+      finish();
+    };
+
+    unsubscribe = electronAPI.onNodeProcessEvent?.((event: NodeProcessEvent) => {
+      if (event.runId !== runId || settled) return;
+
+      switch (event.type) {
+        case "console":
+          debug(event.line, event.method, ...event.args);
+          break;
+        case "output": {
+          // Texto sin formato, como lo mostraría la terminal
+          const content: any = event.text.replace(/\n$/, "");
+          pushResult(() => processResult({ method: event.stream === "stderr" ? "error" : "log", content }));
+          break;
+        }
+        case "error":
+          pushError(reviveError(event));
+          break;
+        case "limit":
+          pushResult(() => ({
+            element: {
+              content: `⏱️ ${SYSTEM_MESSAGES.NODE_PROCESS_TIME_LIMIT} (${event.limit / 1000}s)`,
+              color: Colors.WARNING,
+            },
+            type: "warning",
+          }));
+          break;
+        case "exit":
+          if (event.code !== 0 && !event.killed) {
+            pushResult(() => ({
+              element: { content: `El proceso Node terminó con código ${event.code}`, color: Colors.WARNING },
+              type: "warning",
+            }));
+          }
+          finish();
+          break;
+      }
+    }) ?? unsubscribe;
+
+    if (options.signal?.aborted) {
+      onAbort();
+      return;
+    }
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    electronAPI
+      .runNodeProcess?.({
+        runId,
+        code: transformedCode,
+        entryPath: options.entryPath,
+        files: options.files,
+        env: options.env ?? {},
+        timeLimit: EXECUTION_ENGINE_CONFIG.NODE_PROCESS_TIME_LIMIT,
+      })
+      .then((started) => {
+        if (started) return;
+        pushError(new Error("No se pudo iniciar el proceso Node"));
+        finish();
+      });
+  });
+};
@@ -0,0 +1,212 @@
+/**
+ * Vista previa de componentes React.
+ *
+ * Los archivos que exportan por defecto (o con module.exports) un componente
+ * o un elemento se ejecutan en el renderer y lo exportado se publica aquí; el
+ * panel de vista previa lo monta con react-dom. El resto de archivos con JSX
+ * se ejecuta como cualquier otro código. La vista previa vive hasta la siguiente
+ * ejecución: mientras tanto los timers, eventos y actualizaciones de estado
+ * de los componentes siguen funcionando y sus errores llegan a los resultados.
+ */
+
+import { transform } from "@babel/standalone";
+import type * as t from "@babel/types";
+
+export interface ReactPreviewTarget {
+  /** Identificador de la ejecución que generó la vista previa */
+  id: number;
+  /** Componente o elemento exportado por el archivo (undefined si no exporta nada) */
+  content: unknown;
+  /** Envía a los resultados un error lanzado por los componentes */
+  reportError: (error: unknown) => void;
+}
+
+type PreviewListener = (target: ReactPreviewTarget | null) => void;
+
+let currentTarget: ReactPreviewTarget | null = null;
+let previewCounter = 0;
+const listeners = new Set<PreviewListener>();
+
+const notify = () => listeners.forEach((listener) => listener(currentTarget));
+
+// Formas de exportar el valor por defecto (filtro rápido antes de analizar)
+const DEFAULT_EXPORT_PATTERN = /\bexport\s+default\b|\bexport\s*\{[^}]*\bdefault\b|\bmodule\.exports\b/;
+
+// Funciones de React cuyo resultado es un componente o un elemento
+const COMPONENT_FACTORIES = ["memo", "forwardRef", "lazy", "createElement", "cloneElement"];
+
+/**
+ * Indica si un nodo del AST contiene JSX
+ */
+const containsJSX = (value: unknown): boolean => {
+  if (!value || typeof value !== "object") return false;
+  if (Array.isArray(value)) return value.some(containsJSX);
+  const node = value as Record<string, unknown>;
+  if (typeof node.type === "string" && node.type.startsWith("JSX")) return true;
+  return Object.keys(node).some(
+    (key) => key !== "loc" && key !== "leadingComments" && key !== "trailingComments" && containsJSX(node[key])
+  );
+};
+
+/**
+ * Busca el valor de una declaración de nivel superior (función, clase o variable)
+ */
+const findTopLevelValue = (body: t.Statement[], name: string): t.Node | null => {
+  for (const statement of body) {
+    const declaration = statement.type === "ExportNamedDeclaration" ? statement.declaration : statement;
+    if (!declaration) continue;
+    if (
+      (declaration.type === "FunctionDeclaration" || declaration.type === "ClassDeclaration") &&
+      declaration.id?.name === name
+    ) {
+      return declaration;
+    }
+    if (declaration.type === "VariableDeclaration") {
+      const declarator = declaration.declarations.find(
+        ({ id }) => id.type === "Identifier" && id.name === name
+      );
+      if (declarator) return declarator.init ?? null;
+    }
+  }
+  return null;
+};
+
+/**
+ * Indica si el valor exportado es un componente (función o clase con JSX o
+ * con nombre en mayúscula, memo, forwardRef...) o un elemento
+ */
+const isComponentOrElement = (node: t.Node | null, body: t.Statement[], depth = 0): boolean => {
+  if (!node || depth > 5) return false;
+
+  switch (node.type) {
+    case "JSXElement":
+    case "JSXFragment":
+      return true;
+    case "FunctionDeclaration":
+    case "FunctionExpression":
+    case "ArrowFunctionExpression":
+    case "ClassDeclaration":
+    case "ClassExpression": {
+      const name = "id" in node && node.id ? node.id.name : "";
+      return /^[A-Z]/.test(name) || containsJSX(node.body);
+    }
+    case "CallExpression": {
+      const { callee } = node;
+      const name =
+        callee.type === "MemberExpression" && callee.property.type === "Identifier"
+          ? callee.property.name
+          : callee.type === "Identifier"
+            ? callee.name
+            : "";
+      return COMPONENT_FACTORIES.includes(name);
+    }
+    case "Identifier":
+      return /^[A-Z]/.test(node.name) || isComponentOrElement(findTopLevelValue(body, node.name), body, depth + 1);
+    // X as Y, X!, X satisfies Y
+    case "TSAsExpression":
+    case "TSNonNullExpression":
+    case "TSSatisfiesExpression":
+    case "TSTypeAssertion":
+      return isComponentOrElement(node.expression, body, depth + 1);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Obtiene el valor exportado por defecto: export default, export
+ * { X as default } o module.exports = ...
+ */
+const findDefaultExport = (body: t.Statement[]): t.Node | null => {
+  for (const statement of body) {
+    if (statement.type === "ExportDefaultDeclaration") return statement.declaration;
+    if (statement.type === "ExportNamedDeclaration" && !statement.source) {
+      const specifier = statement.specifiers.find(
+        (item) => item.exported.type === "Identifier" && item.exported.name === "default"
+      );
+      if (specifier?.type === "ExportSpecifier") return specifier.local;
+    }
+    if (statement.type === "ExpressionStatement" && statement.expression.type === "AssignmentExpression") {
+      const { left, right } = statement.expression;
+      if (
+        left.type === "MemberExpression" &&
+        left.object.type === "Identifier" &&
+        left.object.name === "module" &&
+        left.property.type === "Identifier" &&
+        left.property.name === "exports"
+      ) {
+        return right;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Indica si el código genera vista previa: el archivo exporta por defecto (o
+ * con module.exports) un componente o un elemento de React
+ */
+export const isReactPreviewCode = (code: string): boolean => {
+  // Sin export por defecto no hace falta analizar el código
+  if (!DEFAULT_EXPORT_PATTERN.test(code)) return false;
+
+  try {
+    const { ast } = transform(code, {
+      ast: true,
+      code: false,
+      babelrc: false,
+      configFile: false,
+      parserOpts: { plugins: ["jsx", "typescript"] },
+    });
+    const body: t.Statement[] = ast?.program.body ?? [];
+    return isComponentOrElement(findDefaultExport(body), body);
+  } catch {
+    // Con errores de sintaxis la ejecución normal los informa
+    return false;
+  }
+};
+
+/**
+ * Obtiene lo que debe mostrarse de los exports de un archivo: el export por
+ * defecto o, con `module.exports = ...`, el valor exportado
+ */
+export const getPreviewContent = (exports: unknown): unknown => {
+  if (exports === null || typeof exports !== "object") return exports;
+  const { default: defaultExport, __esModule } = exports as { default?: unknown; __esModule?: boolean };
+  return "default" in exports || __esModule ? defaultExport : undefined;
+};
+
+/**
+ * Publica la vista previa de una ejecución
+ * @returns Función que la retira (si no fue reemplazada por otra)
+ */
+export const showReactPreview = (
+  content: unknown,
+  reportError: (error: unknown) => void
+): (() => void) => {
+  const target: ReactPreviewTarget = { id: ++previewCounter, content, reportError };
+  currentTarget = target;
+  notify();
+
+  return () => {
+    if (currentTarget !== target) return;
+    currentTarget = null;
+    notify();
+  };
+};
+
+/**
+ * Vista previa actual, o null si la última ejecución no la generó
+ */
+export const getReactPreview = (): ReactPreviewTarget | null => currentTarget;
+
+/**
+ * Escucha los cambios de la vista previa
+ * @returns Función para dejar de escuchar
+ */
+export const subscribeReactPreview = (listener: PreviewListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
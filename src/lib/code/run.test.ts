@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { run } from "./run";
+
+/**
+ * Ejecuta un fragmento en el hilo actual (sin worker), como el modo directo del editor
+ */
+const runDirect = async (code: string) => {
+  const results = await run(code, "javascript", { useWorker: false, transform: { loopIterationLimit: 1000 } });
+  if (results instanceof Error) throw results;
+  return results.map(({ type, element }) => ({ type, content: element.content }));
+};
+
+describe("ejecución directa", () => {
+  it("ejecuta while (true) con break", async () => {
+    const results = await runDirect(`let i = 0;\nwhile (true) {\n  if (++i === 5) break;\n}\nconsole.log(i);`);
+
+    expect(results).toEqual([{ type: "execution", content: "5" }]);
+  });
+
+  it("detiene un for (;;) sin salida con la protección de bucles", async () => {
+    const results = await runDirect(`for (;;) {}`);
+
+    expect(results).toEqual([
+      expect.objectContaining({ type: "error", content: expect.stringContaining("Bucle detenido") }),
+    ]);
+  });
+});
@@ -1,12 +1,16 @@
 import { Colors } from "../elementParser";
-import { CodeLogger, parseError, formatErrorForDisplay } from "./errorHandler";
-import { detectInfiniteLoops } from "./detectors";
-import { transformCode } from "./code-transformer";
-import { createGlobalContext } from "./global-context";
-import { getResultType, getColorForMethod, type Result, type UnparsedResult, type ModuleRef } from "./types";
-import { stringify } from "../elementParser";
-
-const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor;
+import { CodeLogger } from "./errorHandler";
+import { transformCodeWithMap, transformWorkspaceModules, type TransformOptions } from "./code-transformer";
+import { executeTransformedCode } from "./executor";
+import { WorkerSandbox } from "./worker-sandbox";
+import { ObjectRegistry, handleInspectRequest } from "./inspector";
+import { type Result, type InspectRequest, type InspectResponse } from "./types";
+import type { WorkspaceModuleBundle, WorkspaceSource } from "./workspace-modules";
+import { loadPackagesWithDependencies, type CachedPackage } from "../packages/package-cache";
+import { findPackageRequires } from "../packages/package-loader";
+import type { NodeEnvironmentOptions } from "../node";
+import { runInNodeProcess } from "./node-process";
+import { getPreviewContent, isReactPreviewCode, showReactPreview } from "./react-preview";
 
 // Configuración de ejecución temporal
 const EXECUTOR_CONFIG = {
@@ -16,183 +20,62 @@ const EXECUTOR_CONFIG = {
 };
 
 /**
- * Crea función debug para capturar salidas de console
- * @param unparsedResults - Array para almacenar resultados
- * @returns Función debug para inyectar en el código
+ * Opciones de ejecución para run()
  */
-const createDebugFunction = (unparsedResults: UnparsedResult[]) => {
-  return (lineNumber: number, method: string = "log", ...content: any[]) => {
-    let processedContent;
+export interface RunOptions {
+  /** Ejecutar en un Web Worker en lugar del hilo del renderer */
+  useWorker?: boolean;
+  /** Tiempo máximo antes de terminar el worker (ms) */
+  timeout?: number;
+  /** Se invoca con cada resultado en cuanto se produce */
+  onResult?: (result: Result) => void;
+  /** Tiempo máximo que el código puede seguir con trabajo asíncrono pendiente (ms) */
+  asyncWaitTime?: number;
+  /** Señal para cancelar la ejecución en curso */
+  signal?: AbortSignal;
+  /** Archivos del workspace para resolver imports relativos */
+  workspace?: WorkspaceSource;
+  /** Ejecutar el archivo en modo Node (módulos integrados en memoria) */
+  node?: NodeEnvironmentOptions;
+  /** Valores que se muestran sin console.log (modo scratchpad, declaraciones) y límites de bucles y recursión */
+  transform?: TransformOptions;
+}
 
-    // Manejar referencias especiales (cuando no se llama la función)
-    if (
-      method === "_reference" &&
-      content.length === 1 &&
-      typeof content[0] === "object"
-    ) {
-      const ref = content[0] as ModuleRef;
+// Sandbox compartido: una ejecución nueva termina el worker de la anterior
+const workerSandbox = new WorkerSandbox();
 
-      if (ref.type === "method" && ref.object === "console") {
-        // console.log sin llamar -> mostrar como función
-        processedContent = `ƒ ${ref.method}()`;
-      } else if (ref.type === "object" && ref.object === "console") {
-        // console sin más -> mostrar objeto console completo
-        processedContent = {
-          _isConsoleObject: true,
-          methods: [
-            "log", "warn", "error", "info", "debug", "table", "dir", "dirxml",
-            "trace", "group", "groupCollapsed", "groupEnd", "count", "countReset",
-            "time", "timeEnd", "timeLog", "timeStamp", "assert", "clear",
-            "profile", "profileEnd", "context", "createTask",
-          ],
-          memory: {
-            totalJSHeapSize: 24500000,
-            usedJSHeapSize: 17100000,
-            jsHeapSizeLimit: 3760000000,
-          },
-        };
-      } else {
-        processedContent = content[0];
-      }
-    } else if (content.length === 0) {
-      processedContent = undefined;
-    } else if (content.length === 1) {
-      processedContent = content[0];
-    } else {
-      // Para múltiples argumentos, mantenerlos como array pero marcarlos para procesamiento especial
-      processedContent = {
-        _isMultipleArgs: true,
-        args: content,
-      };
-    }
+// Origen de los objetos que muestra el inspector: el worker de la última
+// ejecución o, en ejecución directa, su registro en el renderer
+let lastRunUsedWorker = false;
+let directRegistry: ObjectRegistry | null = null;
 
-    unparsedResults.push({
-      lineNumber,
-      method: method === "_reference" ? "log" : method,
-      content: processedContent,
-    });
-  };
-};
+// Vista previa de React de la última ejecución: sigue viva hasta la siguiente
+let previewController: AbortController | null = null;
 
 /**
- * Procesa los resultados sin parsear en resultados finales
- * @param unparsedResults - Resultados sin procesar
- * @returns Promesa con resultados procesados
+ * Lee el snapshot de paquetes instalados para enviarlo al worker
  */
-const processResults = async (unparsedResults: UnparsedResult[]): Promise<Result[]> => {
-  const results: Result[] = [];
-
-  for (const result of unparsedResults) {
-    try {
-      const stringifiedContent = await stringify(result.content);
-      if (!stringifiedContent) {
-        throw new Error("No se pudo convertir el contenido");
-      }
-
-      const resultType = getResultType(result.method || "log");
-
-      results.push({
-        lineNumber: result.lineNumber,
-        element: {
-          content: stringifiedContent.content,
-          color: getColorForMethod(
-            result.method || "log",
-            stringifiedContent.color
-          ),
-        },
-        type: resultType,
-        method: result.method,
-      });
-    } catch (error: any) {
-      const errorInfo = parseError(error, "execution");
-      CodeLogger.log("error", "Error procesando resultado", errorInfo);
-
-      results.push({
-        lineNumber: result.lineNumber,
-        element: {
-          content: formatErrorForDisplay(errorInfo),
-          color: Colors.ERROR,
-        },
-        type: "error" as const,
-        errorInfo,
-      });
-    }
+const getInstalledPackagesSnapshot = (): Record<string, any> => {
+  try {
+    return JSON.parse(localStorage.getItem("jsrunner-packages") || "{}");
+  } catch {
+    return {};
   }
-
-  return results;
 };
 
 /**
- * Ejecuta código transformado directamente (funcionalidad restaurada temporalmente)
+ * Carga de la caché local los paquetes que importa el código (y sus dependencias)
+ * @param codes - Código transformado de la entrada y de los módulos del workspace
  */
-const executeCodeDirect = async (transformedCode: string): Promise<Result[]> => {
-  let unparsedResults: UnparsedResult[] = [];
+const loadRequiredPackages = async (codes: string[]): Promise<Record<string, CachedPackage>> => {
+  const names = Array.from(new Set(codes.flatMap(findPackageRequires)));
+  if (names.length === 0 || typeof indexedDB === "undefined") return {};
 
   try {
-    // Obtener contexto global
-    const globalContext = createGlobalContext();
-    const globalKeys = Object.keys(globalContext);
-    const globalValues = Object.values(globalContext);
-
-    // Crear función debug
-    const debugFunction = createDebugFunction(unparsedResults);
-
-    // Crear función async con contexto global
-    const asyncFunction = AsyncFunction(
-      "debug",
-      ...globalKeys,
-      transformedCode
-    );
-
-    // Ejecutar el código
-    await asyncFunction(debugFunction, ...globalValues);
-    
-    // Espera para operaciones asíncronas
-    const hasAsyncCode = transformedCode.includes("await") || transformedCode.includes("async") || transformedCode.includes("Promise");
-    
-    if (unparsedResults.length === 0 || hasAsyncCode) {
-      let waitTime = 0;
-      const maxWait = hasAsyncCode ? 3000 : 1000;
-      let lastResultCount = unparsedResults.length;
-      let stableChecks = 0;
-      const requiredStableChecks = 3;
-      const checkInterval = 300;
-      
-      while (waitTime < maxWait) {
-        await new Promise((resolve) => setTimeout(resolve, checkInterval));
-        waitTime += checkInterval;
-        
-        // Verificar si aparecieron nuevos resultados
-        if (unparsedResults.length > lastResultCount) {
-          const newResults = unparsedResults.length - lastResultCount;
-          lastResultCount = unparsedResults.length;
-          stableChecks = 0;
-          continue;
-        }
-        
-        // Incrementar contador de estabilidad
-        stableChecks++;
-        
-        // Si tenemos resultados y han sido estables
-        if (unparsedResults.length > 0 && stableChecks >= requiredStableChecks) {
-          break;
-        }
-      }
-    }
-
-    // Procesar resultados
-    return await processResults(unparsedResults);
-
-  } catch (error: any) {
-    const errorInfo = parseError(error, "execution");
-    return [{
-      element: {
-        content: formatErrorForDisplay(errorInfo),
-        color: Colors.ERROR,
-      },
-      type: "error",
-      errorInfo,
-    }];
+    return await loadPackagesWithDependencies(names);
+  } catch (error) {
+    CodeLogger.log("warn", "No se pudo leer la caché de paquetes", error);
+    return {};
   }
 };
 
@@ -204,42 +87,147 @@ const executeCodeDirect = async (transformedCode: string): Promise<Result[]> =>
  */
 export async function run(
   code: string,
-  fileLanguage?: string
+  fileLanguage?: string,
+  options: RunOptions = {}
 ): Promise<Result[] | Error> {
+  // Una ejecución nueva desmonta la vista previa anterior
+  stopReactPreview();
+
   if (code.trim() === "") return [];
 
+  // Los componentes se montan con el react-dom del renderer: los archivos que
+  // exportan un componente o un elemento no pueden ejecutarse en el worker
+  const childProcess = !!options.node?.childProcess;
+  const preview = !childProcess && isReactPreviewCode(code);
+  const useWorker = !preview && !childProcess && options.useWorker !== false && WorkerSandbox.isSupported();
+
+  // En el hilo actual el timeout del motor no puede interrumpir código
+  // síncrono: el watchdog lo detiene desde los puntos de control del código
+  const watchdog = !useWorker && !childProcess;
+  const syncTimeLimit = Math.min(
+    options.timeout ?? EXECUTOR_CONFIG.EXECUTION_TIMEOUT,
+    EXECUTOR_CONFIG.EXECUTION_TIMEOUT
+  );
+
   CodeLogger.log("info", "Iniciando proceso de ejecución completo", {
     codeLength: code.length,
     fileLanguage,
+    useWorker,
   });
 
-  // Detectar patrones de código potencialmente infinito
-  const hasInfiniteLoop = detectInfiniteLoops(code);
-  if (hasInfiniteLoop) {
-    CodeLogger.log("warn", "Detectado posible bucle infinito");
-    return [
-      {
-        element: {
-          content:
-            "⚠️ Código bloqueado: Se detectó un posible bucle infinito (while(true), for(;;), etc.). Estos patrones pueden congelar la aplicación.",
-          color: Colors.WARNING,
-        },
-        type: "error",
-        errorInfo: {
-          type: "Error",
-          message: "Posible bucle infinito detectado",
-          phase: "validation",
-        },
-      },
-    ];
-  }
+  // Los archivos importados se protegen con los mismos límites que la entrada.
+  // En el proceso Node real el require es el de Node: los imports relativos
+  // se reescriben con la ruta exacta del archivo
+  const limits: TransformOptions = {
+    loopIterationLimit: options.transform?.loopIterationLimit,
+    asyncLoopTimeLimit: options.transform?.asyncLoopTimeLimit,
+    recursionDepthLimit: options.transform?.recursionDepthLimit,
+    workspacePaths:
+      childProcess && options.node
+        ? [...Object.keys(options.node.files), options.node.entryPath]
+        : undefined,
+  };
 
   try {
     // Transformar código
-    const transformedCode = transformCode(code, fileLanguage);
-    
-    // Ejecutar código directamente (restaurado temporalmente)
-    const results = await executeCodeDirect(transformedCode);
+    const { code: transformedCode, map: sourceMap, requires } = transformCodeWithMap(
+      code,
+      fileLanguage,
+      options.workspace?.entryPath ?? options.node?.entryPath,
+      { ...options.transform, workspacePaths: limits.workspacePaths, watchdog }
+    );
+
+    // Proceso Node real: los archivos del workspace que importa el código se
+    // transforman igual que la entrada (ESM/TypeScript a CommonJS)
+    if (childProcess && options.node) {
+      const { entryPath, files } = options.node;
+      const modules = transformWorkspaceModules(requires, { entryPath, files }, limits);
+      const transformedFiles = { ...files };
+      for (const [path, module] of Object.entries(modules)) {
+        transformedFiles[path] = module.code;
+      }
+
+      const results = await runInNodeProcess(transformedCode, {
+        entryPath,
+        files: transformedFiles,
+        env: (globalThis as any).__JSRUNNER_ENV_VARS__,
+        onResult: options.onResult,
+        signal: options.signal,
+        sourceMap: sourceMap ?? undefined,
+      });
+      CodeLogger.log("info", "Proceso de ejecución completado exitosamente");
+      return results;
+    }
+
+    // Transformar los archivos del workspace importados con rutas relativas
+    const modules: WorkspaceModuleBundle | undefined = options.workspace
+      ? {
+          entryPath: options.workspace.entryPath,
+          requires,
+          modules: transformWorkspaceModules(requires, options.workspace, {
+            ...limits,
+            watchdog,
+          }),
+        }
+      : undefined;
+
+    // El código de los paquetes se lee de la caché antes de ejecutar: require es síncrono
+    const packages = await loadRequiredPackages([
+      transformedCode,
+      ...Object.values(modules?.modules ?? {}).map((module) => module.code),
+    ]);
+
+    lastRunUsedWorker = useWorker;
+    directRegistry = useWorker ? null : new ObjectRegistry();
+
+    // La vista previa tiene su propia señal: la de la ejecución deja de
+    // abortarse al terminar, pero la vista previa sigue hasta la próxima ejecución
+    let signal = options.signal;
+    if (preview) {
+      const controller = new AbortController();
+      previewController = controller;
+      // El enlace con la señal de la ejecución se quita cuando termina la vista previa
+      const abortPreview = () => controller.abort();
+      options.signal?.addEventListener("abort", abortPreview, { once: true });
+      controller.signal.addEventListener(
+        "abort",
+        () => options.signal?.removeEventListener("abort", abortPreview),
+        { once: true }
+      );
+      signal = controller.signal;
+    }
+
+    const results = useWorker
+      ? await workerSandbox.execute(transformedCode, {
+          timeout: options.timeout ?? EXECUTOR_CONFIG.EXECUTION_TIMEOUT,
+          onResult: options.onResult,
+          envVars: (globalThis as any).__JSRUNNER_ENV_VARS__,
+          installedPackages: getInstalledPackagesSnapshot(),
+          packages,
+          asyncWaitTime: options.asyncWaitTime,
+          sourceMap: sourceMap ?? undefined,
+          modules,
+          node: options.node,
+          signal: options.signal,
+        })
+      : await executeTransformedCode(transformedCode, {
+          onResult: options.onResult,
+          asyncWaitTime: options.asyncWaitTime,
+          packages,
+          registry: directRegistry ?? undefined,
+          sourceMap: sourceMap ?? undefined,
+          modules,
+          node: options.node,
+          signal,
+          keepAlive: preview,
+          syncTimeLimit,
+          onModuleExports: preview
+            ? (exports, reportError) => {
+                const hidePreview = showReactPreview(getPreviewContent(exports), reportError);
+                signal?.addEventListener("abort", hidePreview, { once: true });
+              }
+            : undefined,
+        });
     
     CodeLogger.log("info", "Proceso de ejecución completado exitosamente");
     return results;
@@ -281,6 +269,26 @@ export async function run(
   }
 }
 
+/**
+ * Desmonta la vista previa de React de la última ejecución (si la hay)
+ */
+export function stopReactPreview() {
+  previewController?.abort();
+  previewController = null;
+}
+
+/**
+ * Obtiene información de un objeto mostrado en los resultados de la última ejecución
+ * @param request - Petición del inspector (propiedades o getter)
+ * @returns Respuesta con las propiedades, el valor del getter o un error
+ */
+export function inspectObject(request: InspectRequest): Promise<InspectResponse> {
+  if (lastRunUsedWorker) {
+    return workerSandbox.inspect(request);
+  }
+  return Promise.resolve(handleInspectRequest(directRegistry, request));
+}
+
 /**
  * Función para configurar variables de entorno personalizadas
  * @param envVars - Objeto con variables de entorno
@@ -293,7 +301,8 @@ export function setEnvironmentVariables(envVars: Record<string, string>) {
 }
 
 // Re-exportar funciones útiles de los módulos
-export { transformCode } from "./code-transformer";
+export { transformCode, transformCodeWithMap } from "./code-transformer";
 export { detectJSX, detectTypeScript, detectInfiniteLoops } from "./detectors";
 export { createGlobalContext } from "./global-context";
+export { executeTransformedCode } from "./executor";
 export type { Result, UnparsedResult, ResultType } from "./types";
@@ -0,0 +1,61 @@
+/**
+ * Punto de entrada del Web Worker que ejecuta el código del usuario.
+ *
+ * Recibe el código ya transformado por Babel en el renderer, lo ejecuta con el
+ * mismo contexto global que la ejecución directa y envía cada resultado al hilo
+ * principal en cuanto se produce. El renderer puede terminar el worker en
+ * cualquier momento (timeout o cancelación) sin bloquear la interfaz.
+ *
+ * Tras terminar, el worker sigue vivo hasta la siguiente ejecución para
+ * responder a las peticiones del inspector de objetos.
+ */
+
+import { executeTransformedCode } from "./executor";
+import { parseError } from "./error-format";
+import { ObjectRegistry, handleInspectRequest } from "./inspector";
+import type { SandboxRequest, SandboxResponse } from "./types";
+
+// Objetos de la ejecución de este worker, disponibles para el inspector
+let registry: ObjectRegistry | null = null;
+
+const post = (message: SandboxResponse) => {
+  self.postMessage(message);
+};
+
+self.onmessage = async (event: MessageEvent<SandboxRequest>) => {
+  const request = event.data;
+  if (!request) return;
+
+  if (request.type === "inspect") {
+    post({
+      type: "inspect-result",
+      runId: request.runId,
+      requestId: request.requestId,
+      response: handleInspectRequest(registry, request.request),
+    });
+    return;
+  }
+
+  const { runId } = request;
+  registry = new ObjectRegistry();
+
+  try {
+    // process.env dentro del sandbox se construye a partir de esta variable
+    (globalThis as any).__JSRUNNER_ENV_VARS__ = request.envVars;
+
+    await executeTransformedCode(request.code, {
+      installedPackages: request.installedPackages,
+      packages: request.packages,
+      asyncWaitTime: request.asyncWaitTime,
+      sourceMap: request.sourceMap,
+      modules: request.modules,
+      node: request.node,
+      registry,
+      onResult: (result) => post({ type: "result", runId, result }),
+    });
+
+    post({ type: "done", runId });
+  } catch (error: any) {
+    post({ type: "fatal", runId, error: parseError(error, "execution", request.sourceMap) });
+  }
+};
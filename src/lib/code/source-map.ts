@@ -0,0 +1,131 @@
+/**
+ * Lectura de source maps (v3) generados por Babel.
+ *
+ * Solo se necesita traducir posiciones del código transformado al original,
+ * así que se decodifica el campo mappings (VLQ en base64) sin depender de una
+ * librería externa. Funciona igual en el renderer y dentro del worker.
+ */
+
+export interface RawSourceMap {
+  version: number;
+  sources: string[];
+  names: string[];
+  mappings: string;
+  file?: string;
+  sourcesContent?: Array<string | null>;
+}
+
+export interface SourcePosition {
+  /** Línea (base 1) */
+  line: number;
+  /** Columna (base 1) */
+  column: number;
+  /** Archivo original, si el map lo indica */
+  source?: string;
+}
+
+// Segmento decodificado: [columna generada, índice de fuente, línea original, columna original]
+type Segment = [number, number, number, number];
+
+const BASE64_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_VALUES = new Map(Array.from(BASE64_CHARS, (char, index) => [char, index]));
+
+const VLQ_CONTINUATION_BIT = 32;
+const VLQ_VALUE_MASK = 31;
+
+// Los mappings se decodifican una vez por map
+const decodedCache = new WeakMap<RawSourceMap, Segment[][]>();
+
+/**
+ * Decodifica los valores VLQ de un segmento
+ */
+const decodeVLQ = (segment: string): number[] => {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) break;
+
+    value += (digit & VLQ_VALUE_MASK) << shift;
+    if (digit & VLQ_CONTINUATION_BIT) {
+      shift += 5;
+      continue;
+    }
+
+    // El bit menos significativo indica el signo
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+
+  return values;
+};
+
+/**
+ * Convierte el campo mappings en segmentos absolutos agrupados por línea generada
+ */
+const decodeMappings = (mappings: string): Segment[][] => {
+  const lines: Segment[][] = [];
+  let sourceIndex = 0;
+  let sourceLine = 0;
+  let sourceColumn = 0;
+
+  for (const line of mappings.split(";")) {
+    const segments: Segment[] = [];
+    let generatedColumn = 0;
+
+    for (const rawSegment of line.split(",")) {
+      if (!rawSegment) continue;
+      const values = decodeVLQ(rawSegment);
+      generatedColumn += values[0];
+
+      // Los segmentos de un solo valor no apuntan al código original
+      if (values.length < 4) continue;
+      sourceIndex += values[1];
+      sourceLine += values[2];
+      sourceColumn += values[3];
+      segments.push([generatedColumn, sourceIndex, sourceLine, sourceColumn]);
+    }
+
+    lines.push(segments);
+  }
+
+  return lines;
+};
+
+/**
+ * Traduce una posición del código transformado a la del código original
+ * @param map - Source map devuelto por Babel
+ * @param line - Línea en el código transformado (base 1)
+ * @param column - Columna en el código transformado (base 1)
+ * @returns Posición original, o null si la línea no tiene correspondencia
+ */
+export const originalPositionFor = (
+  map: RawSourceMap,
+  line: number,
+  column: number
+): SourcePosition | null => {
+  let lines = decodedCache.get(map);
+  if (!lines) {
+    lines = decodeMappings(map.mappings);
+    decodedCache.set(map, lines);
+  }
+
+  const segments = lines[line - 1];
+  if (!segments || segments.length === 0) return null;
+
+  // Último segmento que empieza antes de la columna (o el primero de la línea)
+  let match = segments[0];
+  for (const segment of segments) {
+    if (segment[0] > column - 1) break;
+    match = segment;
+  }
+
+  return {
+    line: match[2] + 1,
+    column: match[3] + 1,
+    source: map.sources[match[1]],
+  };
+};
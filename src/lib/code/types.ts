@@ -1,12 +1,92 @@
 import { Colors, type ColoredElement } from "../elementParser";
-import { type ErrorInfo } from "./errorHandler";
+import { type ErrorInfo } from "./error-format";
+import type { RawSourceMap } from "./source-map";
+import type { WorkspaceModuleBundle } from "./workspace-modules";
+import type { CachedPackage } from "../packages/package-cache";
+import type { NodeEnvironmentOptions } from "../node";
 
 export interface UnparsedResult {
   lineNumber?: number;
   method?: string;
   content: ColoredElement;
+  table?: ConsoleTableData;
+  groupId?: string;
+  groupDepth?: number;
+  group?: ConsoleGroupInfo;
+  inspect?: InspectorNode[];
+  expression?: boolean;
+  label?: string;
+  /**
+   * Texto del contenido calculado al registrarse el resultado (valores de
+   * declaraciones: el código puede seguir mutando el objeto antes de procesarlo)
+   */
+  snapshot?: Promise<{ content: string; color?: Colors }>;
 }
 
+/**
+ * Cabecera de un console.group / console.groupCollapsed
+ */
+export interface ConsoleGroupInfo {
+  id: string;
+  collapsed: boolean;
+}
+
+/**
+ * Datos serializables de console.table (celdas ya formateadas como texto)
+ */
+export interface ConsoleTableData {
+  columns: string[];
+  rows: Array<{ index: string; cells: Record<string, string> }>;
+  truncated?: boolean;
+}
+
+// ===============================
+// INSPECTOR DE OBJETOS
+// ===============================
+
+export type InspectorObjectSubtype =
+  | "object"
+  | "array"
+  | "map"
+  | "set"
+  | "date"
+  | "regexp"
+  | "error"
+  | "promise"
+  | "instance";
+
+/**
+ * Valor serializable para el inspector. Los objetos solo llevan un resumen y un
+ * id: sus propiedades se piden bajo demanda al contexto donde se ejecutó el código
+ */
+export type InspectorNode =
+  | { kind: "primitive"; type: string; value: string }
+  | { kind: "function"; name: string }
+  | {
+      kind: "object";
+      id: number;
+      subtype: InspectorObjectSubtype;
+      className: string;
+      preview: string;
+      expandable: boolean;
+    };
+
+export interface InspectorProperty {
+  key: string;
+  value?: InspectorNode;
+  // Los getters no se evalúan hasta que el usuario hace clic
+  getter?: boolean;
+}
+
+export type InspectRequest =
+  | { objectId: number; action: "properties" }
+  | { objectId: number; action: "getter"; key: string };
+
+export type InspectResponse =
+  | { properties: InspectorProperty[]; truncated?: number }
+  | { value: InspectorNode }
+  | { error: string };
+
 export interface Result {
   lineNumber?: number;
   element: {
@@ -16,6 +96,18 @@ export interface Result {
   type: "execution" | "error" | "warning" | "info";
   method?: string;
   errorInfo?: ErrorInfo;
+  table?: ConsoleTableData;
+  // Grupo abierto más interno cuando se produjo el resultado y su profundidad
+  groupId?: string;
+  groupDepth?: number;
+  // Presente solo en la cabecera de un grupo
+  group?: ConsoleGroupInfo;
+  // Argumentos estructurados cuando alguno es un objeto inspeccionable
+  inspect?: InspectorNode[];
+  // Valor de una expresión suelta (modo scratchpad), no de una llamada a console
+  expression?: boolean;
+  // Variable a la que pertenece el valor (valores de declaraciones y asignaciones)
+  label?: string;
 }
 
 export interface ModuleRef {
@@ -48,6 +140,38 @@ export interface ProcessedContent {
 
 export type ResultType = "execution" | "error" | "warning" | "info";
 
+// ===============================
+// PROTOCOLO DEL SANDBOX (renderer <-> worker)
+// ===============================
+
+export interface SandboxRunRequest {
+  type: "run";
+  runId: string;
+  code: string;
+  envVars: Record<string, string>;
+  installedPackages: Record<string, any>;
+  packages?: Record<string, CachedPackage>;
+  asyncWaitTime?: number;
+  sourceMap?: RawSourceMap;
+  modules?: WorkspaceModuleBundle;
+  node?: NodeEnvironmentOptions;
+}
+
+export interface SandboxInspectRequest {
+  type: "inspect";
+  runId: string;
+  requestId: string;
+  request: InspectRequest;
+}
+
+export type SandboxRequest = SandboxRunRequest | SandboxInspectRequest;
+
+export type SandboxResponse =
+  | { type: "result"; runId: string; result: Result }
+  | { type: "done"; runId: string }
+  | { type: "fatal"; runId: string; error: ErrorInfo }
+  | { type: "inspect-result"; runId: string; requestId: string; response: InspectResponse };
+
 // ===============================
 // FUNCIONES DE RESULTADO (consolidadas desde result-helpers.ts)
 // ===============================
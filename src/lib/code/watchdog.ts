@@ -0,0 +1,64 @@
+/**
+ * Watchdog del código síncrono.
+ *
+ * El plugin de Babel del watchdog agrega puntos de control __watchdog(line) en
+ * los bucles y al entrar en las funciones. Cada punto de control mide cuánto
+ * tiempo lleva el código corriendo sin ceder el hilo: la medición empieza en
+ * el primer punto de control y se reinicia en la siguiente tarea del event
+ * loop, que solo llega cuando el código (y sus microtareas) se detienen. Así
+ * un bucle o una recursión síncrona que no termina se interrumpe aunque el
+ * timeout del motor no pueda ejecutarse mientras el hilo está ocupado.
+ */
+
+// Cada cuántos puntos de control se consulta el reloj
+const CHECK_INTERVAL = 256;
+
+/**
+ * Error del watchdog: loc indica la línea del punto de control, que
+ * parseError usa como posición del resultado
+ */
+const createTimeoutError = (line: number, limit: number) =>
+  Object.assign(
+    new Error(
+      `Ejecución detenida: el código síncrono tardó demasiado (más de ${limit / 1000}s sin ceder el hilo)`
+    ),
+    { loc: { line } }
+  );
+
+/**
+ * Crea la función de los puntos de control de una ejecución
+ * @param limit - Tiempo máximo (ms) que el código puede correr sin ceder el hilo
+ * @returns Función __watchdog(line) para inyectar en el código
+ */
+export const createWatchdog = (limit: number) => {
+  let sliceStart = 0;
+  let calls = 0;
+
+  return (line: number) => {
+    if (sliceStart !== 0 && ++calls % CHECK_INTERVAL !== 0) return;
+
+    const now = Date.now();
+    if (sliceStart === 0) {
+      sliceStart = now;
+      // La porción síncrona termina cuando el hilo atiende la siguiente tarea
+      globalThis.setTimeout(() => {
+        sliceStart = 0;
+      }, 0);
+      return;
+    }
+
+    // El error se repite en cada punto de control aunque el código lo capture
+    if (now - sliceStart > limit) {
+      calls = CHECK_INTERVAL - 1;
+      throw createTimeoutError(line, limit);
+    }
+  };
+};
+
+/**
+ * Puntos de control sin límite (código sin instrumentar o ejecutado en un
+ * worker, que se termina al vencer el timeout)
+ */
+export function noopWatchdog(): void {
+  // Sin límite: los puntos de control no hacen nada
+}
@@ -0,0 +1,228 @@
+import { Colors } from "../elementParser";
+import { CodeLogger, formatErrorForDisplay, type ErrorInfo } from "./error-format";
+import { OBJECT_UNAVAILABLE_MESSAGE } from "./inspector";
+import type { RawSourceMap } from "./source-map";
+import type { WorkspaceModuleBundle } from "./workspace-modules";
+import type { CachedPackage } from "../packages/package-cache";
+import type { NodeEnvironmentOptions } from "../node";
+import type {
+  InspectRequest,
+  InspectResponse,
+  Result,
+  SandboxRequest,
+  SandboxResponse,
+} from "./types";
+import { SYSTEM_MESSAGES } from "../../constants/config";
+
+export interface WorkerSandboxOptions {
+  /** Tiempo máximo de vida del worker antes de terminarlo a la fuerza (ms) */
+  timeout: number;
+  /** Se invoca con cada resultado en cuanto llega desde el worker */
+  onResult?: (result: Result) => void;
+  envVars?: Record<string, string>;
+  installedPackages?: Record<string, any>;
+  /** Código de los paquetes de la caché local que importa el código */
+  packages?: Record<string, CachedPackage>;
+  asyncWaitTime?: number;
+  /** Source map de la transformación, para ubicar los errores en el código original */
+  sourceMap?: RawSourceMap;
+  /** Archivos del workspace importados por el código (ya transformados) */
+  modules?: WorkspaceModuleBundle;
+  /** Modo Node: el entorno se crea dentro del worker a partir de estas opciones */
+  node?: NodeEnvironmentOptions;
+  /** Al abortarse el worker se termina de inmediato */
+  signal?: AbortSignal;
+}
+
+/**
+ * Convierte un ErrorInfo en un resultado de error listo para mostrar
+ */
+const createErrorResult = (errorInfo: ErrorInfo): Result => ({
+  lineNumber: errorInfo.line,
+  element: {
+    content: formatErrorForDisplay(errorInfo),
+    color: Colors.ERROR,
+  },
+  type: "error",
+  errorInfo,
+});
+
+/**
+ * Sandbox basado en Web Worker.
+ *
+ * Cada ejecución usa un worker nuevo, de modo que un bucle pesado no congela el
+ * editor y el timeout puede terminar el código aunque sea síncrono. Si la
+ * ejecución termina con normalidad el worker se conserva hasta la siguiente para
+ * que el inspector pueda expandir los objetos registrados.
+ */
+export class WorkerSandbox {
+  private worker: Worker | null = null;
+  private runId: string | null = null;
+  private pendingInspections = new Map<string, (response: InspectResponse) => void>();
+  // Cierra la ejecución en curso: resuelve su promesa y limpia su timeout y su listener de abort
+  private finishCurrent: ((extra?: Result) => void) | null = null;
+
+  /**
+   * Indica si el entorno actual puede crear Web Workers
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== "undefined";
+  }
+
+  /**
+   * Ejecuta código transformado dentro de un worker aislado
+   * @param transformedCode - Código producido por transformCode
+   * @param options - Opciones de la ejecución
+   * @returns Promesa con todos los resultados recibidos
+   */
+  execute(transformedCode: string, options: WorkerSandboxOptions): Promise<Result[]> {
+    // La ejecución anterior termina como cancelada antes de reemplazar su worker
+    this.finishCurrent?.({
+      element: { content: SYSTEM_MESSAGES.RUN_SUPERSEDED, color: Colors.WARNING },
+      type: "warning",
+    });
+    this.terminate();
+
+    const runId = crypto.randomUUID();
+    const results: Result[] = [];
+    const worker = new Worker(new URL("./sandbox.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    this.worker = worker;
+    this.runId = runId;
+
+    return new Promise((resolve) => {
+      let settled = false;
+
+      const finish = (extra?: Result, keepAlive = false) => {
+        if (settled) return;
+        settled = true;
+        if (this.finishCurrent === finish) this.finishCurrent = null;
+        clearTimeout(timeoutId);
+        options.signal?.removeEventListener("abort", onAbort);
+        if (extra) {
+          results.push(extra);
+          options.onResult?.(extra);
+        }
+        if (!keepAlive) {
+          this.terminate(worker);
+        }
+        resolve(results);
+      };
+
+      const timeoutId = setTimeout(() => {
+        CodeLogger.log("warn", "Sandbox: timeout alcanzado, terminando worker", {
+          timeout: options.timeout,
+        });
+        finish(
+          createErrorResult({
+            type: "Error",
+            message: SYSTEM_MESSAGES.TIMEOUT,
+            phase: "execution",
+          })
+        );
+      }, options.timeout);
+
+      // Cancelación: terminar el worker mata también el código síncrono en curso
+      const onAbort = () => {
+        CodeLogger.log("info", "Sandbox: ejecución cancelada, terminando worker");
+        finish();
+      };
+      this.finishCurrent = finish;
+      if (options.signal?.aborted) {
+        finish();
+        return;
+      }
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+
+      worker.onmessage = (event: MessageEvent<SandboxResponse>) => {
+        const message = event.data;
+        if (message.runId !== runId) return;
+
+        if (message.type === "inspect-result") {
+          this.pendingInspections.get(message.requestId)?.(message.response);
+          this.pendingInspections.delete(message.requestId);
+          return;
+        }
+        if (settled) return;
+
+        switch (message.type) {
+          case "result":
+            results.push(message.result);
+            options.onResult?.(message.result);
+            break;
+          case "done":
+            finish(undefined, true);
+            break;
+          case "fatal":
+            finish(createErrorResult(message.error));
+            break;
+        }
+      };
+
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        finish(
+          createErrorResult({
+            type: "Error",
+            message: event.message || "Error desconocido en el worker",
+            line: event.lineno || undefined,
+            column: event.colno || undefined,
+            phase: "execution",
+          })
+        );
+      };
+
+      const request: SandboxRequest = {
+        type: "run",
+        runId,
+        code: transformedCode,
+        envVars: options.envVars || {},
+        installedPackages: options.installedPackages || {},
+        packages: options.packages,
+        asyncWaitTime: options.asyncWaitTime,
+        sourceMap: options.sourceMap,
+        modules: options.modules,
+        node: options.node,
+      };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Pide al worker de la última ejecución información de un objeto registrado
+   * @param request - Petición del inspector
+   * @returns Respuesta del worker, o un error si ya no está disponible
+   */
+  inspect(request: InspectRequest): Promise<InspectResponse> {
+    const worker = this.worker;
+    const runId = this.runId;
+    if (!worker || !runId) {
+      return Promise.resolve({ error: OBJECT_UNAVAILABLE_MESSAGE });
+    }
+
+    const requestId = crypto.randomUUID();
+    return new Promise((resolve) => {
+      this.pendingInspections.set(requestId, resolve);
+      const message: SandboxRequest = { type: "inspect", runId, requestId, request };
+      worker.postMessage(message);
+    });
+  }
+
+  /**
+   * Termina el worker activo (o el indicado) de inmediato
+   */
+  terminate(worker: Worker | null = this.worker): void {
+    if (!worker) return;
+    worker.terminate();
+    if (worker === this.worker) {
+      this.worker = null;
+      this.runId = null;
+      // Las inspecciones en curso ya no recibirán respuesta
+      this.pendingInspections.forEach((resolve) =>
+        resolve({ error: OBJECT_UNAVAILABLE_MESSAGE })
+      );
+      this.pendingInspections.clear();
+    }
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Módulos entre archivos del workspace.
+ *
+ * Los imports relativos (`./utils`, `../lib/math.ts`) se resuelven contra los
+ * demás archivos abiertos. El renderer transforma cada archivo alcanzable una
+ * sola vez por ejecución y envía el conjunto al ejecutor, que los evalúa antes
+ * que la entrada en el orden de ESM (primero las dependencias de cada módulo)
+ * esperando a cada uno, de modo que un módulo puede usar await en el nivel
+ * superior. Un import circular recibe los exports parciales del módulo que
+ * todavía se está evaluando. Las dependencias de cada archivo las registra la
+ * transformación (los require del código ya convertido), así que los import()
+ * dinámicos de otros archivos también se evalúan por adelantado.
+ *
+ * No depende de Babel para poder usarse dentro del worker.
+ */
+
+import { getUserCodeLocation } from "./error-format";
+import type { RawSourceMap } from "./source-map";
+
+/** Archivos del workspace disponibles para una ejecución */
+export interface WorkspaceSource {
+  /** Nombre del archivo que se ejecuta */
+  entryPath: string;
+  /** Contenido del resto de archivos, por nombre */
+  files: Record<string, string>;
+}
+
+/** Módulo ya transformado */
+export interface WorkspaceModule {
+  code: string;
+  sourceMap?: RawSourceMap;
+  /** Imports relativos del módulo, en el orden del código */
+  requires: string[];
+}
+
+/** Módulos alcanzables desde el archivo de entrada, listos para evaluar */
+export interface WorkspaceModuleBundle {
+  entryPath: string;
+  /** Imports relativos del archivo de entrada, en el orden del código */
+  requires: string[];
+  modules: Record<string, WorkspaceModule>;
+}
+
+/** Variables de módulo que recibe cada archivo al evaluarse */
+export interface ModuleScope {
+  require: (specifier: string) => unknown;
+  module: { exports: unknown };
+  exports: unknown;
+}
+
+// Extensiones que se prueban cuando el import no la indica
+const MODULE_EXTENSIONS = [".js", ".ts", ".jsx", ".tsx"];
+
+/**
+ * Error producido al evaluar un módulo importado. Ya incluye en el mensaje el
+ * archivo donde ocurrió y quién lo importó
+ */
+export class ModuleEvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModuleEvaluationError";
+  }
+}
+
+/**
+ * Indica si un especificador apunta a otro archivo del workspace
+ */
+export const isRelativeSpecifier = (specifier: string): boolean =>
+  specifier.startsWith("./") || specifier.startsWith("../");
+
+/**
+ * Normaliza una ruta resolviendo los segmentos "." y ".."
+ */
+const normalizePath = (path: string): string => {
+  const segments: string[] = [];
+  for (const segment of path.split("/")) {
+    if (!segment || segment === ".") continue;
+    if (segment === "..") segments.pop();
+    else segments.push(segment);
+  }
+  return segments.join("/");
+};
+
+const dirname = (path: string): string =>
+  path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+
+/**
+ * Ruta relativa (con "./" o "../") desde el directorio de un archivo hasta otro
+ */
+const relativePath = (from: string, to: string): string => {
+  const fromSegments = dirname(from).split("/").filter(Boolean);
+  const toSegments = to.split("/");
+  let common = 0;
+  while (
+    common < fromSegments.length &&
+    common < toSegments.length - 1 &&
+    fromSegments[common] === toSegments[common]
+  ) {
+    common++;
+  }
+  const up = fromSegments.length - common;
+  return (up === 0 ? "./" : "../".repeat(up)) + toSegments.slice(common).join("/");
+};
+
+/**
+ * Resuelve un import relativo contra los archivos disponibles
+ * @param importer - Archivo que contiene el import
+ * @param specifier - Ruta del import (ej. "./utils")
+ * @param paths - Archivos disponibles
+ * @returns Archivo resuelto, o null si no existe
+ */
+export const resolveModulePath = (
+  importer: string,
+  specifier: string,
+  paths: string[]
+): string | null => {
+  const base = normalizePath(`${dirname(importer)}/${specifier}`);
+  const candidates = [
+    base,
+    ...MODULE_EXTENSIONS.map((extension) => base + extension),
+    ...MODULE_EXTENSIONS.map((extension) => `${base}/index${extension}`),
+  ];
+
+  // Convención de TypeScript: "./utils.js" puede referirse a utils.ts
+  if (base.endsWith(".js")) {
+    const withoutExtension = base.slice(0, -3);
+    candidates.push(`${withoutExtension}.ts`, `${withoutExtension}.tsx`);
+  }
+
+  return candidates.find((candidate) => paths.includes(candidate)) ?? null;
+};
+
+/**
+ * Ruta exacta (con extensión) de un import relativo, para el require de Node,
+ * que no prueba las extensiones .ts/.tsx/.jsx
+ * @param importer - Archivo que contiene el import
+ * @param specifier - Ruta del import (ej. "./utils")
+ * @param paths - Archivos disponibles
+ * @returns Ruta relativa al archivo resuelto, o el especificador si no existe
+ */
+export const toExactSpecifier = (importer: string, specifier: string, paths: string[]): string => {
+  const path = resolveModulePath(importer, specifier, paths);
+  return path ? relativePath(importer, path) : specifier;
+};
+
+/**
+ * Agrega al mensaje de un error el archivo donde ocurrió
+ */
+const toModuleError = (
+  error: unknown,
+  path: string,
+  importer: string,
+  sourceMap?: RawSourceMap
+): ModuleEvaluationError => {
+  // Un error de un módulo más profundo ya nombra su archivo: solo se relanza
+  if (error instanceof ModuleEvaluationError) {
+    return new ModuleEvaluationError(error.message);
+  }
+
+  const location = error instanceof Error ? getUserCodeLocation(error.stack, sourceMap) : null;
+  const position = location ? `${path}:${location.line}` : path;
+  const message = error instanceof Error ? error.message : String(error);
+  return new ModuleEvaluationError(`${message} (en ${position}, importado desde '${importer}')`);
+};
+
+/**
+ * Evalúa los módulos que importa el archivo de entrada y crea su función require
+ * @param bundle - Módulos transformados de la ejecución
+ * @param entryModule - Objeto module del archivo de entrada (para imports circulares hacia él)
+ * @param fallbackRequire - require para paquetes (lo que no es relativo)
+ * @param evaluate - Evalúa el código de un módulo con sus variables de módulo
+ * @returns require que resuelve imports relativos desde el archivo de entrada
+ */
+export const loadWorkspaceModules = async (
+  bundle: WorkspaceModuleBundle,
+  entryModule: { exports: unknown },
+  fallbackRequire: (specifier: string) => unknown,
+  evaluate: (module: WorkspaceModule, scope: ModuleScope) => Promise<void>
+) => {
+  const paths = [...Object.keys(bundle.modules), bundle.entryPath];
+  const cache = new Map<string, { exports: unknown }>([[bundle.entryPath, entryModule]]);
+
+  const resolve = (importer: string, specifier: string): string => {
+    const path = resolveModulePath(importer, specifier, paths);
+    if (!path) {
+      throw new Error(`Cannot find module '${specifier}' (importado desde '${importer}')`);
+    }
+    return path;
+  };
+
+  // Los módulos ya están evaluados (o evaluándose, en un import circular):
+  // require solo devuelve sus exports
+  const requireFrom = (importer: string) => (specifier: string) => {
+    if (!isRelativeSpecifier(specifier)) {
+      return fallbackRequire(specifier);
+    }
+
+    const path = resolve(importer, specifier);
+    const cached = cache.get(path);
+    if (!cached) {
+      throw new Error(`Cannot find module '${specifier}' (importado desde '${importer}')`);
+    }
+    return cached.exports;
+  };
+
+  const load = async (path: string, importer: string): Promise<void> => {
+    if (cache.has(path)) return;
+
+    const workspaceModule = bundle.modules[path];
+    const module: { exports: unknown } = { exports: {} };
+    cache.set(path, module);
+
+    try {
+      for (const specifier of workspaceModule.requires) {
+        await load(resolve(path, specifier), path);
+      }
+      await evaluate(workspaceModule, { require: requireFrom(path), module, exports: module.exports });
+    } catch (error) {
+      throw toModuleError(error, path, importer, workspaceModule.sourceMap);
+    }
+  };
+
+  for (const specifier of bundle.requires) {
+    await load(resolve(bundle.entryPath, specifier), bundle.entryPath);
+  }
+
+  return requireFrom(bundle.entryPath);
+};
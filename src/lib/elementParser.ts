@@ -426,6 +426,44 @@ function formatValueSafely(value: any): string {
   }
 }
 
+// Elementos de React: se muestran como JSX en lugar de su estructura interna
+const REACT_ELEMENT_TYPE = Symbol.for("react.element");
+const REACT_FRAGMENT_TYPE = Symbol.for("react.fragment");
+const REACT_ELEMENT_MAX_DEPTH = 3;
+
+const isReactElement = (value: any): boolean =>
+  !!value && value.$$typeof === REACT_ELEMENT_TYPE;
+
+// Nombre de la etiqueta (<div>, <App>, <> para fragmentos)
+function getReactElementName(type: any): string {
+  if (typeof type === "string") return type;
+  if (type === REACT_FRAGMENT_TYPE) return "";
+  if (typeof type === "function") return type.displayName || type.name || "Anonymous";
+  return type?.displayName || "Component";
+}
+
+function formatReactNode(node: any, depth: number): string {
+  if (node === null || node === undefined || typeof node === "boolean") return "";
+  if (Array.isArray(node)) {
+    return node.map((child) => formatReactNode(child, depth)).join("");
+  }
+  if (!isReactElement(node)) return String(node);
+
+  const name = getReactElementName(node.type);
+  const { children, ...props } = node.props || {};
+  const attributes = Object.entries(props)
+    .map(([key, value]) =>
+      typeof value === "string" ? ` ${key}="${value}"` : ` ${key}={${formatValueSafely(value)}}`
+    )
+    .join("");
+
+  if (children === undefined || children === null || (Array.isArray(children) && children.length === 0)) {
+    return `<${name}${attributes} />`;
+  }
+  const inner = depth >= REACT_ELEMENT_MAX_DEPTH ? "…" : formatReactNode(children, depth + 1);
+  return `<${name}${attributes}>${inner}</${name}>`;
+}
+
 class SecureTypeFormatters {
   static formatMap(element: Map<any, any>): { content: string; color: Colors } {
     return ErrorBoundary.safeExecute(
@@ -774,6 +812,14 @@ class SecureTypeFormatters {
     );
   }
 
+  static formatReactElement(element: any): { content: string; color: Colors } {
+    return ErrorBoundary.safeExecute(
+      () => ({ content: formatReactNode(element, 0), color: Colors.INFO }),
+      { content: "<Element />", color: Colors.INFO },
+      "React element formatting"
+    );
+  }
+
   static formatConsole(): { content: string; color: Colors } {
     return ErrorBoundary.safeExecute(
       () => {
@@ -845,6 +891,7 @@ class TypeDetector {
     }
 
     if (primitiveType === "function") return "function";
+    if (isReactElement(element)) return "ReactElement";
 
     // Usar Object.prototype.toString.call() para detección robusta
     const objectType = Object.prototype.toString.call(element);
@@ -881,6 +928,7 @@ const TYPE_FORMATTER_REGISTRY = new Map<string, FormatterFunction>([
   ["ArrayBuffer", SecureTypeFormatters.formatArrayBuffer as FormatterFunction],
   ["Math", SecureTypeFormatters.formatMath as FormatterFunction],
   ["Console", SecureTypeFormatters.formatConsole as FormatterFunction],
+  ["ReactElement", SecureTypeFormatters.formatReactElement as FormatterFunction],
   // TypedArrays
   [
     "Int8Array",
@@ -1,6 +1,7 @@
 import { languages, editor, Uri } from 'monaco-editor';
 import { PACKAGE_DEFINITIONS, getPackageDefinition, getPackageExports, generateTypeDeclaration } from '../packageDefinitions';
 import type { Package } from '../../../context/PackageManagerContext';
+import { loadPackageTypeLibs } from '../../packages/type-acquisition';
 
 /**
  * ========================
@@ -12,7 +13,7 @@ import type { Package } from '../../../context/PackageManagerContext';
  * Responsabilidades:
  * - Completion providers para imports y paquetes
  * - Detección de contextos de import
- * - Registro de tipos de paquetes
+ * - Registro de tipos de paquetes (declaraciones reales de la caché o stubs)
  * - Cache de completions
  */
 
@@ -30,12 +31,29 @@ interface CompletionItem {
 const completionCache = new Map<string, CompletionItem[]>();
 const typeDeclarationCache = new Map<string, string>();
 
+// Librerías de tipos registradas en Monaco, por ruta (para reemplazarlas o quitarlas).
+// Los stubs salen de packageDefinitions; las de paquete, de los .d.ts de la caché
+interface RegisteredTypeLib {
+  kind: 'stub' | 'package';
+  content: string;
+  disposables: Array<{ dispose(): void }>;
+}
+const registeredTypeLibs = new Map<string, RegisteredTypeLib>();
+
+// Paquetes con tipos reales en la última carga (no necesitan stub)
+const packagesWithTypes = new Set<string>();
+
 // Función para limpiar el cache
 export function clearPackageCompletionCache(): void {
   completionCache.clear();
   typeDeclarationCache.clear();
 }
 
+// Función para quitar de Monaco todas las librerías de tipos de paquetes
+export function clearPackageTypeLibs(): void {
+  Array.from(registeredTypeLibs.keys()).forEach(removeTypeLib);
+}
+
 // Función para obtener paquetes instalados desde localStorage
 function getInstalledPackages(): Record<string, Package> {
   try {
@@ -250,12 +268,66 @@ export function createPackageCompletionProvider(): languages.CompletionItemProvi
   };
 }
 
+// Registrar (o reemplazar) una librería de tipos en JavaScript y TypeScript
+function setTypeLib(monaco: any, filePath: string, content: string, kind: RegisteredTypeLib['kind']): void {
+  const current = registeredTypeLibs.get(filePath);
+  if (current?.content === content) {
+    current.kind = kind;
+    return;
+  }
+  current?.disposables.forEach(disposable => disposable.dispose());
+
+  registeredTypeLibs.set(filePath, {
+    kind,
+    content,
+    disposables: [
+      monaco.languages.typescript.javascriptDefaults.addExtraLib(content, filePath),
+      monaco.languages.typescript.typescriptDefaults.addExtraLib(content, filePath),
+    ],
+  });
+}
+
+function removeTypeLib(filePath: string): void {
+  registeredTypeLibs.get(filePath)?.disposables.forEach(disposable => disposable.dispose());
+  registeredTypeLibs.delete(filePath);
+}
+
+// Ruta del stub generado para los paquetes sin tipos reales
+const getStubTypesPath = (packageName: string) =>
+  `file:///node_modules/@types/${packageName}/index.d.ts`;
+
+// Registrar los .d.ts reales de los paquetes instalados (desde la caché local).
+// Un stub `declare module` tendría prioridad sobre ellos, así que se retira
+async function registerInstalledPackageTypes(monaco: any, packageNames: string[]): Promise<void> {
+  const { packages, files } = await loadPackageTypeLibs(packageNames);
+
+  // Quitar los tipos de paquetes desinstalados y los stubs que ya no hacen falta
+  registeredTypeLibs.forEach((lib, filePath) => {
+    if (lib.kind === 'package' && !(filePath in files)) removeTypeLib(filePath);
+  });
+  packages.forEach(packageName => {
+    if (registeredTypeLibs.get(getStubTypesPath(packageName))?.kind === 'stub') {
+      removeTypeLib(getStubTypesPath(packageName));
+    }
+  });
+
+  packagesWithTypes.clear();
+  packages.forEach(packageName => packagesWithTypes.add(packageName));
+  Object.entries(files).forEach(([filePath, content]) => setTypeLib(monaco, filePath, content, 'package'));
+
+  if (packages.length > 0) {
+    console.log(`✅ Tipos reales registrados: ${packages.join(', ')}`);
+  }
+}
+
 // Función para registrar definiciones de tipos en Monaco
 export function registerPackageTypes(monaco: any): void {
   try {
     const availablePackages = getAvailablePackages();
+    const installedPackages = getInstalledPackages();
     
     availablePackages.forEach(packageName => {
+      if (packagesWithTypes.has(packageName)) return;
       const cacheKey = `types:${packageName}`;
       
       let typeDeclaration = typeDeclarationCache.get(cacheKey);
@@ -268,19 +340,16 @@ export function registerPackageTypes(monaco: any): void {
       
       if (typeDeclaration) {
         // Registrar las definiciones de tipos en Monaco
-        monaco.languages.typescript.javascriptDefaults.addExtraLib(
-          typeDeclaration,
-          `file:///node_modules/@types/${packageName}/index.d.ts`
-        );
-        
-        monaco.languages.typescript.typescriptDefaults.addExtraLib(
-          typeDeclaration,
-          `file:///node_modules/@types/${packageName}/index.d.ts`
-        );
+        setTypeLib(monaco, getStubTypesPath(packageName), typeDeclaration, 'stub');
       }
     });
     
     console.log("✅ Tipos de paquetes registrados");
+
+    // Los tipos reales se leen de IndexedDB y reemplazan a los stubs al llegar
+    registerInstalledPackageTypes(monaco, Object.keys(installedPackages)).catch(error =>
+      console.warn('Error registrando tipos de paquetes instalados:', error)
+    );
   } catch (error) {
     console.warn('Error registrando tipos de paquetes:', error);
   }
@@ -340,6 +409,7 @@ export function setupPackageCompletion(monaco: any): () => void {
       jsDisposable.dispose();
       tsDisposable.dispose();
       clearPackageCompletionCache();
+      clearPackageTypeLibs();
     };
     
   } catch (error) {
@@ -362,10 +432,15 @@ export function setupPackageUpdateListener(monaco: any): () => void {
       updatePackageCompletions(monaco);
     }
   };
+
+  // El gestor de paquetes avisa en la misma ventana (p. ej. al terminar de descargar tipos)
+  const handlePackagesChanged = () => updatePackageCompletions(monaco);
   
   window.addEventListener('storage', handleStorageChange);
+  window.addEventListener('jsrunner-packages-changed', handlePackagesChanged);
   
   return () => {
     window.removeEventListener('storage', handleStorageChange);
+    window.removeEventListener('jsrunner-packages-changed', handlePackagesChanged);
   };
 } 
\ No newline at end of file
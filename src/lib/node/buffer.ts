@@ -0,0 +1,136 @@
+/**
+ * `Buffer` de Node sobre Uint8Array.
+ *
+ * Cubre lo habitual en scripts pequeños: crear buffers desde texto (utf8,
+ * hex, base64, latin1), concatenarlos, compararlos y volver a texto.
+ */
+
+const ENCODINGS = ["utf8", "utf-8", "hex", "base64", "base64url", "latin1", "binary", "ascii"];
+
+const normalizeEncoding = (encoding: string = "utf8"): string => {
+  const lower = encoding.toLowerCase();
+  if (!ENCODINGS.includes(lower)) {
+    throw new TypeError(`Unknown encoding: ${encoding}`);
+  }
+  if (lower === "utf-8") return "utf8";
+  if (lower === "binary" || lower === "ascii") return "latin1";
+  return lower;
+};
+
+const encodeString = (value: string, encoding?: string): Uint8Array => {
+  switch (normalizeEncoding(encoding)) {
+    case "hex": {
+      const bytes = new Uint8Array(Math.floor(value.length / 2));
+      for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(value.slice(i * 2, i * 2 + 2), 16);
+      }
+      return bytes;
+    }
+    case "base64":
+    case "base64url": {
+      const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/").replace(/[^A-Za-z0-9+/]/g, ""));
+      return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    }
+    case "latin1":
+      return Uint8Array.from(value, (char) => char.charCodeAt(0) & 0xff);
+    default:
+      return new TextEncoder().encode(value);
+  }
+};
+
+const decodeBytes = (bytes: Uint8Array, encoding?: string): string => {
+  switch (normalizeEncoding(encoding)) {
+    case "hex":
+      return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+    case "base64":
+    case "base64url": {
+      let binary = "";
+      bytes.forEach((byte) => {
+        binary += String.fromCharCode(byte);
+      });
+      const base64 = btoa(binary);
+      return encoding === "base64url"
+        ? base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+        : base64;
+    }
+    case "latin1":
+      return Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+    default:
+      return new TextDecoder().decode(bytes);
+  }
+};
+
+class NodeBuffer extends Uint8Array {
+  toString(encoding?: string, start: number = 0, end: number = this.length): string {
+    return decodeBytes(this.subarray(start, end), encoding);
+  }
+
+  // Como en Node, slice comparte memoria con el buffer original
+  slice(start?: number, end?: number): NodeBuffer {
+    return this.subarray(start, end) as NodeBuffer;
+  }
+
+  equals(other: Uint8Array): boolean {
+    return this.length === other.length && this.every((byte, index) => byte === other[index]);
+  }
+
+  toJSON(): { type: "Buffer"; data: number[] } {
+    return { type: "Buffer", data: Array.from(this) };
+  }
+
+  write(value: string, offset: number = 0, encoding?: string): number {
+    const bytes = encodeString(value, encoding).subarray(0, this.length - offset);
+    this.set(bytes, offset);
+    return bytes.length;
+  }
+}
+
+const isBuffer = (value: unknown): value is NodeBuffer => value instanceof NodeBuffer;
+
+const bufferStatics = {
+  from(value: string | ArrayBuffer | ArrayLike<number>, encodingOrOffset?: string | number, length?: number): NodeBuffer {
+    if (typeof value === "string") {
+      return new NodeBuffer(encodeString(value, encodingOrOffset as string | undefined));
+    }
+    if (value instanceof ArrayBuffer) {
+      return new NodeBuffer(value, (encodingOrOffset as number | undefined) ?? 0, length);
+    }
+    return new NodeBuffer(Array.from(value));
+  },
+  alloc(size: number, fill?: number | string): NodeBuffer {
+    const buffer = new NodeBuffer(size);
+    if (typeof fill === "number") buffer.fill(fill);
+    if (typeof fill === "string" && fill) {
+      const pattern = encodeString(fill);
+      for (let i = 0; i < size; i++) buffer[i] = pattern[i % pattern.length];
+    }
+    return buffer;
+  },
+  allocUnsafe(size: number): NodeBuffer {
+    return new NodeBuffer(size);
+  },
+  isBuffer,
+  isEncoding(encoding: string): boolean {
+    return ENCODINGS.includes(String(encoding).toLowerCase());
+  },
+  byteLength(value: string | ArrayBuffer | Uint8Array, encoding?: string): number {
+    if (typeof value === "string") return encodeString(value, encoding).length;
+    return value.byteLength;
+  },
+  concat(list: Uint8Array[], totalLength?: number): NodeBuffer {
+    const length = totalLength ?? list.reduce((sum, item) => sum + item.length, 0);
+    const result = new NodeBuffer(length);
+    let offset = 0;
+    for (const item of list) {
+      if (offset >= length) break;
+      result.set(item.subarray(0, length - offset), offset);
+      offset += item.length;
+    }
+    return result;
+  },
+};
+
+// from tiene la firma de Node, distinta a la de Uint8Array.from: va primero en el tipo
+export const Buffer: typeof bufferStatics & typeof NodeBuffer = Object.assign(NodeBuffer, bufferStatics);
+/** Tipo de las instancias de Buffer */
+export type BufferInstance = NodeBuffer;
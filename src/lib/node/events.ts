@@ -0,0 +1,137 @@
+/**
+ * Módulo `events` de Node: EventEmitter y events.once.
+ */
+
+type EventListener = (...args: unknown[]) => void;
+type Listener = EventListener & { listener?: EventListener };
+
+export class EventEmitter {
+  static defaultMaxListeners = 10;
+  static EventEmitter = EventEmitter;
+
+  private listenersByEvent = new Map<string | symbol, Listener[]>();
+  private maxListeners = EventEmitter.defaultMaxListeners;
+
+  /**
+   * Promesa que se resuelve con los argumentos del próximo evento
+   */
+  static once(emitter: EventEmitter, event: string | symbol): Promise<unknown[]> {
+    return new Promise((resolve, reject) => {
+      const onEvent = (...args: unknown[]) => {
+        emitter.off("error", onError);
+        resolve(args);
+      };
+      const onError = (error: unknown) => {
+        emitter.off(event, onEvent);
+        reject(error);
+      };
+      emitter.once(event, onEvent);
+      if (event !== "error") emitter.once("error", onError);
+    });
+  }
+
+  private addListenerAt(event: string | symbol, listener: Listener, prepend: boolean): this {
+    const listeners = this.listenersByEvent.get(event) ?? [];
+    if (prepend) {
+      listeners.unshift(listener);
+    } else {
+      listeners.push(listener);
+    }
+    this.listenersByEvent.set(event, listeners);
+    return this;
+  }
+
+  private wrapOnce(event: string | symbol, listener: EventListener): Listener {
+    const wrapper: Listener = (...args: unknown[]) => {
+      this.off(event, wrapper);
+      listener.apply(this, args);
+    };
+    wrapper.listener = listener;
+    return wrapper;
+  }
+
+  on(event: string | symbol, listener: EventListener): this {
+    return this.addListenerAt(event, listener, false);
+  }
+
+  addListener(event: string | symbol, listener: EventListener): this {
+    return this.on(event, listener);
+  }
+
+  prependListener(event: string | symbol, listener: EventListener): this {
+    return this.addListenerAt(event, listener, true);
+  }
+
+  once(event: string | symbol, listener: EventListener): this {
+    return this.addListenerAt(event, this.wrapOnce(event, listener), false);
+  }
+
+  prependOnceListener(event: string | symbol, listener: EventListener): this {
+    return this.addListenerAt(event, this.wrapOnce(event, listener), true);
+  }
+
+  off(event: string | symbol, listener: EventListener): this {
+    const listeners = this.listenersByEvent.get(event);
+    if (!listeners) return this;
+    const index = listeners.findIndex((item) => item === listener || item.listener === listener);
+    if (index !== -1) listeners.splice(index, 1);
+    if (listeners.length === 0) this.listenersByEvent.delete(event);
+    return this;
+  }
+
+  removeListener(event: string | symbol, listener: EventListener): this {
+    return this.off(event, listener);
+  }
+
+  removeAllListeners(event?: string | symbol): this {
+    if (event === undefined) {
+      this.listenersByEvent.clear();
+    } else {
+      this.listenersByEvent.delete(event);
+    }
+    return this;
+  }
+
+  /**
+   * Llama a los listeners en orden. Un evento "error" sin listeners se lanza, como en Node
+   * @returns true si el evento tenía listeners
+   */
+  emit(event: string | symbol, ...args: unknown[]): boolean {
+    const listeners = this.listenersByEvent.get(event);
+    if (!listeners || listeners.length === 0) {
+      if (event === "error") {
+        throw args[0] instanceof Error ? args[0] : new Error(`Unhandled error. (${String(args[0])})`);
+      }
+      return false;
+    }
+    for (const listener of [...listeners]) {
+      listener.apply(this, args);
+    }
+    return true;
+  }
+
+  listenerCount(event: string | symbol): number {
+    return this.listenersByEvent.get(event)?.length ?? 0;
+  }
+
+  listeners(event: string | symbol): Array<(...args: unknown[]) => void> {
+    return (this.listenersByEvent.get(event) ?? []).map((item) => item.listener ?? item);
+  }
+
+  rawListeners(event: string | symbol): Array<(...args: unknown[]) => void> {
+    return [...(this.listenersByEvent.get(event) ?? [])];
+  }
+
+  eventNames(): Array<string | symbol> {
+    return Array.from(this.listenersByEvent.keys());
+  }
+
+  setMaxListeners(count: number): this {
+    this.maxListeners = count;
+    return this;
+  }
+
+  getMaxListeners(): number {
+    return this.maxListeners;
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * Módulo `fs` de Node en memoria.
+ *
+ * Parte de los archivos del workspace (dentro del directorio de trabajo) y
+ * admite las operaciones habituales en versión síncrona, con callback y con
+ * promesas. Los cambios viven solo durante la ejecución: no se escriben en
+ * el workspace ni en disco.
+ */
+
+import { Buffer, type BufferInstance } from "./buffer";
+
+type PathModule = { resolve: (...paths: string[]) => string; dirname: (path: string) => string };
+type EncodingOption = string | { encoding?: string | null; flag?: string } | null | undefined;
+
+/** Información de un archivo o directorio (fs.Stats) */
+export interface MemoryStats {
+  size: number;
+  mtime: Date;
+  mtimeMs: number;
+  birthtime: Date;
+  isFile: () => boolean;
+  isDirectory: () => boolean;
+  isSymbolicLink: () => boolean;
+}
+
+const getEncoding = (options: EncodingOption): string | undefined =>
+  (typeof options === "string" ? options : options?.encoding) ?? undefined;
+
+/**
+ * Error con el formato de Node (code, syscall y path)
+ */
+const createFsError = (code: string, description: string, syscall: string, path: string) =>
+  Object.assign(new Error(`${code}: ${description}, ${syscall} '${path}'`), { code, syscall, path });
+
+const toBytes = (data: unknown, encoding?: string): Uint8Array => {
+  if (typeof data === "string") return Buffer.from(data, encoding);
+  if (data instanceof Uint8Array) return new Uint8Array(data);
+  if (data instanceof ArrayBuffer) return new Uint8Array(data.slice(0));
+  return Buffer.from(String(data));
+};
+
+/**
+ * Crea el módulo fs
+ * @param files - Contenido inicial por nombre de archivo (relativo a cwd)
+ * @param path - Módulo path del entorno (resuelve rutas relativas)
+ * @param cwd - Directorio de trabajo donde aparecen los archivos
+ * @param schedule - Programa los callbacks (registrados en el ámbito de la ejecución)
+ */
+export const createFsModule = (
+  files: Record<string, string>,
+  path: PathModule,
+  cwd: string,
+  schedule: (callback: () => void) => void
+) => {
+  const fileContents = new Map<string, { data: Uint8Array; mtime: Date }>();
+  const directories = new Set<string>(["/"]);
+
+  const addDirectory = (dir: string) => {
+    for (let current = dir; !directories.has(current); current = path.dirname(current)) {
+      directories.add(current);
+    }
+  };
+
+  addDirectory(cwd);
+  for (const [name, content] of Object.entries(files)) {
+    const filePath = path.resolve(cwd, name);
+    addDirectory(path.dirname(filePath));
+    fileContents.set(filePath, { data: Buffer.from(content), mtime: new Date() });
+  }
+
+  const requireParent = (filePath: string, syscall: string) => {
+    if (!directories.has(path.dirname(filePath))) {
+      throw createFsError("ENOENT", "no such file or directory", syscall, filePath);
+    }
+  };
+
+  const readFileSync = (file: string, options?: EncodingOption): string | BufferInstance => {
+    const filePath = path.resolve(file);
+    if (directories.has(filePath)) {
+      throw createFsError("EISDIR", "illegal operation on a directory", "read", file);
+    }
+    const entry = fileContents.get(filePath);
+    if (!entry) throw createFsError("ENOENT", "no such file or directory", "open", file);
+
+    const encoding = getEncoding(options);
+    const buffer = Buffer.from(entry.data);
+    return encoding ? buffer.toString(encoding) : buffer;
+  };
+
+  const writeFileSync = (file: string, data: unknown, options?: EncodingOption): void => {
+    const filePath = path.resolve(file);
+    if (directories.has(filePath)) {
+      throw createFsError("EISDIR", "illegal operation on a directory", "open", file);
+    }
+    requireParent(filePath, "open");
+    fileContents.set(filePath, { data: toBytes(data, getEncoding(options)), mtime: new Date() });
+  };
+
+  const appendFileSync = (file: string, data: unknown, options?: EncodingOption): void => {
+    const filePath = path.resolve(file);
+    const existing = fileContents.get(filePath)?.data ?? new Uint8Array();
+    writeFileSync(file, Buffer.concat([existing, toBytes(data, getEncoding(options))]));
+  };
+
+  const existsSync = (file: string): boolean => {
+    const filePath = path.resolve(file);
+    return fileContents.has(filePath) || directories.has(filePath);
+  };
+
+  const statSync = (file: string): MemoryStats => {
+    const filePath = path.resolve(file);
+    const entry = fileContents.get(filePath);
+    const isDirectory = directories.has(filePath);
+    if (!entry && !isDirectory) {
+      throw createFsError("ENOENT", "no such file or directory", "stat", file);
+    }
+    const mtime = entry?.mtime ?? new Date(0);
+    return {
+      size: entry?.data.length ?? 0,
+      mtime,
+      mtimeMs: mtime.getTime(),
+      birthtime: mtime,
+      isFile: () => !!entry,
+      isDirectory: () => isDirectory,
+      isSymbolicLink: () => false,
+    };
+  };
+
+  const readdirSync = (dir: string, options?: { withFileTypes?: boolean }) => {
+    const dirPath = path.resolve(dir);
+    if (!directories.has(dirPath)) {
+      throw createFsError("ENOENT", "no such file or directory", "scandir", dir);
+    }
+
+    const prefix = dirPath === "/" ? "/" : `${dirPath}/`;
+    const children = new Map<string, boolean>();
+    for (const candidate of [...fileContents.keys(), ...directories]) {
+      if (!candidate.startsWith(prefix) || candidate === dirPath) continue;
+      const name = candidate.slice(prefix.length).split("/")[0];
+      children.set(name, directories.has(prefix + name));
+    }
+
+    const names = Array.from(children.keys()).sort();
+    if (!options?.withFileTypes) return names;
+    return names.map((name) => ({
+      name,
+      isFile: () => !children.get(name),
+      isDirectory: () => !!children.get(name),
+    }));
+  };
+
+  const mkdirSync = (dir: string, options?: { recursive?: boolean }): string | undefined => {
+    const dirPath = path.resolve(dir);
+    if (existsSync(dirPath)) {
+      if (options?.recursive && directories.has(dirPath)) return undefined;
+      throw createFsError("EEXIST", "file already exists", "mkdir", dir);
+    }
+    if (options?.recursive) {
+      addDirectory(dirPath);
+    } else {
+      requireParent(dirPath, "mkdir");
+      directories.add(dirPath);
+    }
+    return options?.recursive ? dirPath : undefined;
+  };
+
+  const unlinkSync = (file: string): void => {
+    const filePath = path.resolve(file);
+    if (!fileContents.delete(filePath)) {
+      throw createFsError("ENOENT", "no such file or directory", "unlink", file);
+    }
+  };
+
+  const rmSync = (target: string, options?: { recursive?: boolean; force?: boolean }): void => {
+    const targetPath = path.resolve(target);
+    if (fileContents.delete(targetPath)) return;
+    if (!directories.has(targetPath)) {
+      if (options?.force) return;
+      throw createFsError("ENOENT", "no such file or directory", "rm", target);
+    }
+
+    const prefix = `${targetPath}/`;
+    const nested = [...fileContents.keys(), ...directories].filter((item) => item.startsWith(prefix));
+    if (nested.length > 0 && !options?.recursive) {
+      throw createFsError("ENOTEMPTY", "directory not empty", "rm", target);
+    }
+    nested.forEach((item) => {
+      fileContents.delete(item);
+      directories.delete(item);
+    });
+    directories.delete(targetPath);
+  };
+
+  const renameSync = (from: string, to: string): void => {
+    const fromPath = path.resolve(from);
+    const entry = fileContents.get(fromPath);
+    if (!entry) throw createFsError("ENOENT", "no such file or directory", "rename", from);
+    const toPath = path.resolve(to);
+    requireParent(toPath, "rename");
+    fileContents.delete(fromPath);
+    fileContents.set(toPath, { ...entry, mtime: new Date() });
+  };
+
+  const copyFileSync = (from: string, to: string): void => {
+    writeFileSync(to, readFileSync(from));
+  };
+
+  const sync = {
+    readFileSync,
+    writeFileSync,
+    appendFileSync,
+    existsSync,
+    statSync,
+    lstatSync: statSync,
+    readdirSync,
+    mkdirSync,
+    unlinkSync,
+    rmSync,
+    rmdirSync: (dir: string, options?: { recursive?: boolean }) => rmSync(dir, options),
+    renameSync,
+    copyFileSync,
+  };
+
+  // Versión con callback (error, resultado) en una tarea posterior, como en Node
+  const withCallback =
+    <A extends unknown[], R>(fn: (...args: A) => R) =>
+    (...args: unknown[]) => {
+      const callback = args.pop();
+      if (typeof callback !== "function") {
+        throw new TypeError('The "cb" argument must be of type function');
+      }
+      try {
+        const result = fn(...(args as A));
+        schedule(() => callback(null, result));
+      } catch (error) {
+        schedule(() => callback(error));
+      }
+    };
+
+  const withPromise =
+    <A extends unknown[], R>(fn: (...args: A) => R) =>
+    async (...args: A): Promise<R> =>
+      fn(...args);
+
+  const promises = {
+    readFile: withPromise(readFileSync),
+    writeFile: withPromise(writeFileSync),
+    appendFile: withPromise(appendFileSync),
+    stat: withPromise(statSync),
+    lstat: withPromise(statSync),
+    readdir: withPromise(readdirSync),
+    mkdir: withPromise(mkdirSync),
+    unlink: withPromise(unlinkSync),
+    rm: withPromise(rmSync),
+    rename: withPromise(renameSync),
+    copyFile: withPromise(copyFileSync),
+    access: withPromise((file: string) => {
+      statSync(file);
+    }),
+  };
+
+  return {
+    ...sync,
+    readFile: withCallback(readFileSync),
+    writeFile: withCallback(writeFileSync),
+    appendFile: withCallback(appendFileSync),
+    stat: withCallback(statSync),
+    lstat: withCallback(statSync),
+    readdir: withCallback(readdirSync),
+    mkdir: withCallback(mkdirSync),
+    unlink: withCallback(unlinkSync),
+    rm: withCallback(rmSync),
+    rename: withCallback(renameSync),
+    copyFile: withCallback(copyFileSync),
+    // exists es el único que recibe solo el resultado
+    exists: (file: string, callback: (exists: boolean) => void) => {
+      const exists = existsSync(file);
+      schedule(() => callback(exists));
+    },
+    promises,
+    constants: { F_OK: 0, R_OK: 4, W_OK: 2, X_OK: 1 },
+  };
+};
@@ -0,0 +1,119 @@
+/**
+ * Entorno de ejecución "Node" (modo por archivo).
+ *
+ * Reúne los módulos integrados en memoria (fs, path, events, util, buffer) y
+ * las variables propias de un script de Node (process, Buffer, __filename,
+ * __dirname, setImmediate). Es serializable en sus opciones, por lo que se
+ * construye dentro del hilo que ejecuta el código (renderer o worker).
+ */
+
+import { createPathModule } from "./path";
+import { createFsModule } from "./fs";
+import { EventEmitter } from "./events";
+import { Buffer } from "./buffer";
+import * as util from "./util";
+
+/** Directorio de trabajo del entorno: los archivos del workspace cuelgan de él */
+export const NODE_CWD = "/workspace";
+
+/** Módulos integrados que se pueden pedir con require (con o sin "node:") */
+export const NODE_BUILTIN_MODULES = ["fs", "fs/promises", "path", "events", "util", "buffer"];
+
+/** Opciones del modo Node de una ejecución */
+export interface NodeEnvironmentOptions {
+  /** Nombre del archivo que se ejecuta (process.argv[1] y __filename) */
+  entryPath: string;
+  /** Contenido inicial del fs en memoria, por nombre de archivo */
+  files: Record<string, string>;
+  /** Ejecutar en un proceso Node real (Electron) en lugar del entorno en memoria */
+  childProcess?: boolean;
+}
+
+/** Timers con los que el entorno programa callbacks, setImmediate y nextTick */
+interface NodeTimers {
+  setTimeout: (handler: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) => number;
+  clearTimeout: (id?: number) => void;
+  queueMicrotask: (callback: () => void) => void;
+}
+
+/**
+ * Indica si un nombre de módulo es uno de los integrados de Node
+ */
+export const isNodeBuiltin = (moduleName: string): boolean =>
+  NODE_BUILTIN_MODULES.includes(moduleName.replace(/^node:/, ""));
+
+/**
+ * Crea los módulos y variables globales del modo Node
+ * @param options - Archivo de entrada y archivos del workspace
+ * @param timers - Timers y microtareas del ámbito de la ejecución (se desmontan con ella)
+ * @param baseProcess - process del contexto global (conserva process.env)
+ */
+export const createNodeEnvironment = (
+  options: NodeEnvironmentOptions,
+  timers: NodeTimers,
+  baseProcess: { env: Record<string, string> }
+) => {
+  let cwd = NODE_CWD;
+  const path = createPathModule(() => cwd);
+  const fs = createFsModule(options.files, path, NODE_CWD, (callback) => timers.setTimeout(callback, 0));
+  const filename = path.resolve(NODE_CWD, options.entryPath);
+
+  const process = Object.assign(new EventEmitter(), baseProcess, {
+    argv: ["/usr/local/bin/node", filename],
+    argv0: "node",
+    execArgv: [] as string[],
+    platform: "linux",
+    version: "v18.0.0",
+    versions: { node: "18.0.0" },
+    pid: 1,
+    cwd: () => cwd,
+    chdir: (directory: string) => {
+      const target = path.resolve(directory);
+      if (!fs.existsSync(target) || !fs.statSync(target).isDirectory()) {
+        throw new Error(`ENOENT: no such file or directory, chdir '${directory}'`);
+      }
+      cwd = target;
+    },
+    // Sin cola propia: se aproxima con una microtarea
+    nextTick: (handler: (...args: unknown[]) => void, ...args: unknown[]) => {
+      timers.queueMicrotask(() => handler(...args));
+    },
+    hrtime: Object.assign(
+      (previous?: [number, number]): [number, number] => {
+        const now = performance.now();
+        const seconds = Math.floor(now / 1000);
+        const nanoseconds = Math.floor((now % 1000) * 1e6);
+        if (!previous) return [seconds, nanoseconds];
+        const diff = (seconds - previous[0]) * 1e9 + nanoseconds - previous[1];
+        return [Math.floor(diff / 1e9), diff % 1e9];
+      },
+      { bigint: () => BigInt(Math.floor(performance.now() * 1e6)) }
+    ),
+    memoryUsage: () => ({ rss: 0, heapTotal: 0, heapUsed: 0, external: 0, arrayBuffers: 0 }),
+    exit: (code: number = 0) => {
+      throw new Error(`process.exit(${code}) no está disponible en el modo Node del navegador`);
+    },
+  });
+
+  const modules: Record<string, unknown> = {
+    fs,
+    "fs/promises": fs.promises,
+    path,
+    events: Object.assign(EventEmitter, { EventEmitter, once: EventEmitter.once }),
+    util,
+    buffer: { Buffer },
+  };
+
+  return {
+    modules,
+    process,
+    globals: {
+      Buffer,
+      __filename: filename,
+      __dirname: path.dirname(filename),
+      setImmediate: (handler: (...args: unknown[]) => void, ...args: unknown[]) =>
+        timers.setTimeout(handler, 0, ...args),
+      clearImmediate: (id?: number) => timers.clearTimeout(id),
+    },
+  };
+};
@@ -0,0 +1,126 @@
+/**
+ * Módulo `path` de Node (variante POSIX).
+ *
+ * Las rutas relativas se resuelven contra el directorio de trabajo del
+ * entorno, que se indica al crear el módulo.
+ */
+
+export interface ParsedPath {
+  root: string;
+  dir: string;
+  base: string;
+  ext: string;
+  name: string;
+}
+
+/**
+ * Resuelve "." y ".." y elimina separadores repetidos
+ */
+const normalizePath = (value: string): string => {
+  if (value === "") return ".";
+
+  const isAbsolute = value.startsWith("/");
+  const hasTrailingSlash = value.endsWith("/");
+  const segments: string[] = [];
+
+  for (const segment of value.split("/")) {
+    if (!segment || segment === ".") continue;
+    if (segment === "..") {
+      if (segments.length > 0 && segments[segments.length - 1] !== "..") {
+        segments.pop();
+      } else if (!isAbsolute) {
+        segments.push("..");
+      }
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  const result = (isAbsolute ? "/" : "") + segments.join("/");
+  if (!result) return isAbsolute ? "/" : ".";
+  return hasTrailingSlash && result !== "/" ? `${result}/` : result;
+};
+
+const dirname = (value: string): string => {
+  const trimmed = value.replace(/\/+$/, "");
+  if (!trimmed) return value.startsWith("/") ? "/" : ".";
+  const index = trimmed.lastIndexOf("/");
+  if (index === -1) return ".";
+  return index === 0 ? "/" : trimmed.slice(0, index);
+};
+
+const basename = (value: string, extension?: string): string => {
+  const base = value.replace(/\/+$/, "").split("/").pop() ?? "";
+  return extension && base !== extension && base.endsWith(extension)
+    ? base.slice(0, -extension.length)
+    : base;
+};
+
+const extname = (value: string): string => {
+  const base = basename(value);
+  const index = base.lastIndexOf(".");
+  return index <= 0 ? "" : base.slice(index);
+};
+
+/**
+ * Crea el módulo path
+ * @param cwd - Directorio de trabajo (process.cwd())
+ */
+export const createPathModule = (cwd: () => string) => {
+  const resolve = (...paths: string[]): string => {
+    let resolved = "";
+    for (let i = paths.length - 1; i >= -1 && !resolved.startsWith("/"); i--) {
+      const segment = i >= 0 ? paths[i] : cwd();
+      if (segment) resolved = resolved ? `${segment}/${resolved}` : segment;
+    }
+    const normalized = normalizePath(resolved);
+    return normalized.length > 1 ? normalized.replace(/\/$/, "") : normalized;
+  };
+
+  const relative = (from: string, to: string): string => {
+    const fromParts = resolve(from).split("/").filter(Boolean);
+    const toParts = resolve(to).split("/").filter(Boolean);
+    let common = 0;
+    while (common < fromParts.length && common < toParts.length && fromParts[common] === toParts[common]) {
+      common++;
+    }
+    return [...Array(fromParts.length - common).fill(".."), ...toParts.slice(common)].join("/");
+  };
+
+  const parse = (value: string): ParsedPath => {
+    const base = basename(value);
+    const ext = extname(value);
+    return {
+      root: value.startsWith("/") ? "/" : "",
+      dir: value.includes("/") ? dirname(value) : "",
+      base,
+      ext,
+      name: base.slice(0, base.length - ext.length),
+    };
+  };
+
+  const format = (parts: Partial<ParsedPath>): string => {
+    const base = parts.base ?? `${parts.name ?? ""}${parts.ext ?? ""}`;
+    const dir = parts.dir ?? parts.root ?? "";
+    if (!dir) return base;
+    return dir === parts.root || dir.endsWith("/") ? `${dir}${base}` : `${dir}/${base}`;
+  };
+
+  const path = {
+    sep: "/",
+    delimiter: ":",
+    normalize: normalizePath,
+    join: (...paths: string[]): string => normalizePath(paths.filter(Boolean).join("/")),
+    resolve,
+    relative,
+    dirname,
+    basename,
+    extname,
+    isAbsolute: (value: string): boolean => value.startsWith("/"),
+    parse,
+    format,
+    posix: undefined as unknown,
+  };
+  path.posix = path;
+  return path;
+};
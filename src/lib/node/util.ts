@@ -0,0 +1,113 @@
+/**
+ * Módulo `util` de Node: format, inspect, promisify, inherits y deprecate.
+ */
+
+const MAX_INSPECT_DEPTH = 2;
+
+/**
+ * Representación legible de un valor, con el estilo de util.inspect
+ */
+export const inspect = (value: unknown, depth: number = 0): string => {
+  if (typeof value === "string") return depth === 0 ? value : `'${value}'`;
+  if (typeof value === "function") return `[Function: ${value.name || "(anonymous)"}]`;
+  if (typeof value === "bigint") return `${value}n`;
+  if (value === null || typeof value !== "object") return String(value);
+
+  if (value instanceof Error) return value.stack ?? `${value.name}: ${value.message}`;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof RegExp) return String(value);
+  if (depth > MAX_INSPECT_DEPTH) return Array.isArray(value) ? "[Array]" : "[Object]";
+
+  const nested = (item: unknown) => inspect(item, depth + 1);
+  if (Array.isArray(value)) {
+    return value.length === 0 ? "[]" : `[ ${value.map(nested).join(", ")} ]`;
+  }
+  if (value instanceof Map) {
+    const entries = Array.from(value, ([key, item]) => `${nested(key)} => ${nested(item)}`);
+    return `Map(${value.size}) { ${entries.join(", ")} }`;
+  }
+  if (value instanceof Set) {
+    return `Set(${value.size}) { ${Array.from(value, nested).join(", ")} }`;
+  }
+
+  const entries = Object.entries(value).map(([key, item]) => `${key}: ${nested(item)}`);
+  return entries.length === 0 ? "{}" : `{ ${entries.join(", ")} }`;
+};
+
+/**
+ * Da formato a un texto con %s, %d, %i, %f, %j, %o, %O y %%; los argumentos
+ * que sobran se agregan al final
+ */
+export const format = (template?: unknown, ...args: unknown[]): string => {
+  if (typeof template !== "string") {
+    return [template, ...args].map((item) => inspect(item)).join(" ");
+  }
+
+  let index = 0;
+  const formatted = template.replace(/%[sdifjoO%]/g, (token) => {
+    if (token === "%%") return "%";
+    if (index >= args.length) return token;
+    const arg = args[index++];
+    switch (token) {
+      case "%s":
+        return typeof arg === "string" ? arg : inspect(arg, 1);
+      case "%d":
+        return String(Number(arg));
+      case "%i":
+        return String(parseInt(String(arg), 10));
+      case "%f":
+        return String(parseFloat(String(arg)));
+      case "%j":
+        try {
+          return JSON.stringify(arg);
+        } catch {
+          return "[Circular]";
+        }
+      default:
+        return inspect(arg, 1);
+    }
+  });
+
+  return [formatted, ...args.slice(index).map((item) => inspect(item))].join(" ");
+};
+
+/**
+ * Convierte una función con callback (error, valor) en una que devuelve una promesa
+ */
+export const promisify =
+  (fn: (...args: unknown[]) => void) =>
+  (...args: unknown[]): Promise<unknown> =>
+    new Promise((resolve, reject) => {
+      fn(...args, (error: unknown, value: unknown) => (error ? reject(error) : resolve(value)));
+    });
+
+export const inherits = (
+  constructor: { prototype: object; super_?: unknown },
+  superConstructor: { prototype: object | null }
+): void => {
+  constructor.super_ = superConstructor;
+  Object.setPrototypeOf(constructor.prototype, superConstructor.prototype);
+};
+
+/**
+ * Envuelve una función para avisar (una sola vez) de que está obsoleta
+ */
+export const deprecate = <T extends (...args: never[]) => unknown>(fn: T, message: string): T => {
+  let warned = false;
+  const wrapper = function (this: unknown, ...args: unknown[]): unknown {
+    if (!warned) {
+      warned = true;
+      console.warn(`DeprecationWarning: ${message}`);
+    }
+    return Reflect.apply(fn, this, args);
+  };
+  return wrapper as unknown as T;
+};
+
+export const types = {
+  isPromise: (value: unknown): boolean => value instanceof Promise,
+  isDate: (value: unknown): boolean => value instanceof Date,
+  isRegExp: (value: unknown): boolean => value instanceof RegExp,
+  isMap: (value: unknown): boolean => value instanceof Map,
+  isSet: (value: unknown): boolean => value instanceof Set,
+};
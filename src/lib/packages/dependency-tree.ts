@@ -0,0 +1,133 @@
+/**
+ * Árbol de dependencias de los paquetes instalados.
+ *
+ * La caché guarda una sola versión por nombre (como un node_modules plano),
+ * así que una dependencia puede quedar sin cumplir el rango que pide otro
+ * paquete. El árbol muestra qué versión se usa para cada dependencia y marca
+ * los conflictos; el lockfile guarda las versiones exactas con el workspace.
+ */
+
+import type { CachedPackage } from "./package-cache";
+import { satisfies } from "./semver";
+
+/** Paquete instalado directamente por el usuario */
+export interface DependencyRoot {
+  name: string;
+  /** Rango pedido al instalar (ej. "^4") */
+  range?: string;
+}
+
+export interface DependencyNode {
+  name: string;
+  /** Rango que pide el paquete padre (o el usuario, en la raíz) */
+  range?: string;
+  /** Versión en la caché, o null si no está instalada */
+  version: string | null;
+  status: "ok" | "conflict" | "missing";
+  /** Ya aparece antes en el árbol; no se repiten sus dependencias */
+  deduped?: boolean;
+  dependencies: DependencyNode[];
+}
+
+export interface DependencyConflict {
+  name: string;
+  range: string;
+  installedVersion: string | null;
+  requiredBy: string;
+}
+
+/** Entrada del lockfile: versión exacta y dependencias declaradas */
+export interface PackageLockEntry {
+  version: string;
+  dependencies: Record<string, string>;
+  /** Rango pedido por el usuario; solo en paquetes instalados directamente */
+  requested?: string;
+}
+
+/** Versiones exactas de los paquetes del workspace, por nombre */
+export type PackageLock = Record<string, PackageLockEntry>;
+
+const getStatus = (version: string | null, range?: string): DependencyNode["status"] => {
+  if (version === null) return "missing";
+  return !range || satisfies(version, range) ? "ok" : "conflict";
+};
+
+/**
+ * Construye el árbol de dependencias de los paquetes instalados
+ * @param packages - Paquetes de la caché, por nombre
+ * @param roots - Paquetes instalados directamente
+ */
+export const buildDependencyTree = (
+  packages: Record<string, CachedPackage>,
+  roots: DependencyRoot[]
+): DependencyNode[] => {
+  const expanded = new Set<string>();
+
+  const createNode = (name: string, range?: string): DependencyNode => {
+    const pkg = packages[name];
+    const version = pkg?.version ?? null;
+    const node: DependencyNode = { name, range, version, status: getStatus(version, range), dependencies: [] };
+
+    if (!pkg) return node;
+    if (expanded.has(name)) {
+      node.deduped = true;
+      return node;
+    }
+
+    expanded.add(name);
+    node.dependencies = Object.entries(pkg.dependencies).map(([dependency, dependencyRange]) =>
+      createNode(dependency, dependencyRange)
+    );
+    return node;
+  };
+
+  return roots.map((root) => createNode(root.name, root.range));
+};
+
+/**
+ * Reúne las dependencias que faltan o no cumplen su rango
+ */
+export const findDependencyConflicts = (tree: DependencyNode[]): DependencyConflict[] => {
+  const conflicts: DependencyConflict[] = [];
+
+  const visit = (node: DependencyNode) => {
+    for (const dependency of node.dependencies) {
+      if (dependency.status !== "ok") {
+        conflicts.push({
+          name: dependency.name,
+          range: dependency.range ?? "*",
+          installedVersion: dependency.version,
+          requiredBy: `${node.name}@${node.version}`,
+        });
+      }
+      visit(dependency);
+    }
+  };
+
+  tree.forEach(visit);
+  return conflicts;
+};
+
+/**
+ * Genera el lockfile con las versiones exactas que usa el árbol
+ */
+export const createPackageLock = (
+  packages: Record<string, CachedPackage>,
+  roots: DependencyRoot[]
+): PackageLock => {
+  const lock: PackageLock = {};
+
+  const add = (name: string) => {
+    const pkg = packages[name];
+    if (!pkg || lock[name]) return;
+    lock[name] = { version: pkg.version, dependencies: { ...pkg.dependencies } };
+    Object.keys(pkg.dependencies).forEach(add);
+  };
+
+  for (const root of roots) {
+    add(root.name);
+    if (lock[root.name]) lock[root.name].requested = root.range ?? "latest";
+  }
+
+  return lock;
+};
@@ -0,0 +1,152 @@
+/**
+ * Registro de paquetes en una carpeta local.
+ *
+ * Sirve como espejo del registro en redes sin acceso a npm: la carpeta
+ * contiene los .tgz generados con `npm pack` (o copiados de otro registro).
+ * Los archivos se leen desde el proceso principal de Electron y se indexan por
+ * nombre y versión leyendo el package.json de cada tarball.
+ */
+
+import { extractTarball } from "./tarball";
+import type { PackageJson } from "./package-cache";
+import type { PackageMetadata } from "./package-installer";
+
+/** Versión de un paquete disponible en la carpeta */
+interface FolderPackageVersion {
+  packageJson: PackageJson;
+  data: Uint8Array;
+}
+
+/** Paquetes de la carpeta: nombre → versión → tarball */
+type FolderIndex = Record<string, Record<string, FolderPackageVersion>>;
+
+// Índice de cada carpeta leída (se reconstruye con clearFolderRegistryCache)
+const folderIndexes = new Map<string, Promise<FolderIndex>>();
+
+/**
+ * Indica si la URL del registro apunta a una carpeta local en lugar de a un servidor
+ */
+export const isFolderRegistry = (registryUrl: string): boolean =>
+  !/^https?:\/\//i.test(registryUrl.trim());
+
+/**
+ * Ruta de la carpeta ("file:///srv/npm" → "/srv/npm")
+ */
+const getFolderPath = (registryUrl: string): string =>
+  decodeURI(registryUrl.trim().replace(/^file:\/\//i, ""));
+
+/**
+ * Compara dos versiones numéricamente ("1.10.0" > "1.9.2")
+ */
+const compareVersions = (a: string, b: string): number =>
+  a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * Lee los .tgz de la carpeta y los indexa por nombre y versión
+ */
+const buildFolderIndex = async (folderPath: string): Promise<FolderIndex> => {
+  if (!window.electronAPI) {
+    throw new Error("Los registros en carpeta local solo están disponibles en la aplicación de escritorio");
+  }
+
+  const entries: Array<{ fileName: string; data: Uint8Array }> | null =
+    await window.electronAPI.invoke("read-package-folder", folderPath);
+  if (!entries) {
+    throw new Error(`No se pudo leer la carpeta del registro: ${folderPath}`);
+  }
+
+  const index: FolderIndex = {};
+  for (const { fileName, data } of entries) {
+    try {
+      const files = await extractTarball(data);
+      const packageJson: PackageJson = JSON.parse(files["package.json"] || "");
+      if (!packageJson.name || !packageJson.version) continue;
+      index[packageJson.name] = index[packageJson.name] || {};
+      index[packageJson.name][packageJson.version] = { packageJson, data };
+    } catch (error) {
+      console.warn(`Se ignora ${fileName}: no es un paquete npm válido`, error);
+    }
+  }
+  return index;
+};
+
+const getFolderIndex = (registryUrl: string): Promise<FolderIndex> => {
+  const folderPath = getFolderPath(registryUrl);
+  let index = folderIndexes.get(folderPath);
+  if (!index) {
+    index = buildFolderIndex(folderPath);
+    // Si la lectura falla se vuelve a intentar en la próxima consulta
+    index.catch(() => folderIndexes.delete(folderPath));
+    folderIndexes.set(folderPath, index);
+  }
+  return index;
+};
+
+/**
+ * Descarta los índices leídos para que se vuelvan a leer las carpetas
+ * (por ejemplo, después de copiar nuevos .tgz)
+ */
+export const clearFolderRegistryCache = (): void => {
+  folderIndexes.clear();
+};
+
+/**
+ * Obtiene los metadatos de un paquete de la carpeta con la misma forma que
+ * devuelve el registro de npm (dist-tags y versions)
+ * @param name - Nombre del paquete
+ * @param registryUrl - Ruta de la carpeta
+ */
+export const getFolderPackageMetadata = async (
+  name: string,
+  registryUrl: string
+): Promise<PackageMetadata> => {
+  const versions = (await getFolderIndex(registryUrl))[name];
+  if (!versions) {
+    throw new Error(`El paquete ${name} no está en la carpeta del registro`);
+  }
+
+  const latest = Object.keys(versions).sort(compareVersions).pop()!;
+  return {
+    name,
+    description: versions[latest].packageJson.description,
+    "dist-tags": { latest },
+    versions: Object.fromEntries(
+      Object.entries(versions).map(([version, { packageJson }]) => [version, packageJson])
+    ),
+  };
+};
+
+/**
+ * Obtiene el tarball de una versión de la carpeta
+ */
+export const readFolderTarball = async (
+  name: string,
+  version: string,
+  registryUrl: string
+): Promise<Uint8Array> => {
+  const entry = (await getFolderIndex(registryUrl))[name]?.[version];
+  if (!entry) {
+    throw new Error(`No se encontró ${name}@${version} en la carpeta del registro`);
+  }
+  return entry.data;
+};
+
+/**
+ * Busca paquetes de la carpeta por nombre o descripción
+ * @returns Última versión de cada paquete que coincide
+ */
+export const searchFolderRegistry = async (
+  query: string,
+  registryUrl: string
+): Promise<PackageJson[]> => {
+  const index = await getFolderIndex(registryUrl);
+  const text = query.toLowerCase();
+
+  return Object.values(index)
+    .map((versions) => versions[Object.keys(versions).sort(compareVersions).pop()!].packageJson)
+    .filter(
+      (packageJson) =>
+        packageJson.name.toLowerCase().includes(text) ||
+        (packageJson.description || "").toLowerCase().includes(text)
+    );
+};
@@ -0,0 +1,134 @@
+/**
+ * Caché local de paquetes npm (IndexedDB).
+ *
+ * Guarda el código ya preparado para ejecutarse de cada paquete instalado,
+ * de modo que `require`/`import` funcionan sin red una vez instalado. Se usa
+ * desde el renderer; el worker recibe los paquetes que necesita en cada ejecución.
+ */
+
+/**
+ * Paquete guardado en la caché (una versión por nombre, como un node_modules plano)
+ */
+export interface CachedPackage {
+  name: string;
+  version: string;
+  description?: string;
+  /** Dependencias declaradas en package.json (nombre → rango) */
+  dependencies: Record<string, string>;
+  /** Archivos del paquete por ruta relativa; los módulos ESM ya convertidos a CommonJS */
+  files: Record<string, string>;
+  /** Tamaño total de los archivos guardados (bytes) */
+  size: number;
+  cachedAt: number;
+}
+
+/** Valor del campo "exports": destino, condiciones, alternativas o mapa de subrutas */
+export type PackageExports = string | null | PackageExports[] | { [key: string]: PackageExports };
+
+/**
+ * Campos de package.json que usan la instalación y la resolución de paquetes
+ */
+export interface PackageJson {
+  name: string;
+  version: string;
+  description?: string;
+  main?: string;
+  module?: string;
+  browser?: string | Record<string, string | false>;
+  exports?: PackageExports;
+  dependencies?: Record<string, string>;
+}
+
+const DB_NAME = "jsrunner-package-cache";
+const DB_VERSION = 1;
+const STORE_NAME = "packages";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Abre (una sola vez) la base de datos de la caché
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "name" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Ejecuta una petición sobre el almacén de paquetes
+ */
+const withStore = async <T>(
+  mode: IDBTransaction["mode"],
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Obtiene un paquete de la caché
+ * @param name - Nombre del paquete
+ * @returns Paquete guardado, o null si no está en caché
+ */
+export const getCachedPackage = async (name: string): Promise<CachedPackage | null> =>
+  (await withStore<CachedPackage | undefined>("readonly", (store) => store.get(name))) ?? null;
+
+/**
+ * Guarda (o reemplaza) un paquete en la caché
+ */
+export const putCachedPackage = async (pkg: CachedPackage): Promise<void> => {
+  await withStore("readwrite", (store) => store.put(pkg));
+};
+
+/**
+ * Elimina un paquete de la caché
+ */
+export const deleteCachedPackage = async (name: string): Promise<void> => {
+  await withStore("readwrite", (store) => store.delete(name));
+};
+
+/**
+ * Lista todos los paquetes guardados
+ */
+export const listCachedPackages = (): Promise<CachedPackage[]> =>
+  withStore<CachedPackage[]>("readonly", (store) => store.getAll());
+
+/**
+ * Carga los paquetes indicados y todas sus dependencias guardadas
+ * @param names - Paquetes que importa el código
+ * @returns Paquetes encontrados en la caché, por nombre
+ */
+export const loadPackagesWithDependencies = async (
+  names: string[]
+): Promise<Record<string, CachedPackage>> => {
+  const loaded: Record<string, CachedPackage> = {};
+  const pending = [...names];
+
+  while (pending.length > 0) {
+    const name = pending.shift()!;
+    if (loaded[name]) continue;
+
+    const pkg = await getCachedPackage(name);
+    if (!pkg) continue;
+
+    loaded[name] = pkg;
+    pending.push(...Object.keys(pkg.dependencies));
+  }
+
+  return loaded;
+};
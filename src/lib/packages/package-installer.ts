@@ -0,0 +1,269 @@
+/**
+ * Instalación de paquetes npm reales.
+ *
+ * Descarga el tarball publicado en el registro (o lee un .tgz local), prepara
+ * sus archivos para ejecutarse con require (los módulos ESM se convierten a
+ * CommonJS) y los guarda en la caché local junto con sus dependencias.
+ *
+ * El registro es configurable: una URL compatible con npm (Verdaccio, un
+ * espejo interno...) o una carpeta local con tarballs (ver folder-registry).
+ */
+
+import { transformModuleToCommonJS } from "../code/code-transformer";
+import { extractTarball } from "./tarball";
+import {
+  getCachedPackage,
+  putCachedPackage,
+  type CachedPackage,
+  type PackageJson,
+} from "./package-cache";
+import {
+  getFolderPackageMetadata,
+  isFolderRegistry,
+  readFolderTarball,
+  searchFolderRegistry,
+} from "./folder-registry";
+import { isValidRange, maxSatisfying, satisfies } from "./semver";
+
+export const DEFAULT_REGISTRY_URL = "https://registry.npmjs.org";
+
+/** Resultado de una búsqueda en el registro */
+export interface RegistrySearchResult {
+  name: string;
+  version: string;
+  description?: string;
+  date?: string;
+}
+
+/** Documento de un paquete en el registro (solo los campos que se usan) */
+export interface PackageMetadata {
+  name: string;
+  description?: string;
+  "dist-tags"?: Record<string, string>;
+  versions?: Record<string, PackageJson & { dist?: { tarball?: string } }>;
+}
+
+// Archivos de código que pueden necesitar conversión a CommonJS
+const CODE_FILE_PATTERN = /\.(js|mjs|cjs)$/;
+
+/**
+ * URL de un paquete en el registro (los paquetes con scope se codifican)
+ */
+const getPackageUrl = (name: string, registryUrl: string): string =>
+  `${registryUrl.replace(/\/+$/, "")}/${name.replace("/", "%2f")}`;
+
+/**
+ * Obtiene los metadatos de un paquete desde el registro
+ * @param name - Nombre del paquete
+ * @param registryUrl - URL base del registro o carpeta local
+ */
+export const fetchPackageMetadata = async (
+  name: string,
+  registryUrl: string = DEFAULT_REGISTRY_URL
+): Promise<PackageMetadata> => {
+  if (isFolderRegistry(registryUrl)) {
+    return getFolderPackageMetadata(name, registryUrl);
+  }
+
+  const response = await fetch(getPackageUrl(name, registryUrl));
+  if (!response.ok) {
+    throw new Error(`Error al obtener información del paquete ${name}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+/**
+ * Busca paquetes en el registro
+ * @param query - Texto a buscar
+ * @param registryUrl - URL base del registro o carpeta local
+ * @param size - Número máximo de resultados
+ */
+export const searchRegistry = async (
+  query: string,
+  registryUrl: string = DEFAULT_REGISTRY_URL,
+  size: number = 20
+): Promise<RegistrySearchResult[]> => {
+  if (isFolderRegistry(registryUrl)) {
+    const results = await searchFolderRegistry(query, registryUrl);
+    return results.slice(0, size).map(({ name, version, description }) => ({ name, version, description }));
+  }
+
+  const response = await fetch(
+    `${registryUrl.replace(/\/+$/, "")}/-/v1/search?text=${encodeURIComponent(query)}&size=${size}`
+  );
+  if (!response.ok) {
+    throw new Error(`Error en la búsqueda: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.objects.map(({ package: pkg }: { package: RegistrySearchResult }) => ({
+    name: pkg.name,
+    version: pkg.version,
+    description: pkg.description,
+    date: pkg.date,
+  }));
+};
+
+/**
+ * Elige la versión a instalar: una versión exacta, un dist-tag o la más alta
+ * que cumple un rango (se prefiere latest si lo cumple, como npm)
+ */
+const resolveVersion = (metadata: PackageMetadata, requested?: string): string => {
+  if (requested && metadata.versions?.[requested]) return requested;
+  const taggedVersion = requested ? metadata["dist-tags"]?.[requested] : undefined;
+  if (taggedVersion) return taggedVersion;
+
+  const latest = metadata["dist-tags"]?.latest;
+  if (requested && isValidRange(requested)) {
+    if (latest && satisfies(latest, requested)) return latest;
+    const resolved = maxSatisfying(Object.keys(metadata.versions || {}), requested);
+    if (!resolved) {
+      throw new Error(`Ninguna versión de ${metadata.name} cumple el rango ${requested}`);
+    }
+    return resolved;
+  }
+
+  if (!latest) {
+    throw new Error(`El paquete ${metadata.name} no tiene versiones publicadas`);
+  }
+  return latest;
+};
+
+/**
+ * Prepara los archivos de un tarball como paquete de la caché
+ * @param files - Archivos extraídos del tarball
+ * @returns Paquete listo para guardarse
+ */
+export const createCachedPackage = (files: Record<string, string>): CachedPackage => {
+  let packageJson: PackageJson;
+  try {
+    packageJson = JSON.parse(files["package.json"] || "");
+  } catch {
+    throw new Error("El archivo no es un paquete npm válido (falta package.json)");
+  }
+
+  const prepared: Record<string, string> = {};
+  let size = 0;
+  for (const [path, content] of Object.entries(files)) {
+    prepared[path] = CODE_FILE_PATTERN.test(path) ? transformModuleToCommonJS(content) : content;
+    size += content.length;
+  }
+
+  return {
+    name: packageJson.name,
+    version: packageJson.version,
+    description: packageJson.description,
+    dependencies: packageJson.dependencies || {},
+    files: prepared,
+    size,
+    cachedAt: Date.now(),
+  };
+};
+
+/**
+ * Guarda en la caché el contenido de un .tgz
+ */
+const cacheTarball = async (data: ArrayBuffer | Uint8Array): Promise<CachedPackage> => {
+  const pkg = createCachedPackage(await extractTarball(data));
+  await putCachedPackage(pkg);
+  return pkg;
+};
+
+/**
+ * Obtiene el tarball de una versión desde el registro o la carpeta local
+ */
+const downloadTarball = async (
+  name: string,
+  metadata: PackageMetadata,
+  version: string,
+  registryUrl: string
+): Promise<ArrayBuffer | Uint8Array> => {
+  if (isFolderRegistry(registryUrl)) {
+    return readFolderTarball(name, version, registryUrl);
+  }
+
+  const tarballUrl = metadata.versions?.[version]?.dist?.tarball;
+  if (!tarballUrl) {
+    throw new Error(`No se encontró el tarball de ${name}@${version}`);
+  }
+
+  const response = await fetch(tarballUrl);
+  if (!response.ok) {
+    throw new Error(`Error al descargar ${name}@${version}: ${response.statusText}`);
+  }
+  return response.arrayBuffer();
+};
+
+/**
+ * Instala desde el registro las dependencias que aún no están en caché, con
+ * la versión más alta que cumple el rango declarado. La caché guarda una sola
+ * versión por paquete: si la existente no cumple el rango se conserva y se avisa
+ */
+const installMissingDependencies = async (
+  pkg: CachedPackage,
+  registryUrl: string,
+  installing: Set<string>
+): Promise<void> => {
+  for (const [dependency, range] of Object.entries(pkg.dependencies)) {
+    if (installing.has(dependency)) continue;
+
+    const cached = await getCachedPackage(dependency);
+    if (cached) {
+      if (isValidRange(range) && !satisfies(cached.version, range)) {
+        console.warn(
+          `⚠️ ${pkg.name}@${pkg.version} requiere ${dependency}@${range}, pero está instalado ${cached.version}`
+        );
+      }
+      continue;
+    }
+
+    await installPackageFromRegistry(dependency, range, { registryUrl }, installing);
+  }
+};
+
+/**
+ * Instala un paquete desde el contenido de un .tgz local. Las dependencias que
+ * falten se obtienen del registro configurado
+ * @param data - Contenido del tarball
+ * @param registryUrl - URL base del registro o carpeta local para las dependencias
+ * @returns Paquete guardado en la caché
+ */
+export const installPackageFromTarball = async (
+  data: ArrayBuffer | Uint8Array,
+  registryUrl: string = DEFAULT_REGISTRY_URL
+): Promise<CachedPackage> => {
+  const pkg = await cacheTarball(data);
+  await installMissingDependencies(pkg, registryUrl, new Set([pkg.name]));
+  return pkg;
+};
+
+/**
+ * Descarga e instala un paquete del registro junto con sus dependencias.
+ * Si la versión pedida ya está en la caché no se vuelve a descargar
+ * @param name - Nombre del paquete
+ * @param version - Versión exacta, rango o dist-tag (por defecto la última)
+ * @param options.metadata - Metadatos ya obtenidos del registro (evita otra petición)
+ * @param options.registryUrl - URL base del registro o carpeta local
+ * @param installing - Paquetes en instalación (evita ciclos entre dependencias)
+ * @returns Paquete principal guardado en la caché
+ */
+export const installPackageFromRegistry = async (
+  name: string,
+  version?: string,
+  options: { metadata?: PackageMetadata; registryUrl?: string } = {},
+  installing: Set<string> = new Set()
+): Promise<CachedPackage> => {
+  installing.add(name);
+
+  const registryUrl = options.registryUrl ?? DEFAULT_REGISTRY_URL;
+  const metadata = options.metadata ?? (await fetchPackageMetadata(name, registryUrl));
+  const resolvedVersion = resolveVersion(metadata, version);
+
+  let pkg = await getCachedPackage(name);
+  if (!pkg || pkg.version !== resolvedVersion) {
+    pkg = await cacheTarball(await downloadTarball(name, metadata, resolvedVersion, registryUrl));
+  }
+
+  await installMissingDependencies(pkg, registryUrl, installing);
+  return pkg;
+};
@@ -0,0 +1,213 @@
+/**
+ * Evaluación de paquetes npm guardados en la caché.
+ *
+ * Implementa la resolución de CommonJS dentro de cada paquete (campo main,
+ * exports, subrutas, index.js, archivos .json) y evalúa cada archivo una sola
+ * vez por ejecución. No depende de Babel ni de IndexedDB para poder usarse
+ * dentro del worker: recibe los paquetes ya cargados.
+ */
+
+import type { CachedPackage, PackageExports, PackageJson } from "./package-cache";
+
+type ModuleRecord = { exports: unknown };
+
+// Extensiones que se prueban al resolver un archivo dentro de un paquete
+const FILE_EXTENSIONS = ["", ".js", ".cjs", ".mjs", ".json"];
+const INDEX_FILES = ["index.js", "index.cjs", "index.json"];
+
+// Condiciones de "exports" en orden de preferencia
+const EXPORT_CONDITIONS = ["browser", "require", "default", "import", "module"];
+
+/**
+ * Obtiene el nombre del paquete de un especificador ("lodash/fp" → "lodash",
+ * "@scope/pkg/sub" → "@scope/pkg")
+ */
+export const getPackageName = (specifier: string): string => {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+};
+
+/**
+ * Busca los paquetes (imports no relativos) que usa un código ya transformado
+ * @param code - Código transformado (los imports ya son require)
+ * @returns Nombres de paquetes sin repetir
+ */
+export const findPackageRequires = (code: string): string[] => {
+  const names = new Set<string>();
+  for (const match of code.matchAll(/\brequire\(\s*['"`]([^'"`]+)['"`]\s*\)/g)) {
+    const specifier = match[1];
+    if (!specifier.startsWith(".") && !specifier.startsWith("/")) {
+      names.add(getPackageName(specifier));
+    }
+  }
+  return Array.from(names);
+};
+
+/**
+ * Elige un destino dentro de un valor de "exports" (texto, condiciones o arreglo)
+ */
+const pickExportTarget = (target: PackageExports | undefined): string | null => {
+  if (typeof target === "string") return target;
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      const picked = pickExportTarget(item);
+      if (picked) return picked;
+    }
+    return null;
+  }
+  if (target && typeof target === "object") {
+    for (const condition of EXPORT_CONDITIONS) {
+      if (condition in target) {
+        const picked = pickExportTarget(target[condition]);
+        if (picked) return picked;
+      }
+    }
+  }
+  return null;
+};
+
+const normalizePath = (path: string): string => {
+  const segments: string[] = [];
+  for (const segment of path.split("/")) {
+    if (!segment || segment === ".") continue;
+    if (segment === "..") segments.pop();
+    else segments.push(segment);
+  }
+  return segments.join("/");
+};
+
+const dirname = (path: string): string =>
+  path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+
+/**
+ * Lee el package.json de un paquete guardado
+ */
+const readPackageJson = (pkg: CachedPackage): Partial<PackageJson> => {
+  try {
+    return JSON.parse(pkg.files["package.json"] || "{}");
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Resuelve una ruta de archivo dentro del paquete probando extensiones e index
+ */
+const resolveFile = (pkg: CachedPackage, path: string): string | null => {
+  const base = normalizePath(path);
+  for (const extension of FILE_EXTENSIONS) {
+    if (pkg.files[base + extension] !== undefined) return base + extension;
+  }
+  for (const index of INDEX_FILES) {
+    const candidate = base ? `${base}/${index}` : index;
+    if (pkg.files[candidate] !== undefined) return candidate;
+  }
+  return null;
+};
+
+/**
+ * Obtiene el archivo que corresponde a "paquete" o "paquete/subruta"
+ */
+const resolveEntry = (pkg: CachedPackage, subpath: string): string | null => {
+  const packageJson = readPackageJson(pkg);
+  const exportsField = packageJson.exports;
+  const key = subpath ? `./${subpath}` : ".";
+
+  if (exportsField !== undefined) {
+    // "exports" puede ser directamente el destino de "." o un mapa de subrutas
+    const subpathMap =
+      typeof exportsField === "object" &&
+      exportsField !== null &&
+      !Array.isArray(exportsField) &&
+      Object.keys(exportsField).some((exportKey) => exportKey.startsWith("."))
+        ? exportsField
+        : null;
+    const target = subpathMap ? subpathMap[key] : key === "." ? exportsField : undefined;
+    const picked = pickExportTarget(target);
+    if (picked) {
+      const resolved = resolveFile(pkg, picked);
+      if (resolved) return resolved;
+    }
+  }
+
+  if (subpath) return resolveFile(pkg, subpath);
+
+  const browser = typeof packageJson.browser === "string" ? packageJson.browser : null;
+  for (const candidate of [browser, packageJson.main, packageJson.module, "index"]) {
+    if (typeof candidate !== "string") continue;
+    const resolved = resolveFile(pkg, candidate);
+    if (resolved) return resolved;
+  }
+  return null;
+};
+
+/**
+ * Crea un require que evalúa los paquetes de la caché
+ * @param packages - Paquetes disponibles en esta ejecución, por nombre
+ * @param fallbackRequire - Se usa para lo que no es un paquete cacheado (módulos integrados)
+ * @param moduleGlobals - Variables que reciben los archivos del paquete además de require/module/exports
+ * @returns Función require para los paquetes de la ejecución
+ */
+export const createPackageRequire = (
+  packages: Record<string, CachedPackage>,
+  fallbackRequire: (specifier: string) => unknown,
+  moduleGlobals: Record<string, unknown> = {}
+) => {
+  // Caché de módulos de la ejecución: "paquete:archivo" → module
+  const cache = new Map<string, ModuleRecord>();
+
+  const loadFile = (pkg: CachedPackage, file: string): unknown => {
+    const cacheKey = `${pkg.name}:${file}`;
+    const cached = cache.get(cacheKey);
+    if (cached) return cached.exports;
+
+    const module: ModuleRecord = { exports: {} };
+    cache.set(cacheKey, module);
+
+    try {
+      if (file.endsWith(".json")) {
+        module.exports = JSON.parse(pkg.files[file]);
+        return module.exports;
+      }
+
+      const localRequire = (specifier: string) =>
+        specifier.startsWith(".") || specifier.startsWith("/")
+          ? requireRelative(pkg, file, specifier)
+          : requirePackage(specifier);
+
+      const scope = { ...moduleGlobals, require: localRequire, module, exports: module.exports };
+      // require es síncrono: el archivo se evalúa en una función normal, no async
+      // eslint-disable-next-line no-new-func -- evaluar el código del paquete es el propósito del loader
+      const moduleFunction = new Function(...Object.keys(scope), pkg.files[file]);
+      moduleFunction(...Object.values(scope));
+    } catch (error) {
+      cache.delete(cacheKey);
+      throw error;
+    }
+
+    return module.exports;
+  };
+
+  const requireRelative = (pkg: CachedPackage, importer: string, specifier: string) => {
+    const file = resolveFile(pkg, `${dirname(importer)}/${specifier}`);
+    if (!file) {
+      throw new Error(`Cannot find module '${specifier}' desde '${pkg.name}/${importer}'`);
+    }
+    return loadFile(pkg, file);
+  };
+
+  const requirePackage = (specifier: string): unknown => {
+    const name = getPackageName(specifier);
+    const pkg = packages[name];
+    if (!pkg) return fallbackRequire(specifier);
+
+    const subpath = specifier.slice(name.length + 1);
+    const file = resolveEntry(pkg, subpath);
+    if (!file) {
+      throw new Error(`No se encontró el punto de entrada de '${specifier}' en ${name}@${pkg.version}`);
+    }
+    return loadFile(pkg, file);
+  };
+
+  return requirePackage;
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { compareVersions, isValidRange, maxSatisfying, parsePackageSpec, satisfies } from "./semver";
+
+/**
+ * Versiones de la lista que cumplen el rango
+ */
+const matching = (range: string, versions: string[]) =>
+  versions.filter((version) => satisfies(version, range));
+
+describe("compareVersions", () => {
+  it("ordena las prereleases antes de su versión", () => {
+    const versions = ["5.0.0", "5.0.0-beta.2", "5.0.0-alpha", "5.0.0-beta.10", "4.9.9"];
+
+    expect([...versions].sort(compareVersions)).toEqual([
+      "4.9.9",
+      "5.0.0-alpha",
+      "5.0.0-beta.2",
+      "5.0.0-beta.10",
+      "5.0.0",
+    ]);
+  });
+});
+
+describe("rangos", () => {
+  it("^ en 1.x admite cambios menores", () => {
+    expect(matching("^1.2.3", ["1.2.2", "1.2.3", "1.9.0", "2.0.0"])).toEqual(["1.2.3", "1.9.0"]);
+  });
+
+  it("^ en 0.x solo admite cambios de la primera parte distinta de cero", () => {
+    expect(matching("^0.2.3", ["0.2.3", "0.2.9", "0.3.0"])).toEqual(["0.2.3", "0.2.9"]);
+    expect(matching("^0.0.3", ["0.0.3", "0.0.4"])).toEqual(["0.0.3"]);
+    expect(matching("^0.x", ["0.0.1", "0.9.0", "1.0.0"])).toEqual(["0.0.1", "0.9.0"]);
+  });
+
+  it("~ admite cambios de parche", () => {
+    expect(matching("~1.2.3", ["1.2.3", "1.2.9", "1.3.0"])).toEqual(["1.2.3", "1.2.9"]);
+    expect(matching("~1", ["1.0.0", "1.9.9", "2.0.0"])).toEqual(["1.0.0", "1.9.9"]);
+  });
+
+  it("rango con guion incluye la versión parcial final completa", () => {
+    expect(matching("1.2.3 - 2.3", ["1.2.2", "1.2.3", "2.3.9", "2.4.0"])).toEqual(["1.2.3", "2.3.9"]);
+    expect(matching("1.2 - 2.3.4", ["1.2.0", "2.3.4", "2.3.5"])).toEqual(["1.2.0", "2.3.4"]);
+  });
+
+  it("|| se cumple con cualquiera de los conjuntos", () => {
+    expect(matching("~1.2.3 || >=3", ["1.2.5", "2.0.0", "3.1.0"])).toEqual(["1.2.5", "3.1.0"]);
+  });
+
+  it("una prerelease solo cumple un rango que nombra una de la misma versión", () => {
+    expect(satisfies("5.0.0-beta.1", "^4.0.0 || ^5.0.0")).toBe(false);
+    expect(satisfies("5.0.0-beta.2", ">=5.0.0-beta.1")).toBe(true);
+    expect(satisfies("5.1.0-beta.1", ">=5.0.0-beta.1")).toBe(false);
+    expect(satisfies("5.1.0", ">=5.0.0-beta.1")).toBe(true);
+  });
+
+  it("rechaza los rangos no válidos", () => {
+    expect(isValidRange("^1.2 <1.5")).toBe(true);
+    expect(isValidRange("latest")).toBe(false);
+    expect(satisfies("1.0.0", "latest")).toBe(false);
+  });
+});
+
+describe("maxSatisfying", () => {
+  it("elige la versión más alta que cumple el rango", () => {
+    expect(maxSatisfying(["4.17.20", "4.17.21", "5.0.0-rc.1", "3.10.1"], "^4")).toBe("4.17.21");
+    expect(maxSatisfying(["1.0.0"], "^2")).toBeNull();
+  });
+});
+
+describe("parsePackageSpec", () => {
+  it("separa el nombre y el rango, también con scope", () => {
+    expect(parsePackageSpec("lodash@^4")).toEqual({ name: "lodash", range: "^4" });
+    expect(parsePackageSpec("@scope/pkg@1.x")).toEqual({ name: "@scope/pkg", range: "1.x" });
+    expect(parsePackageSpec("@scope/pkg")).toEqual({ name: "@scope/pkg" });
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Versiones semánticas y rangos de npm.
+ *
+ * Implementa lo necesario para resolver instalaciones y dependencias:
+ * comparación con prereleases (`5.0.0-beta.1 < 5.0.0`), rangos con `^`, `~`,
+ * comparadores, comodines (`4.x`, `*`), rangos con guion (`1.2 - 2`) y
+ * uniones con `||`. Como npm, una prerelease solo satisface un rango que
+ * menciona una prerelease de la misma versión.
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: Array<string | number>;
+}
+
+type Operator = "<" | "<=" | ">" | ">=" | "=";
+
+interface Comparator {
+  operator: Operator;
+  version: SemVer;
+  /** Límite generado al expandir un rango (ej. el "<2.0.0-0" de "^1.2.3") */
+  implicit?: boolean;
+}
+
+// Versión parcial de un rango: las partes ausentes o comodín son null
+interface PartialVersion {
+  major: number | null;
+  minor: number | null;
+  patch: number | null;
+  prerelease: Array<string | number>;
+}
+
+const VERSION_PATTERN =
+  /^[=v\s]*(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_PATTERN =
+  /^[=v\s]*(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+const parsePrerelease = (value?: string): Array<string | number> =>
+  value ? value.split(".").map((id) => (/^\d+$/.test(id) ? Number(id) : id)) : [];
+
+/**
+ * Analiza una versión completa ("1.2.3", "v5.0.0-beta.1")
+ * @returns Versión, o null si no es una versión semántica válida
+ */
+export const parseVersion = (version: string): SemVer | null => {
+  const match = version.trim().match(VERSION_PATTERN);
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: parsePrerelease(match[4]),
+  };
+};
+
+const comparePrerelease = (a: SemVer, b: SemVer): number => {
+  // Sin prerelease es mayor que con prerelease
+  if (!a.prerelease.length || !b.prerelease.length) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+    if (left === undefined) return -1;
+    if (right === undefined) return 1;
+    if (left === right) continue;
+    // Los identificadores numéricos son menores que los alfanuméricos
+    if (typeof left === "number" && typeof right === "number") return left < right ? -1 : 1;
+    if (typeof left === "number") return -1;
+    if (typeof right === "number") return 1;
+    return left < right ? -1 : 1;
+  }
+  return 0;
+};
+
+const compareSemVer = (a: SemVer, b: SemVer): number =>
+  a.major - b.major || a.minor - b.minor || a.patch - b.patch || comparePrerelease(a, b);
+
+/**
+ * Compara dos versiones
+ * @returns Negativo si a < b, positivo si a > b y 0 si son iguales
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) {
+    // Versiones no semánticas: comparación numérica por partes
+    return a.localeCompare(b, undefined, { numeric: true });
+  }
+  return Math.sign(compareSemVer(left, right));
+};
+
+const parsePartial = (value: string): PartialVersion | null => {
+  const match = value.trim().match(PARTIAL_PATTERN);
+  if (!match) return null;
+  const part = (text?: string) => (text === undefined || /^[xX*]$/.test(text) ? null : Number(text));
+
+  const major = part(match[1]);
+  const minor = major === null ? null : part(match[2]);
+  const patch = minor === null ? null : part(match[3]);
+  return { major, minor, patch, prerelease: patch === null ? [] : parsePrerelease(match[4]) };
+};
+
+const createVersion = (
+  major: number,
+  minor: number,
+  patch: number,
+  prerelease: Array<string | number> = []
+): SemVer => ({ major, minor, patch, prerelease });
+
+// Límite superior exclusivo que no admite prereleases de esa versión
+const upperBound = (major: number, minor: number, patch: number): Comparator => ({
+  operator: "<",
+  version: createVersion(major, minor, patch, [0]),
+  implicit: true,
+});
+
+const lowerBound = (partial: PartialVersion): Comparator => ({
+  operator: ">=",
+  version: createVersion(partial.major ?? 0, partial.minor ?? 0, partial.patch ?? 0, partial.prerelease),
+});
+
+/**
+ * Comparadores equivalentes a una versión parcial ("1.2" → >=1.2.0 <1.3.0-0)
+ */
+const expandPartial = (partial: PartialVersion): Comparator[] => {
+  if (partial.major === null) return [];
+  if (partial.minor === null) return [lowerBound(partial), upperBound(partial.major + 1, 0, 0)];
+  if (partial.patch === null) {
+    return [lowerBound(partial), upperBound(partial.major, partial.minor + 1, 0)];
+  }
+  return [{ operator: "=", version: lowerBound(partial).version }];
+};
+
+const expandCaret = (partial: PartialVersion): Comparator[] => {
+  const { major, minor, patch } = partial;
+  if (major === null) return [];
+  if (major > 0 || minor === null) return [lowerBound(partial), upperBound(major + 1, 0, 0)];
+  if (minor > 0 || patch === null) return [lowerBound(partial), upperBound(0, minor + 1, 0)];
+  return [lowerBound(partial), upperBound(0, 0, patch + 1)];
+};
+
+const expandTilde = (partial: PartialVersion): Comparator[] => {
+  if (partial.major === null) return [];
+  if (partial.minor === null) return expandPartial(partial);
+  return [lowerBound(partial), upperBound(partial.major, partial.minor + 1, 0)];
+};
+
+const expandOperator = (operator: Operator, partial: PartialVersion): Comparator[] | null => {
+  const { major, minor, patch } = partial;
+  if (operator === "=") return expandPartial(partial);
+  if (major === null) {
+    // ">*" y "<*" no admiten ninguna versión; ">=*" y "<=*" admiten todas
+    return operator === ">=" || operator === "<=" ? [] : null;
+  }
+  if (patch !== null) return [{ operator, version: lowerBound(partial).version }];
+
+  // Comparadores con versiones parciales: se ajusta el límite a la parte indicada
+  const next =
+    minor === null ? createVersion(major + 1, 0, 0) : createVersion(major, minor + 1, 0);
+  switch (operator) {
+    case ">":
+      return [{ operator: ">=", version: next }];
+    case ">=":
+      return [lowerBound(partial)];
+    case "<":
+      return [upperBound(major, minor ?? 0, 0)];
+    case "<=":
+      return [upperBound(next.major, next.minor, next.patch)];
+  }
+};
+
+/**
+ * Convierte un conjunto de comparadores separados por espacios ("^1.2 <1.5")
+ */
+const parseComparatorSet = (text: string): Comparator[] | null => {
+  const trimmed = text.trim();
+
+  // Rango con guion: "1.2.3 - 2.3"
+  const hyphen = trimmed.match(/^(\S+)\s+-\s+(\S+)$/);
+  if (hyphen) {
+    const from = parsePartial(hyphen[1]);
+    const to = parsePartial(hyphen[2]);
+    if (!from || !to) return null;
+    const comparators = from.major === null ? [] : [lowerBound(from)];
+    if (to.major !== null) comparators.push(...(expandOperator("<=", to) ?? []));
+    return comparators;
+  }
+
+  const comparators: Comparator[] = [];
+  // Los operadores pueden ir separados de la versión (">= 1.2")
+  const tokens = trimmed.replace(/(\^|~|[<>]=?|=)\s+/g, "$1").split(/\s+/).filter(Boolean);
+
+  for (const token of tokens) {
+    const match = token.match(/^(\^|~>?|[<>]=?|=)?(.*)$/)!;
+    const partial = parsePartial(match[2]);
+    if (!partial) return null;
+
+    const operator = match[1];
+    const expanded =
+      operator === "^"
+        ? expandCaret(partial)
+        : operator === "~" || operator === "~>"
+          ? expandTilde(partial)
+          : expandOperator((operator || "=") as Operator, partial);
+    if (!expanded) return null;
+    comparators.push(...expanded);
+  }
+
+  return comparators;
+};
+
+/**
+ * Analiza un rango de npm
+ * @returns Conjuntos de comparadores (se cumple alguno), o null si el rango no es válido
+ */
+const parseRange = (range: string): Comparator[][] | null => {
+  const sets: Comparator[][] = [];
+  for (const part of range.split("||")) {
+    const set = parseComparatorSet(part);
+    if (!set) return null;
+    sets.push(set);
+  }
+  return sets;
+};
+
+/**
+ * Indica si un texto es un rango de versiones válido
+ */
+export const isValidRange = (range: string): boolean => parseRange(range) !== null;
+
+const testComparator = (semver: SemVer, { operator, version: bound }: Comparator): boolean => {
+  const result = compareSemVer(semver, bound);
+  switch (operator) {
+    case "<":
+      return result < 0;
+    case "<=":
+      return result <= 0;
+    case ">":
+      return result > 0;
+    case ">=":
+      return result >= 0;
+    case "=":
+      return result === 0;
+  }
+};
+
+const testSet = (semver: SemVer, set: Comparator[]): boolean => {
+  if (!set.every((comparator) => testComparator(semver, comparator))) return false;
+  if (!semver.prerelease.length) return true;
+
+  // Una prerelease solo se admite si el rango nombra una de la misma versión
+  return set.some(
+    ({ version: bound, implicit }) =>
+      !implicit &&
+      bound.prerelease.length > 0 &&
+      bound.major === semver.major &&
+      bound.minor === semver.minor &&
+      bound.patch === semver.patch
+  );
+};
+
+/**
+ * Indica si una versión cumple un rango
+ * @param version - Versión exacta ("4.17.21")
+ * @param range - Rango de npm ("^4", "~1.2.3 || >=2")
+ */
+export const satisfies = (version: string, range: string): boolean => {
+  const semver = parseVersion(version);
+  const sets = parseRange(range);
+  if (!semver || !sets) return false;
+  return sets.some((set) => testSet(semver, set));
+};
+
+/**
+ * Obtiene la versión más alta que cumple un rango
+ * @returns Versión elegida, o null si ninguna lo cumple
+ */
+export const maxSatisfying = (versions: string[], range: string): string | null =>
+  versions
+    .filter((candidate) => satisfies(candidate, range))
+    .sort(compareVersions)
+    .pop() ?? null;
+
+/**
+ * Separa el nombre y el rango de una petición de instalación
+ * ("lodash@^4" → lodash, ^4; "@scope/pkg@1.x" → @scope/pkg, 1.x)
+ */
+export const parsePackageSpec = (spec: string): { name: string; range?: string } => {
+  const trimmed = spec.trim();
+  const separator = trimmed.indexOf("@", 1);
+  if (separator === -1) return { name: trimmed };
+  const range = trimmed.slice(separator + 1).trim();
+  return { name: trimmed.slice(0, separator), range: range || undefined };
+};
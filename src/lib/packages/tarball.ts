@@ -0,0 +1,100 @@
+/**
+ * Lectura de tarballs de npm (.tgz).
+ *
+ * Un paquete publicado es un tar comprimido con gzip cuyo contenido cuelga de
+ * una carpeta raíz (normalmente "package/"). Solo se conservan los archivos de
+ * texto que hacen falta para ejecutar el paquete o leer sus tipos.
+ */
+
+const BLOCK_SIZE = 512;
+
+// Archivos del paquete que se guardan en la caché
+const KEPT_FILE_PATTERN = /\.(js|cjs|mjs|json|d\.ts|d\.mts|d\.cts)$/;
+
+/**
+ * Descomprime datos gzip con la API nativa del navegador
+ */
+const gunzip = async (data: ArrayBuffer | Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Lee un campo de texto terminado en NUL de una cabecera tar
+ */
+const readString = (block: Uint8Array, offset: number, length: number): string => {
+  const bytes = block.subarray(offset, offset + length);
+  const end = bytes.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end));
+};
+
+/**
+ * Lee un campo numérico en octal de una cabecera tar
+ */
+const readOctal = (block: Uint8Array, offset: number, length: number): number =>
+  parseInt(readString(block, offset, length).trim() || "0", 8);
+
+/**
+ * Extrae la ruta de una cabecera extendida PAX ("<len> path=<ruta>\n")
+ */
+const readPaxPath = (content: Uint8Array): string | null => {
+  const match = new TextDecoder().decode(content).match(/\d+ path=([^\n]*)\n/);
+  return match ? match[1] : null;
+};
+
+/**
+ * Quita la carpeta raíz del tarball ("package/index.js" → "index.js")
+ */
+const stripRootFolder = (path: string): string => path.replace(/^[^/]+\//, "");
+
+/**
+ * Extrae los archivos de texto de un tarball de npm
+ * @param data - Contenido del .tgz
+ * @returns Archivos por ruta relativa a la raíz del paquete
+ */
+export const extractTarball = async (
+  data: ArrayBuffer | Uint8Array
+): Promise<Record<string, string>> => {
+  const tar = await gunzip(data);
+  const decoder = new TextDecoder();
+  const files: Record<string, string> = {};
+
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE);
+    // Dos bloques vacíos marcan el final del archivo
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 48);
+    const content = tar.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    // Cabeceras de nombres largos (GNU y PAX) aplican a la entrada siguiente
+    if (type === "L") {
+      longName = readString(content, 0, content.length);
+      continue;
+    }
+    if (type === "x") {
+      longName = readPaxPath(content) ?? longName;
+      continue;
+    }
+    if (type !== "0") {
+      longName = null;
+      continue;
+    }
+
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    const path = stripRootFolder(longName ?? (prefix ? `${prefix}/${name}` : name));
+    longName = null;
+
+    if (KEPT_FILE_PATTERN.test(path)) {
+      files[path] = decoder.decode(content);
+    }
+  }
+
+  return files;
+};
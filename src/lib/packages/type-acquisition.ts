@@ -0,0 +1,139 @@
+/**
+ * Adquisición automática de tipos de los paquetes instalados.
+ *
+ * Si el paquete incluye sus propios .d.ts se usan esos; si no, se instala en
+ * la caché su paquete `@types/*`. Los imports de otros paquetes dentro de los
+ * .d.ts (`import ... from "csstype"`, `/// <reference types="node" />`) se
+ * siguen de forma transitiva. Los archivos se exponen con rutas de
+ * node_modules virtuales para que el servicio de TypeScript de Monaco los
+ * resuelva igual que en un proyecto real.
+ */
+
+import { getCachedPackage, type CachedPackage } from "./package-cache";
+import { installPackageFromRegistry } from "./package-installer";
+import { getPackageName } from "./package-loader";
+
+/** Archivos de tipos listos para registrarse en Monaco */
+export interface PackageTypeLibs {
+  /** Paquetes para los que se encontraron tipos reales */
+  packages: string[];
+  /** Contenido por ruta virtual (file:///node_modules/...) */
+  files: Record<string, string>;
+}
+
+const DECLARATION_FILE_PATTERN = /\.d\.(ts|mts|cts)$/;
+
+// Referencias a otros módulos dentro de un archivo de declaraciones
+const TYPE_REFERENCE_PATTERNS = [
+  /\bfrom\s+['"]([^'"]+)['"]/g,
+  /\bimport\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+  /\bimport\s+['"]([^'"]+)['"]/g,
+  /\brequire\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+  /\/\/\/\s*<reference\s+types\s*=\s*['"]([^'"]+)['"]/g,
+];
+
+/**
+ * Nombre del paquete de DefinitelyTyped ("express" → "@types/express",
+ * "@scope/pkg" → "@types/scope__pkg")
+ */
+export const getTypesPackageName = (name: string): string =>
+  name.startsWith("@") ? `@types/${name.slice(1).replace("/", "__")}` : `@types/${name}`;
+
+const hasDeclarationFiles = (pkg: CachedPackage): boolean =>
+  Object.keys(pkg.files).some((path) => DECLARATION_FILE_PATTERN.test(path));
+
+/**
+ * Paquetes que referencian los .d.ts de un paquete (sin repetir ni incluirse a sí mismo)
+ */
+const findTypeReferences = (pkg: CachedPackage): string[] => {
+  const names = new Set<string>();
+  for (const [path, content] of Object.entries(pkg.files)) {
+    if (!DECLARATION_FILE_PATTERN.test(path)) continue;
+    for (const pattern of TYPE_REFERENCE_PATTERNS) {
+      for (const match of content.matchAll(pattern)) {
+        const specifier = match[1];
+        if (specifier.startsWith(".") || specifier.startsWith("/")) continue;
+        names.add(getPackageName(specifier.replace(/^node:/, "")));
+      }
+    }
+  }
+  names.delete(pkg.name);
+  return Array.from(names);
+};
+
+/**
+ * Obtiene de la caché el paquete que aporta los tipos de otro
+ */
+const getCachedTypesPackage = async (name: string): Promise<CachedPackage | null> => {
+  const pkg = await getCachedPackage(name);
+  if (pkg && hasDeclarationFiles(pkg)) return pkg;
+  const typesPackage = await getCachedPackage(getTypesPackageName(name));
+  return typesPackage && hasDeclarationFiles(typesPackage) ? typesPackage : null;
+};
+
+/**
+ * Descarga a la caché los tipos de un paquete y de los paquetes que sus tipos importan
+ * @param name - Paquete instalado
+ * @param registryUrl - Registro del que se obtienen los paquetes @types
+ * @param visited - Paquetes ya procesados (evita ciclos entre referencias)
+ * @returns true si se encontraron tipos para el paquete
+ */
+export const acquirePackageTypes = async (
+  name: string,
+  registryUrl?: string,
+  visited: Set<string> = new Set()
+): Promise<boolean> => {
+  if (visited.has(name)) return true;
+  visited.add(name);
+
+  let typesPackage = await getCachedTypesPackage(name);
+  if (!typesPackage) {
+    try {
+      typesPackage = await installPackageFromRegistry(getTypesPackageName(name), undefined, {
+        registryUrl,
+      });
+    } catch {
+      // Sin tipos publicados: el paquete queda con tipos `any`
+      return false;
+    }
+  }
+
+  for (const reference of findTypeReferences(typesPackage)) {
+    await acquirePackageTypes(reference, registryUrl, visited);
+  }
+  return true;
+};
+
+/**
+ * Reúne desde la caché los archivos de tipos de los paquetes indicados y de
+ * los paquetes que referencian (sin usar la red)
+ * @param names - Paquetes instalados
+ */
+export const loadPackageTypeLibs = async (names: string[]): Promise<PackageTypeLibs> => {
+  const libs: PackageTypeLibs = { packages: [], files: {} };
+  const visited = new Set<string>();
+
+  const addPackage = async (name: string): Promise<boolean> => {
+    if (visited.has(name)) return true;
+    visited.add(name);
+
+    const typesPackage = await getCachedTypesPackage(name);
+    if (!typesPackage) return false;
+
+    for (const [path, content] of Object.entries(typesPackage.files)) {
+      if (path === "package.json" || DECLARATION_FILE_PATTERN.test(path)) {
+        libs.files[`file:///node_modules/${typesPackage.name}/${path}`] = content;
+      }
+    }
+
+    for (const reference of findTypeReferences(typesPackage)) {
+      await addPackage(reference);
+    }
+    return true;
+  };
+
+  for (const name of names) {
+    if (await addPackage(name)) libs.packages.push(name);
+  }
+  return libs;
+};
@@ -11,6 +11,10 @@ export default defineConfig({
       {
         entry: "electron/main.ts",
       },
+      {
+        // Proceso que ejecuta los scripts del usuario (utilityProcess)
+        entry: "electron/node-process-child.ts",
+      },
       {
         entry: "electron/preload.ts",
         onstart(options) {